@@ -3,6 +3,7 @@ import { FirecrawlService } from '../services/firecrawl-service';
 import { GoogleSearchService } from '../services/google-search';
 import { OpenRouterService } from '../services/openrouter-service';
 import { AuditLogger } from '../services/audit-logger';
+import { ClaimPayload } from '../types/claim-types';
 import { Pool } from 'pg';
 import dotenv from 'dotenv';
 
@@ -269,6 +270,42 @@ export abstract class BaseAgent {
 
 
 
+  /**
+   * Service lines for prompts, one per line: "1. 97140 x2 [59] DOS 2025-01-15 dx M54.5 $120.00"
+   * (institutional lines start with their revenue code: "1. rev 0450 99283 x1 ...").
+   * Empty when the claim only has flat cpt_codes/modifiers.
+   */
+  protected describeServiceLines(payload: ClaimPayload): string {
+    return (payload.service_lines || []).map((line, index) => {
+      const diagnoses = (line.diagnosis_pointers || []).map(pointer => payload.icd10_codes[pointer - 1] || `#${pointer}`);
+      return [
+        `${index + 1}.${line.revenue_code ? ` rev ${line.revenue_code}` : ''} ${line.code} x${line.units || 1}`,
+        line.modifiers && line.modifiers.length > 0 ? `[${line.modifiers.join(', ')}]` : '',
+        line.date_of_service ? `DOS ${line.date_of_service}` : '',
+        diagnoses.length > 0 ? `dx ${diagnoses.join(', ')}` : '',
+        line.charge !== undefined ? `$${line.charge.toFixed(2)}` : ''
+      ].filter(Boolean).join(' ');
+    }).join('\n');
+  }
+
+  /**
+   * Institutional claim details for prompts, e.g. "Type of bill 0131, revenue codes 0450, 0300, admitted 2025-01-15 (type 1, source 7)".
+   * Empty for professional claims.
+   */
+  protected describeInstitutionalClaim(payload: ClaimPayload): string {
+    const info = payload.institutional;
+    if (!info) return '';
+    return [
+      `Type of bill ${info.type_of_bill}`,
+      payload.revenue_codes && payload.revenue_codes.length > 0 ? `revenue codes ${payload.revenue_codes.join(', ')}` : '',
+      info.admission_date ? `admitted ${info.admission_date}${info.admission_type ? ` (type ${info.admission_type}${info.admission_source ? `, source ${info.admission_source}` : ''})` : ''}` : '',
+      info.patient_status ? `patient status ${info.patient_status}` : '',
+      info.occurrence_codes && info.occurrence_codes.length > 0
+        ? `occurrence codes ${info.occurrence_codes.map(o => o.date ? `${o.code} (${o.date})` : o.code).join(', ')}`
+        : ''
+    ].filter(Boolean).join(', ');
+  }
+
   /**
    * Handle tool calls
    */
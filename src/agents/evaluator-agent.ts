@@ -160,12 +160,16 @@ EVALUATION CRITERIA:
     claimId: string,
     reviewerResults: ReviewerResult[],
     questions: ValidationQuestion[],
-    startTime: number
+    startTime: number,
+    claim?: ClaimPayload
   ): Promise<EvaluatorDecision> {
     if (!this.agent) {
       await this.initialize();
     }
 
+    // Line-level context lets the decision name the line a modifier or diagnosis problem is on
+    const serviceLines = claim ? this.describeServiceLines(claim) : '';
+
     // Prepare consolidated input for evaluation
     const evaluationInput = this.prepareEvaluationInput(reviewerResults, questions);
 
@@ -173,7 +177,10 @@ EVALUATION CRITERIA:
 Evaluate this medical claim based on reviewer results:
 
 CLAIM ID: ${claimId}
-
+${serviceLines ? `
+SERVICE LINES (code x units [modifiers] DOS dx charge):
+${serviceLines}
+` : ''}
 REVIEWER RESULTS:
 ${JSON.stringify(evaluationInput, null, 2)}
 
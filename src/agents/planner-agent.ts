@@ -1,6 +1,6 @@
 import { BaseAgent } from './base-agent';
 import { Agent } from '@openai/agents';
-import { ClaimPayload } from '../types/claim-types';
+import { ClaimPayload, ClaimServiceLine } from '../types/claim-types';
 import { SanityCheckResult } from './sanity-check-agent';
 import { PayerDomainMappingService } from '../services/payer-domain-mapping';
 
@@ -31,6 +31,7 @@ export interface PlannerResult {
     rationale: string;
     derived: {
       cpt_codes: string[];
+      service_lines?: ClaimServiceLine[];
       icd10_codes: string[];
       place_of_service: string;
       member_plan_type: string;
@@ -175,7 +176,10 @@ Generate validation questions for this medical claim:
 Claim Payload:
 - CPT Codes: ${payload.cpt_codes.join(', ')}
 - ICD-10 Codes: ${payload.icd10_codes.join(', ')}
-- Modifiers: ${(payload.modifiers || []).join(', ') || 'None'}
+- Modifiers: ${(payload.modifiers || []).join(', ') || 'None'}${payload.service_lines?.length ? `
+- Service Lines (code x units [modifiers] DOS dx charge):
+${this.describeServiceLines(payload)}` : ''}${payload.institutional ? `
+- Institutional Claim: ${this.describeInstitutionalClaim(payload)}` : ''}
 - Notes: ${payload.note_summary}
 - Payer: ${payload.payer}
 - Payer Domains: ${payerDomains.join(', ')}
@@ -278,6 +282,7 @@ Follow the exact output format and question count requirements specified in the
           rationale: 'Generated by planner agent',
           derived: {
             cpt_codes: payload.cpt_codes,
+            service_lines: payload.service_lines,
             icd10_codes: payload.icd10_codes,
             place_of_service: payload.place_of_service || '',
             member_plan_type: payload.member_plan_type || '',
@@ -1,8 +1,8 @@
 import { BaseAgent } from './base-agent';
 import { Agent } from '@openai/agents';
 import { ClaimPayload } from '../types/claim-types';
-import { CMSNCCIService, ValidationIssue } from '../services/cms-ncci-service';
 import { validateClaim, isDatabaseBuilt, buildLatest, ValidationResult } from '../services/cms-ncci-validator';
+import { RuleIssue } from '../services/rules-engine';
 
 export interface SanityCheckResult {
   is_valid: boolean;
@@ -57,18 +57,12 @@ export interface SanityCheckResult {
   };
   policy_check_required: boolean;
   policy_check_details: any;
-  validation_issues: ValidationIssue[];
+  validation_issues: RuleIssue[]; // Errors and warnings from the rules engine
   cms_ncci_validation: ValidationResult;
 }
 
 export class SanityCheckAgent extends BaseAgent {
   private agent: Agent | null = null;
-  private cmsNCCIService: CMSNCCIService;
-
-  constructor() {
-    super();
-    this.cmsNCCIService = new CMSNCCIService();
-  }
 
   /**
    * Initialize the Sanity Check agent
@@ -142,6 +136,12 @@ Output Format:
     console.log(`      🔢 CPT Codes: ${payload.cpt_codes.join(', ')}`);
     console.log(`      📊 ICD-10 Codes: ${payload.icd10_codes.join(', ')}`);
     console.log(`      🏷️  Modifiers: ${payload.modifiers && payload.modifiers.length > 0 ? payload.modifiers.join(', ') : 'None'}`);
+    if (payload.institutional) {
+      console.log(`      🏨 Institutional: ${this.describeInstitutionalClaim(payload)}`);
+    }
+    if (payload.service_lines && payload.service_lines.length > 0) {
+      console.log(`      🧾 Service Lines:\n${this.describeServiceLines(payload).replace(/^/gm, '         ')}`);
+    }
     console.log(`      📍 Place of Service: ${payload.place_of_service}`);
     console.log(`      🗺️  State: ${payload.state}`);
     
@@ -212,7 +212,17 @@ Output Format:
         cpt_codes: payload.cpt_codes,
         icd10_codes: payload.icd10_codes,
         modifiers: payload.modifiers,
+        service_lines: payload.service_lines,
+        revenue_codes: payload.revenue_codes,
+        provider_type: payload.provider_type,
+        type_of_bill: payload.institutional?.type_of_bill,
         place_of_service: payload.place_of_service,
+        claim_date: payload.date_of_service,
+        payer: payload.payer,
+        member_plan_type: payload.member_plan_type,
+        state: payload.state,
+        visit_count: payload.visit_count,
+        tenant_id: payload.tenant_id,
         note_summary: payload.note_summary
       });
       
@@ -248,7 +258,13 @@ Output Format:
       console.error('      ❌ CMS/NCCI validation failed:', error);
       // Fallback to basic validation
       cmsNcciValidation = {
-        errors: [{ type: 'NEEDS_POLICY_CHECK', message: 'CMS/NCCI validation unavailable' }],
+        errors: [{
+          rule_id: 'ncci',
+          type: 'RULE_UNAVAILABLE',
+          severity: 'error',
+          message: 'CMS/NCCI validation unavailable',
+          fix: 'Check database connectivity and that the NCCI tables are loaded'
+        }],
         warnings: [],
         passes: [],
         is_valid: false,
@@ -256,9 +272,6 @@ Output Format:
       };
     }
 
-    // Also perform legacy validation for compatibility
-    const validationIssues = await this.cmsNCCIService.validateClaim(payload);
-
     const sanityResult: SanityCheckResult = {
       is_valid: cmsNcciValidation.is_valid && aiClinicalValidation.overall_appropriate,
       sanitized_payload: payload,
@@ -270,14 +283,14 @@ Output Format:
       issues: cmsNcciValidation.errors.map(e => e.message),
       warnings: cmsNcciValidation.warnings.map(w => w.message),
       cms_ncci_checks: {
-        bundling_issues: cmsNcciValidation.errors.filter(e => e.type.includes('PTP')).map(e => e.message),
-        modifier_requirements: cmsNcciValidation.errors.filter(e => e.type.includes('MODIFIER')).map(e => e.message),
-        frequency_limits: cmsNcciValidation.errors.filter(e => e.type.includes('MUE')).map(e => e.message)
+        bundling_issues: cmsNcciValidation.errors.filter(e => e.rule_id === 'ptp' || e.rule_id === 'aoc').map(e => e.message),
+        modifier_requirements: cmsNcciValidation.errors.filter(e => e.rule_id === 'modifiers' || e.type === 'PTP_NEEDS_MODIFIER').map(e => e.message),
+        frequency_limits: cmsNcciValidation.errors.filter(e => e.rule_id === 'mue' || e.rule_id === 'frequency').map(e => e.message)
       },
       ai_clinical_validation: aiClinicalValidation,
       policy_check_required: cmsNcciValidation.warnings.some(w => w.type === 'NEEDS_POLICY_CHECK'),
-      policy_check_details: cmsNcciValidation.warnings.find(w => w.type === 'NEEDS_POLICY_CHECK')?.data || null,
-      validation_issues: validationIssues,
+      policy_check_details: cmsNcciValidation.warnings.find(w => w.type === 'NEEDS_POLICY_CHECK')?.evidence || null,
+      validation_issues: [...cmsNcciValidation.errors, ...cmsNcciValidation.warnings],
       cms_ncci_validation: cmsNcciValidation
     };
 
@@ -402,7 +415,10 @@ CLAIM CONTEXT:
 - CPT codes: ${payload.cpt_codes.join(', ')}
 - ICD-10 codes: ${payload.icd10_codes.join(', ')}
 - Place of Service: ${payload.place_of_service || 'Not specified'}
-- Modifiers: ${(payload.modifiers || []).join(', ') || 'None'}
+- Modifiers: ${(payload.modifiers || []).join(', ') || 'None'}${payload.service_lines?.length ? `
+- Service lines (code x units [modifiers] DOS dx charge):
+${this.describeServiceLines(payload)}` : ''}${payload.institutional ? `
+- Institutional claim: ${this.describeInstitutionalClaim(payload)}` : ''}
 - Clinical Note: ${payload.note_summary}
 
 Evaluate all the CPT codes, ICD-10 codes, Place of Service (POS), note summary, and modifiers to see if they look correct, plausible, and correspond to the doctor's note. Evaluate all the codes and check if they are correct or not, providing suggestions for any incorrect ICD-10 codes, CPT codes, place of service and modifiers.
@@ -449,6 +465,7 @@ MODIFIER VALIDATION GUIDELINES:
 - Evaluate if modifiers are appropriate for the specific CPT codes being billed
 - Check if modifiers match the clinical circumstances described in the documentation
 - Ensure modifiers are used according to standard medical coding practices
+- When service lines are listed, check each modifier is on the line it describes (e.g. 59/XS on the distinct procedure, 25 on the E&M) and that each line's diagnoses support that line
 - If any modifier appears inappropriate for the service, mark it as such
 `;
 
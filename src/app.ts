@@ -5,6 +5,14 @@ import morgan from 'morgan';
 import dotenv from 'dotenv';
 import path from 'path';
 import claimValidationApiRouter from './routes/claim-validation-api';
+import claimsApiRouter from './routes/claims-api';
+import ncciApiRouter from './routes/ncci-api';
+import fhirApiRouter from './routes/fhir-api';
+import remittanceApiRouter from './routes/remittance-api';
+import { startNcciRuleIndex } from './services/cms-ncci-validator';
+import { ClaimJobService } from './services/claim-job-service';
+import { ClaimBatchService } from './services/claim-batch-service';
+import { WebhookDeliveryService } from './services/webhook-delivery-service';
 
 // Load environment variables
 dotenv.config();
@@ -58,6 +66,10 @@ app.get('/health', (req, res) => {
 
 // API routes
 app.use('/api', claimValidationApiRouter);
+app.use('/api', claimsApiRouter);
+app.use('/api', ncciApiRouter);
+app.use('/api', fhirApiRouter);
+app.use('/api', remittanceApiRouter);
 
 // Serve workflow UI at root
 app.get('/', (req, res) => {
@@ -73,6 +85,22 @@ app.get('/api', (req, res) => {
     endpoints: {
       health: '/health',
       validate: '/api/claims/validate',
+      claims: '/api/claims',
+      ncci_check: '/api/claims/ncci-check',
+      claim_status: '/api/claims/:id',
+      claim_events: '/api/claims/:id/events',
+      claim_steps: '/api/claims/:id/steps',
+      claim_batches: '/api/claims/batch',
+      claim_batch_results: '/api/claims/batch/:batchId/results',
+      ncci_ptp: '/api/ncci/ptp?code1=&code2=&provider_type=',
+      ncci_mue: '/api/ncci/mue/:code',
+      ncci_aoc: '/api/ncci/aoc/:code',
+      ncci_rulesets: '/api/ncci/rulesets',
+      ncci_index: '/api/ncci/index',
+      fhir_claim: '/api/fhir/Claim',
+      remittances: '/api/remittances',
+      remittance_accuracy: '/api/remittances/accuracy?payer=&cpt=&from=&to=',
+      claim_remittances: '/api/claims/:id/remittances',
       workflow: '/',
       test: '/api/test'
     }
@@ -105,6 +133,20 @@ app.listen(PORT, () => {
   console.log(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
   console.log(`🔗 Health check: http://localhost:${PORT}/health`);
   console.log(`📋 API endpoint: http://localhost:${PORT}/api/claims/validate`);
+
+  // Keep the active NCCI rulesets in memory for database-free edit checks
+  if (process.env.NCCI_RULE_INDEX === 'true') {
+    startNcciRuleIndex().catch(error => console.error('❌ Failed to load NCCI rule index:', error));
+  }
+
+  // Pick up webhook deliveries that were still retrying when the previous process stopped
+  const webhookDeliveryService = new WebhookDeliveryService();
+  webhookDeliveryService.startDeliveryRecovery();
+
+  // Requeue claim jobs and resume batches a previous process left queued or running
+  const claimJobService = new ClaimJobService(webhookDeliveryService);
+  claimJobService.startRecovery();
+  new ClaimBatchService(claimJobService).startRecovery();
 });
 
 export default app;
\ No newline at end of file
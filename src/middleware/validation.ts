@@ -1,41 +1,193 @@
 import Joi from 'joi';
 import { Request, Response, NextFunction } from 'express';
+import { checkCallbackUrl } from '../services/webhook-delivery-service';
 
-// Claim validation request schema
+// YYYY-MM-DD that is a real calendar day: 2025-13-45 or 2025-02-30 would fail later in date arithmetic
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const calendarDateSchema = Joi.string().pattern(DATE_PATTERN).custom((value: string, helpers: Joi.CustomHelpers) => {
+  if (!DATE_PATTERN.test(value)) return value; // reported by the pattern rule
+  const date = new Date(`${value}T00:00:00Z`);
+  if (isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value) {
+    return helpers.message({ custom: `${value} is not a valid calendar date` });
+  }
+  return value;
+});
+
+// One service line; diagnosis pointers are checked against icd10_codes by withServiceLines
+const claimServiceLineSchema = Joi.object({
+  code: Joi.string().pattern(/^[A-Z0-9]{5}$/).required(),
+  revenue_code: Joi.string().pattern(/^0?\d{3}$/).optional(),
+  units: Joi.number().integer().min(1).optional(),
+  modifiers: Joi.array().items(Joi.string().pattern(/^[A-Z0-9]{2}$/)).max(4).optional(),
+  date_of_service: calendarDateSchema.optional(),
+  diagnosis_pointers: Joi.array().items(Joi.number().integer().min(1).max(12)).max(4).optional(),
+  charge: Joi.number().min(0).precision(2).optional(),
+});
+
+/**
+ * service_lines are the source of truth when given: cpt_codes (and modifiers, when the claim has no
+ * claim-level list) are derived from them so flat-array consumers keep working
+ */
+const withServiceLines = (value: any, helpers: Joi.CustomHelpers) => {
+  if (!value.service_lines) return value;
+
+  const icdCount = (value.icd10_codes || []).length;
+  const badLine = value.service_lines.findIndex((line: any) => (line.diagnosis_pointers || []).some((pointer: number) => pointer > icdCount));
+  if (badLine >= 0) {
+    return helpers.message({ custom: `service_lines[${badLine}].diagnosis_pointers must point into icd10_codes (1-${icdCount})` });
+  }
+
+  const lineModifiers = value.service_lines.flatMap((line: any) => line.modifiers || []);
+  const lineRevenueCodes = value.service_lines.map((line: any) => line.revenue_code).filter(Boolean);
+  return {
+    ...value,
+    cpt_codes: [...new Set(value.service_lines.map((line: any) => line.code))],
+    modifiers: value.modifiers || (lineModifiers.length > 0 ? [...new Set(lineModifiers)] : undefined),
+    revenue_codes: value.revenue_codes || (lineRevenueCodes.length > 0 ? [...new Set(lineRevenueCodes)] : undefined),
+  };
+};
+
+// UB-04 / 837I fields; a type of bill makes the claim institutional
+const institutionalSchema = Joi.object({
+  type_of_bill: Joi.string().pattern(/^0?\d{3}$/).required(),
+  admission_date: calendarDateSchema.optional(),
+  admission_type: Joi.string().optional().pattern(/^\d$/),
+  admission_source: Joi.string().optional().pattern(/^[0-9A-Z]$/),
+  patient_status: Joi.string().optional().pattern(/^\d{2}$/),
+  occurrence_codes: Joi.array().items(Joi.object({
+    code: Joi.string().pattern(/^[0-9A-Z]{2}$/).required(),
+    date: calendarDateSchema.optional(),
+  })).max(30).optional(),
+});
+
+// Claim payload schema
+const claimPayloadSchema = Joi.object({
+  payer: Joi.string().required().min(1).max(100),
+  patient_control_number: Joi.string().optional().min(1).max(38),
+  domains: Joi.array().items(
+    Joi.string().domain()
+  ).optional(),
+  seed_urls: Joi.array().items(
+    Joi.string().uri()
+  ).optional(),
+  cpt_codes: Joi.array().items(
+    Joi.string().pattern(/^[A-Z0-9]{5}$/)
+  ).min(1).when('service_lines', { is: Joi.exist(), then: Joi.optional(), otherwise: Joi.required() }),
+  // 837P allows 50 lines per claim, 837I 999
+  service_lines: Joi.array().items(claimServiceLineSchema).min(1).max(999).optional(),
+  revenue_codes: Joi.array().items(Joi.string().pattern(/^0?\d{3}$/)).optional(),
+  icd10_codes: Joi.array().items(
+    Joi.string().pattern(/^[A-Z]\d[0-9A-Z](\.[0-9A-Z]{1,4})?$/)
+  ).min(1).required(),
+  place_of_service: Joi.string().optional().pattern(/^\d{2}$/),
+  modifiers: Joi.array().items(
+    Joi.string().pattern(/^[A-Z0-9]{2}$/)
+  ).optional(),
+  prior_treatments: Joi.array().items(
+    Joi.string().pattern(/^\d{5}$/)
+  ).optional(),
+  member_plan_type: Joi.string().optional().max(50),
+  state: Joi.string().optional().length(2).pattern(/^[A-Z]{2}$/),
+  visit_count: Joi.number().integer().min(1).optional(),
+  tenant_id: Joi.string().optional().max(64).pattern(/^[A-Za-z0-9_.-]+$/),
+  provider_type: Joi.string().optional().valid('practitioner', 'hospital', 'dme', 'asc'),
+  institutional: institutionalSchema.optional(),
+  date_of_service: calendarDateSchema.optional(),
+  note_summary: Joi.string().required().min(1).max(5000),
+}).custom(withServiceLines);
+
+// Webhook targets must be public http(s) hosts (and on WEBHOOK_ALLOWED_HOSTS when it is set)
+const callbackUrlSchema = Joi.string().uri({ scheme: ['http', 'https'] }).custom((value: string, helpers: Joi.CustomHelpers) => {
+  const problem = checkCallbackUrl(value);
+  return problem ? helpers.message({ custom: problem }) : value;
+});
+
+// Claim validation request schema (synchronous validation answers in the response, so no callback_url)
 const claimValidationRequestSchema = Joi.object({
-  callback_url: Joi.string().uri().required(),
-  payload: Joi.object({
-    payer: Joi.string().required().min(1).max(100),
-    domains: Joi.array().items(
-      Joi.string().domain()
-    ).optional(),
-    seed_urls: Joi.array().items(
-      Joi.string().uri()
-    ).optional(),
-    cpt_codes: Joi.array().items(
-      Joi.string().pattern(/^\d{5}$/)
-    ).min(1).required(),
-    icd10_codes: Joi.array().items(
-      Joi.string().pattern(/^[A-Z]\d{2}(\.\d{1,3})?$/)
-    ).min(1).required(),
-    place_of_service: Joi.string().optional().pattern(/^\d{2}$/),
-    modifiers: Joi.array().items(
-      Joi.string().pattern(/^[A-Z0-9]{2}$/)
-    ).optional(),
-    prior_treatments: Joi.array().items(
-      Joi.string().pattern(/^\d{5}$/)
-    ).optional(),
-    member_plan_type: Joi.string().optional().max(50),
-    state: Joi.string().optional().length(2).pattern(/^[A-Z]{2}$/),
-    note_summary: Joi.string().required().min(1).max(5000),
-  }).required(),
+  payload: claimPayloadSchema.required(),
+});
+
+// Asynchronous claim job request schema (callback_url is optional since clients can poll)
+const claimJobRequestSchema = claimValidationRequestSchema.keys({
+  callback_url: callbackUrlSchema.optional(),
+});
+
+// Rules-only NCCI check schema (ClaimValidationInput; a full ClaimPayload also passes)
+const ncciCheckSchema = Joi.object({
+  cpt_codes: Joi.array().items(
+    Joi.string().pattern(/^[A-Z0-9]{5}$/)
+  ).min(1).when('service_lines', { is: Joi.exist(), then: Joi.optional(), otherwise: Joi.required() }),
+  icd10_codes: Joi.array().items(Joi.string().max(8)).default([]),
+  modifiers: Joi.array().items(Joi.string().max(2)).optional(),
+  place_of_service: Joi.string().optional().max(2),
+  revenue_codes: Joi.array().items(Joi.string().max(4)).optional(),
+  claim_date: calendarDateSchema.optional(),
+  provider_type: Joi.string().optional().valid('practitioner', 'hospital', 'dme', 'asc'),
+  type_of_bill: Joi.string().optional().pattern(/^0?\d{3}$/),
+  program: Joi.string().optional().valid('medicare', 'medicaid'),
+  payer: Joi.string().optional().max(100),
+  member_plan_type: Joi.string().optional().max(50),
+  state: Joi.string().optional().length(2).pattern(/^[A-Z]{2}$/),
+  visit_count: Joi.number().integer().min(1).optional(),
+  tenant_id: Joi.string().optional().max(64).pattern(/^[A-Za-z0-9_.-]+$/),
+  units: Joi.object().pattern(Joi.string(), Joi.number().integer().min(1)).optional(),
+  service_lines: Joi.array().items(claimServiceLineSchema).min(1).optional(),
+}).custom(withServiceLines);
+
+// NCCI reference lookup query schemas
+const ncciCodeSchema = Joi.string().trim().uppercase().pattern(/^[A-Z0-9]{5}$/);
+
+const ncciPtpQuerySchema = Joi.object({
+  code1: ncciCodeSchema.required(),
+  code2: ncciCodeSchema.optional(),
+  provider_type: Joi.string().optional().valid('practitioner', 'hospital', 'dme', 'asc'),
+  program: Joi.string().optional().valid('medicare', 'medicaid'),
+  ruleset_id: Joi.number().integer().min(1).optional(),
+});
+
+const ncciMueQuerySchema = Joi.object({
+  service_type: Joi.string().optional().valid('practitioner', 'hospital', 'dme', 'asc'),
+  program: Joi.string().optional().valid('medicare', 'medicaid'),
+  ruleset_id: Joi.number().integer().min(1).optional(),
+});
+
+const ncciAocQuerySchema = Joi.object({
+  ruleset_id: Joi.number().integer().min(1).optional(),
+});
+
+const ncciRulesetsQuerySchema = Joi.object({
+  data_type: Joi.string().optional().valid('ptp', 'mue', 'aoc'),
+  provider_type: Joi.string().optional().valid('practitioner', 'hospital', 'dme', 'asc'),
+  program: Joi.string().optional().valid('medicare', 'medicaid'),
+  status: Joi.string().optional().valid('loading', 'active', 'superseded', 'failed'),
+});
+
+// Claim history list query schema
+const claimListQuerySchema = Joi.object({
+  payer: Joi.string().optional().min(1).max(100),
+  status: Joi.string().optional().valid('APPROVED', 'DENIED', 'REQUIRES_REVIEW'),
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().optional(),
+  // Same code patterns as the claim payload; matched exactly against the stored (uppercase) codes
+  cpt: Joi.string().optional().uppercase().pattern(/^[A-Z0-9]{5}$/),
+  icd: Joi.string().optional().uppercase().pattern(/^[A-Z]\d[0-9A-Z](\.[0-9A-Z]{1,4})?$/),
+  limit: Joi.number().integer().min(1).max(200).default(50),
+  cursor: Joi.string().optional().max(200),
+});
+
+// Predicted versus actual (835) outcome report query schema
+const remittanceAccuracyQuerySchema = Joi.object({
+  payer: Joi.string().optional().min(1).max(100),
+  cpt: Joi.string().optional().pattern(/^[A-Z0-9]{5}$/),
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().optional(),
 });
 
 /**
- * Validate claim validation request middleware
+ * Validate request body against a schema and replace it with the sanitized value
  */
-export const validateClaimPayload = (req: Request, res: Response, next: NextFunction): void => {
-  const { error, value } = claimValidationRequestSchema.validate(req.body, {
+const validateBody = (schema: Joi.ObjectSchema) => (req: Request, res: Response, next: NextFunction): void => {
+  const { error, value } = schema.validate(req.body, {
     abortEarly: false,
     stripUnknown: true,
   });
@@ -58,6 +210,99 @@ export const validateClaimPayload = (req: Request, res: Response, next: NextFunc
   next();
 };
 
+/**
+ * Validate query string against a schema and replace it with the converted value
+ */
+const validateQuery = (schema: Joi.ObjectSchema) => (req: Request, res: Response, next: NextFunction): void => {
+  const { error, value } = schema.validate(req.query, {
+    abortEarly: false,
+    stripUnknown: true,
+  });
+
+  if (error) {
+    const errorDetails = error.details.map(detail => ({
+      field: detail.path.join('.'),
+      message: detail.message,
+    }));
+
+    res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errorDetails,
+    });
+    return;
+  }
+
+  req.query = value;
+  next();
+};
+
+/**
+ * Validate claim validation request middleware
+ */
+export const validateClaimPayload = validateBody(claimValidationRequestSchema);
+
+/**
+ * Validate asynchronous claim job request middleware
+ */
+export const validateClaimJobRequest = validateBody(claimJobRequestSchema);
+
+/**
+ * Validate rules-only NCCI check request middleware
+ */
+export const validateNcciCheckRequest = validateBody(ncciCheckSchema);
+
+/**
+ * Validate NCCI PTP lookup query middleware
+ */
+export const validateNcciPtpQuery = validateQuery(ncciPtpQuerySchema);
+
+/**
+ * Validate NCCI MUE lookup query middleware
+ */
+export const validateNcciMueQuery = validateQuery(ncciMueQuerySchema);
+
+/**
+ * Validate NCCI AOC lookup query middleware
+ */
+export const validateNcciAocQuery = validateQuery(ncciAocQuerySchema);
+
+/**
+ * Validate NCCI ruleset list query middleware
+ */
+export const validateNcciRulesetsQuery = validateQuery(ncciRulesetsQuerySchema);
+
+/**
+ * Validate claim history list query middleware
+ */
+export const validateClaimListQuery = validateQuery(claimListQuerySchema);
+
+/**
+ * Validate remittance accuracy report query middleware
+ */
+export const validateRemittanceAccuracyQuery = validateQuery(remittanceAccuracyQuerySchema);
+
+/**
+ * Validate a single claim payload outside of a request body (e.g. one line of a batch)
+ */
+export const validateClaimPayloadValue = (payload: unknown): { value?: any; errors: Array<{ field: string; message: string }> } => {
+  const { error, value } = claimPayloadSchema.validate(payload, {
+    abortEarly: false,
+    stripUnknown: true,
+  });
+
+  if (error) {
+    return {
+      errors: error.details.map(detail => ({
+        field: detail.path.join('.'),
+        message: detail.message,
+      })),
+    };
+  }
+
+  return { value, errors: [] };
+};
+
 /**
  * Validate API key middleware
  */
@@ -0,0 +1,50 @@
+-- Migration: 009_create_claim_jobs_table.sql
+-- Description: Create claim_jobs table for asynchronous claim validation and add replayable step sequence
+-- Created: 2025-10-20
+
+-- Set search path to claim_forge schema
+SET search_path TO claim_forge, public;
+
+-- Asynchronous claim validation jobs
+CREATE TABLE IF NOT EXISTS claim_forge.claim_jobs (
+    id VARCHAR(255) PRIMARY KEY,
+    claim_validation_id UUID REFERENCES claim_forge.claim_validations(id) ON DELETE SET NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+    payload JSONB NOT NULL,
+    callback_url TEXT,
+    result JSONB,
+    error_message TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    started_at TIMESTAMP,
+    completed_at TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Indexes for claim jobs
+CREATE INDEX IF NOT EXISTS idx_claim_jobs_status ON claim_forge.claim_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_claim_jobs_created_at ON claim_forge.claim_jobs(created_at);
+CREATE INDEX IF NOT EXISTS idx_claim_jobs_claim_validation_id ON claim_forge.claim_jobs(claim_validation_id);
+
+-- Trigger for claim_jobs table
+DROP TRIGGER IF EXISTS update_claim_jobs_updated_at ON claim_forge.claim_jobs;
+CREATE TRIGGER update_claim_jobs_updated_at
+    BEFORE UPDATE ON claim_forge.claim_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION claim_forge.update_updated_at_column();
+
+-- Monotonic sequence on validation steps, used as the SSE event id for replay
+ALTER TABLE claim_forge.validation_steps
+  ADD COLUMN IF NOT EXISTS seq BIGSERIAL;
+
+CREATE INDEX IF NOT EXISTS idx_validation_steps_claim_seq ON claim_forge.validation_steps(claim_validation_id, seq);
+
+-- Add comments for documentation
+COMMENT ON TABLE claim_forge.claim_jobs IS 'Asynchronous claim validation jobs submitted via POST /api/claims';
+COMMENT ON COLUMN claim_forge.claim_jobs.id IS 'Job identifier, also used as the claim_id of the resulting claim validation';
+COMMENT ON COLUMN claim_forge.claim_jobs.claim_validation_id IS 'Claim validation record created by the workflow for this job';
+COMMENT ON COLUMN claim_forge.claim_jobs.status IS 'Job status: queued, running, completed, or failed';
+COMMENT ON COLUMN claim_forge.claim_jobs.payload IS 'Claim payload submitted with the job';
+COMMENT ON COLUMN claim_forge.claim_jobs.callback_url IS 'Optional URL to notify when the job finishes';
+COMMENT ON COLUMN claim_forge.claim_jobs.result IS 'Final Evaluator Agent decision once the job completes';
+COMMENT ON COLUMN claim_forge.claim_jobs.error_message IS 'Error message if the job failed';
+COMMENT ON COLUMN claim_forge.validation_steps.seq IS 'Monotonic sequence number used as the event id when replaying steps';
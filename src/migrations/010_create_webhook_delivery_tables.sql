@@ -0,0 +1,75 @@
+-- Migration: 010_create_webhook_delivery_tables.sql
+-- Description: Create webhook delivery, delivery attempt log and dead-letter tables for callback_url notifications
+-- Created: 2025-10-20
+
+-- Set search path to claim_forge schema
+SET search_path TO claim_forge, public;
+
+-- One row per callback notification
+CREATE TABLE IF NOT EXISTS claim_forge.webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    claim_id VARCHAR(255) NOT NULL,
+    event_type VARCHAR(100) NOT NULL,
+    callback_url TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'dead_lettered')),
+    attempt_count INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP,
+    last_error TEXT,
+    delivered_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Every HTTP attempt made for a delivery
+CREATE TABLE IF NOT EXISTS claim_forge.webhook_delivery_attempts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    delivery_id UUID NOT NULL REFERENCES claim_forge.webhook_deliveries(id) ON DELETE CASCADE,
+    attempt_number INTEGER NOT NULL,
+    response_status INTEGER,
+    response_body TEXT,
+    error_message TEXT,
+    duration_ms INTEGER NOT NULL DEFAULT 0,
+    success BOOLEAN NOT NULL DEFAULT false,
+    attempted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Deliveries that exhausted their retries or failed permanently
+CREATE TABLE IF NOT EXISTS claim_forge.webhook_dead_letters (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    delivery_id UUID NOT NULL REFERENCES claim_forge.webhook_deliveries(id) ON DELETE CASCADE,
+    claim_id VARCHAR(255) NOT NULL,
+    callback_url TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    attempt_count INTEGER NOT NULL,
+    last_error TEXT,
+    requeued_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Indexes for webhook tables
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_claim_id ON claim_forge.webhook_deliveries(claim_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status ON claim_forge.webhook_deliveries(status);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_next_attempt_at ON claim_forge.webhook_deliveries(next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_delivery_attempts_delivery_id ON claim_forge.webhook_delivery_attempts(delivery_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_dead_letters_claim_id ON claim_forge.webhook_dead_letters(claim_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_dead_letters_created_at ON claim_forge.webhook_dead_letters(created_at);
+
+-- Trigger for webhook_deliveries table
+DROP TRIGGER IF EXISTS update_webhook_deliveries_updated_at ON claim_forge.webhook_deliveries;
+CREATE TRIGGER update_webhook_deliveries_updated_at
+    BEFORE UPDATE ON claim_forge.webhook_deliveries
+    FOR EACH ROW
+    EXECUTE FUNCTION claim_forge.update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE claim_forge.webhook_deliveries IS 'Signed callback_url notifications for finished claim validations';
+COMMENT ON TABLE claim_forge.webhook_delivery_attempts IS 'Log of every HTTP attempt made for a webhook delivery';
+COMMENT ON TABLE claim_forge.webhook_dead_letters IS 'Webhook deliveries that exhausted retries or failed permanently';
+
+COMMENT ON COLUMN claim_forge.webhook_deliveries.event_type IS 'Event name, e.g. claim.validation.completed';
+COMMENT ON COLUMN claim_forge.webhook_deliveries.payload IS 'Exact JSON body that is signed and POSTed';
+COMMENT ON COLUMN claim_forge.webhook_deliveries.status IS 'Delivery status: pending, delivered, or dead_lettered';
+COMMENT ON COLUMN claim_forge.webhook_deliveries.next_attempt_at IS 'When the next retry is due while pending';
+COMMENT ON COLUMN claim_forge.webhook_delivery_attempts.response_status IS 'HTTP status returned by the callback, if any';
+COMMENT ON COLUMN claim_forge.webhook_dead_letters.requeued_at IS 'When the dead letter was manually requeued for delivery';
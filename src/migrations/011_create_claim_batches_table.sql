@@ -0,0 +1,45 @@
+-- Migration: 011_create_claim_batches_table.sql
+-- Description: Create claim_batches table for bulk validation and link claim jobs to their batch
+-- Created: 2025-10-21
+
+-- Set search path to claim_forge schema
+SET search_path TO claim_forge, public;
+
+-- Bulk claim validation batches
+CREATE TABLE IF NOT EXISTS claim_forge.claim_batches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed')),
+    total_claims INTEGER NOT NULL,
+    concurrency INTEGER NOT NULL,
+    source_format VARCHAR(20) NOT NULL CHECK (source_format IN ('jsonl', 'json')),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    started_at TIMESTAMP,
+    completed_at TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Link claim jobs to the batch (and line) they came from
+ALTER TABLE claim_forge.claim_jobs
+  ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES claim_forge.claim_batches(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS batch_index INTEGER;
+
+-- Indexes for claim batches
+CREATE INDEX IF NOT EXISTS idx_claim_batches_status ON claim_forge.claim_batches(status);
+CREATE INDEX IF NOT EXISTS idx_claim_batches_created_at ON claim_forge.claim_batches(created_at);
+CREATE INDEX IF NOT EXISTS idx_claim_jobs_batch ON claim_forge.claim_jobs(batch_id, batch_index);
+
+-- Trigger for claim_batches table
+DROP TRIGGER IF EXISTS update_claim_batches_updated_at ON claim_forge.claim_batches;
+CREATE TRIGGER update_claim_batches_updated_at
+    BEFORE UPDATE ON claim_forge.claim_batches
+    FOR EACH ROW
+    EXECUTE FUNCTION claim_forge.update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE claim_forge.claim_batches IS 'Bulk claim validation batches submitted via POST /api/claims/batch';
+COMMENT ON COLUMN claim_forge.claim_batches.status IS 'Batch status: queued, running, or completed';
+COMMENT ON COLUMN claim_forge.claim_batches.total_claims IS 'Number of claims in the batch';
+COMMENT ON COLUMN claim_forge.claim_batches.concurrency IS 'Maximum number of claims validated at the same time';
+COMMENT ON COLUMN claim_forge.claim_batches.source_format IS 'Submitted format: jsonl or json (array)';
+COMMENT ON COLUMN claim_forge.claim_jobs.batch_id IS 'Batch this job belongs to, if submitted in bulk';
+COMMENT ON COLUMN claim_forge.claim_jobs.batch_index IS 'Zero-based position of the claim within its batch';
@@ -0,0 +1,18 @@
+-- Migration: 012_add_claim_history_indexes.sql
+-- Description: Indexes for the claim history list API (payer/CPT/ICD filters and keyset pagination)
+-- Created: 2025-10-22
+
+-- Set search path to claim_forge schema
+SET search_path TO claim_forge, public;
+
+-- Keyset pagination: ORDER BY created_at DESC, id DESC
+CREATE INDEX IF NOT EXISTS idx_claim_validations_created_at_id
+  ON claim_forge.claim_validations(created_at DESC, id DESC);
+
+-- Case-insensitive payer filter
+CREATE INDEX IF NOT EXISTS idx_claim_validations_payer
+  ON claim_forge.claim_validations(LOWER(original_claim->>'payer'));
+
+-- CPT / ICD containment filters (original_claim @> '{"cpt_codes": ["99213"]}')
+CREATE INDEX IF NOT EXISTS idx_claim_validations_original_claim
+  ON claim_forge.claim_validations USING GIN (original_claim jsonb_path_ops);
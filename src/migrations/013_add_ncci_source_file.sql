@@ -0,0 +1,18 @@
+-- Migration: 013_add_ncci_source_file.sql
+-- Description: Record which CMS quarterly file each PTP/MUE/AOC row was loaded from
+-- Created: 2025-10-22
+
+-- Set search path to claim_forge schema
+SET search_path TO claim_forge, public;
+
+ALTER TABLE claim_forge.ptp_edits ADD COLUMN IF NOT EXISTS source_file VARCHAR(255);
+ALTER TABLE claim_forge.mue ADD COLUMN IF NOT EXISTS source_file VARCHAR(255);
+ALTER TABLE claim_forge.aoc ADD COLUMN IF NOT EXISTS source_file VARCHAR(255);
+
+-- Index for PTP lookups where the queried code is column 2
+CREATE INDEX IF NOT EXISTS idx_ptp_c2c1 ON claim_forge.ptp_edits(column2, column1);
+
+-- Add comments for documentation
+COMMENT ON COLUMN claim_forge.ptp_edits.source_file IS 'CMS release file the edit was loaded from (zip/entry)';
+COMMENT ON COLUMN claim_forge.mue.source_file IS 'CMS release file the MUE was loaded from (zip/entry)';
+COMMENT ON COLUMN claim_forge.aoc.source_file IS 'CMS release file the add-on edit was loaded from (zip/entry)';
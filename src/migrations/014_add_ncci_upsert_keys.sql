@@ -0,0 +1,31 @@
+-- Migration: 014_add_ncci_upsert_keys.sql
+-- Description: Natural keys on PTP/MUE/AOC so quarterly delta files can be applied as upserts
+-- Created: 2025-10-23
+
+-- Set search path to claim_forge schema
+SET search_path TO claim_forge, public;
+
+-- Remove duplicate rows left by earlier full reloads, keeping the most recently loaded copy
+DELETE FROM claim_forge.ptp_edits a
+USING claim_forge.ptp_edits b
+WHERE a.column1 = b.column1
+  AND a.column2 = b.column2
+  AND a.provider_type IS NOT DISTINCT FROM b.provider_type
+  AND a.id < b.id;
+
+DELETE FROM claim_forge.mue a
+USING claim_forge.mue b
+WHERE a.hcpcs_cpt = b.hcpcs_cpt
+  AND a.service_type IS NOT DISTINCT FROM b.service_type
+  AND a.id < b.id;
+
+DELETE FROM claim_forge.aoc a
+USING claim_forge.aoc b
+WHERE a.addon_code = b.addon_code
+  AND a.primary_code = b.primary_code
+  AND a.id < b.id;
+
+-- One edit per code pair and provider type, one MUE per code and service type, one row per add-on/primary pair
+CREATE UNIQUE INDEX IF NOT EXISTS uq_ptp_edits_pair ON claim_forge.ptp_edits(column1, column2, provider_type);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_mue_code_service ON claim_forge.mue(hcpcs_cpt, service_type);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_aoc_pair ON claim_forge.aoc(addon_code, primary_code);
@@ -0,0 +1,56 @@
+-- Migration: 015_ncci_date_of_service.sql
+-- Description: Real DATE effective/deletion dates on PTP/MUE/AOC so edits can be matched to the date of service
+-- Created: 2025-10-23
+
+-- Set search path to claim_forge schema
+SET search_path TO claim_forge, public;
+
+-- Parse the date formats CMS files use: YYYYMMDD, Julian YYYYDDD (AOC), MM-DD-YYYY, MM/DD/YYYY, YYYY-MM-DD.
+-- '*' and blanks mean no date.
+CREATE OR REPLACE FUNCTION claim_forge.parse_ncci_date(value TEXT)
+RETURNS DATE AS $$
+BEGIN
+    value := NULLIF(TRIM(value), '');
+    IF value IS NULL OR value = '*' THEN
+        RETURN NULL;
+    ELSIF value ~ '^\d{8}$' THEN
+        RETURN TO_DATE(value, 'YYYYMMDD');
+    ELSIF value ~ '^\d{7}$' THEN
+        RETURN TO_DATE(value, 'YYYYDDD');
+    ELSIF value ~ '^\d{1,2}[-/]\d{1,2}[-/]\d{4}$' THEN
+        RETURN TO_DATE(REPLACE(value, '/', '-'), 'MM-DD-YYYY');
+    ELSIF value ~ '^\d{4}-\d{2}-\d{2}' THEN
+        RETURN TO_DATE(SUBSTRING(value FROM 1 FOR 10), 'YYYY-MM-DD');
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Convert effective dates to DATE and add deletion dates
+ALTER TABLE claim_forge.ptp_edits
+  ALTER COLUMN effective_date TYPE DATE USING claim_forge.parse_ncci_date(effective_date),
+  ADD COLUMN IF NOT EXISTS deletion_date DATE;
+
+ALTER TABLE claim_forge.mue
+  ALTER COLUMN effective_date TYPE DATE USING claim_forge.parse_ncci_date(effective_date),
+  ADD COLUMN IF NOT EXISTS deletion_date DATE;
+
+ALTER TABLE claim_forge.aoc
+  ALTER COLUMN effective_date TYPE DATE USING claim_forge.parse_ncci_date(effective_date),
+  ADD COLUMN IF NOT EXISTS deletion_date DATE;
+
+-- Keep every version of an edit: the natural key now includes its effective date
+DROP INDEX IF EXISTS claim_forge.uq_ptp_edits_pair;
+DROP INDEX IF EXISTS claim_forge.uq_mue_code_service;
+DROP INDEX IF EXISTS claim_forge.uq_aoc_pair;
+CREATE UNIQUE INDEX IF NOT EXISTS uq_ptp_edits_pair ON claim_forge.ptp_edits(column1, column2, provider_type, effective_date);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_mue_code_service ON claim_forge.mue(hcpcs_cpt, service_type, effective_date);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_aoc_pair ON claim_forge.aoc(addon_code, primary_code, effective_date);
+
+-- Add comments for documentation
+COMMENT ON COLUMN claim_forge.ptp_edits.effective_date IS 'First date of service the edit applies to (NULL = no known start)';
+COMMENT ON COLUMN claim_forge.ptp_edits.deletion_date IS 'Edit does not apply to dates of service on or after this date (NULL = active)';
+COMMENT ON COLUMN claim_forge.mue.effective_date IS 'First date of service the MUE applies to (NULL = no known start)';
+COMMENT ON COLUMN claim_forge.mue.deletion_date IS 'MUE does not apply to dates of service on or after this date (NULL = active)';
+COMMENT ON COLUMN claim_forge.aoc.effective_date IS 'First date of service the add-on edit applies to (NULL = no known start)';
+COMMENT ON COLUMN claim_forge.aoc.deletion_date IS 'Add-on edit does not apply to dates of service on or after this date (NULL = active)';
@@ -0,0 +1,100 @@
+-- Migration: 016_create_ncci_rulesets.sql
+-- Description: Versioned NCCI rulesets: every ingestion run is kept as its own version, and each
+--              claim validation records which versions produced its decision
+-- Created: 2025-10-24
+
+-- Set search path to claim_forge schema
+SET search_path TO claim_forge, public;
+
+-- One row per ingestion run of a PTP/MUE/AOC file
+CREATE TABLE IF NOT EXISTS claim_forge.ncci_rulesets (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    data_type VARCHAR(10) NOT NULL CHECK (data_type IN ('ptp', 'mue', 'aoc')),
+    provider_type VARCHAR(50),
+    version INTEGER NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'loading' CHECK (status IN ('loading', 'active', 'superseded', 'failed')),
+    source_kind VARCHAR(10) NOT NULL CHECK (source_kind IN ('base', 'delta', 'legacy')),
+    source_file TEXT,
+    parent_ruleset_id INTEGER REFERENCES claim_forge.ncci_rulesets(id),
+    row_count INTEGER,
+    error_message TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    activated_at TIMESTAMP,
+    superseded_at TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Versions count up per data type and provider type; only one of them is active at a time
+CREATE UNIQUE INDEX IF NOT EXISTS uq_ncci_rulesets_version
+  ON claim_forge.ncci_rulesets(data_type, COALESCE(provider_type, ''), version);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_ncci_rulesets_active
+  ON claim_forge.ncci_rulesets(data_type, COALESCE(provider_type, ''))
+  WHERE status = 'active';
+
+-- Trigger for ncci_rulesets table
+DROP TRIGGER IF EXISTS update_ncci_rulesets_updated_at ON claim_forge.ncci_rulesets;
+CREATE TRIGGER update_ncci_rulesets_updated_at
+    BEFORE UPDATE ON claim_forge.ncci_rulesets
+    FOR EACH ROW
+    EXECUTE FUNCTION claim_forge.update_updated_at_column();
+
+-- Tag every edit with the ruleset version it belongs to
+ALTER TABLE claim_forge.ptp_edits ADD COLUMN IF NOT EXISTS ruleset_id INTEGER REFERENCES claim_forge.ncci_rulesets(id) ON DELETE CASCADE;
+ALTER TABLE claim_forge.mue ADD COLUMN IF NOT EXISTS ruleset_id INTEGER REFERENCES claim_forge.ncci_rulesets(id) ON DELETE CASCADE;
+ALTER TABLE claim_forge.aoc ADD COLUMN IF NOT EXISTS ruleset_id INTEGER REFERENCES claim_forge.ncci_rulesets(id) ON DELETE CASCADE;
+
+-- Existing rows become version 1 "legacy" rulesets, active until the next ingestion
+INSERT INTO claim_forge.ncci_rulesets (name, data_type, provider_type, version, status, source_kind, activated_at)
+SELECT DISTINCT 'Legacy ' || COALESCE(provider_type, 'all') || ' PTP', 'ptp', provider_type, 1, 'active', 'legacy', NOW()
+FROM claim_forge.ptp_edits;
+
+INSERT INTO claim_forge.ncci_rulesets (name, data_type, provider_type, version, status, source_kind, activated_at)
+SELECT DISTINCT 'Legacy ' || COALESCE(service_type, 'all') || ' MUE', 'mue', service_type, 1, 'active', 'legacy', NOW()
+FROM claim_forge.mue;
+
+INSERT INTO claim_forge.ncci_rulesets (name, data_type, provider_type, version, status, source_kind, activated_at)
+SELECT 'Legacy AOC', 'aoc', NULL, 1, 'active', 'legacy', NOW()
+WHERE EXISTS (SELECT 1 FROM claim_forge.aoc);
+
+UPDATE claim_forge.ptp_edits t SET ruleset_id = r.id
+FROM claim_forge.ncci_rulesets r
+WHERE r.data_type = 'ptp' AND r.provider_type IS NOT DISTINCT FROM t.provider_type AND t.ruleset_id IS NULL;
+
+UPDATE claim_forge.mue t SET ruleset_id = r.id
+FROM claim_forge.ncci_rulesets r
+WHERE r.data_type = 'mue' AND r.provider_type IS NOT DISTINCT FROM t.service_type AND t.ruleset_id IS NULL;
+
+UPDATE claim_forge.aoc t SET ruleset_id = r.id
+FROM claim_forge.ncci_rulesets r
+WHERE r.data_type = 'aoc' AND t.ruleset_id IS NULL;
+
+UPDATE claim_forge.ncci_rulesets r SET row_count = counts.c
+FROM (
+  SELECT ruleset_id, COUNT(*) AS c FROM claim_forge.ptp_edits GROUP BY ruleset_id
+  UNION ALL
+  SELECT ruleset_id, COUNT(*) FROM claim_forge.mue GROUP BY ruleset_id
+  UNION ALL
+  SELECT ruleset_id, COUNT(*) FROM claim_forge.aoc GROUP BY ruleset_id
+) counts
+WHERE counts.ruleset_id = r.id;
+
+-- Natural keys are now unique within a ruleset version
+DROP INDEX IF EXISTS claim_forge.uq_ptp_edits_pair;
+DROP INDEX IF EXISTS claim_forge.uq_mue_code_service;
+DROP INDEX IF EXISTS claim_forge.uq_aoc_pair;
+CREATE UNIQUE INDEX IF NOT EXISTS uq_ptp_edits_pair ON claim_forge.ptp_edits(ruleset_id, column1, column2, provider_type, effective_date);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_mue_code_service ON claim_forge.mue(ruleset_id, hcpcs_cpt, service_type, effective_date);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_aoc_pair ON claim_forge.aoc(ruleset_id, addon_code, primary_code, effective_date);
+
+-- Claim validations record which ruleset versions produced the decision
+ALTER TABLE claim_forge.claim_validations
+  ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}';
+
+-- Add comments for documentation
+COMMENT ON TABLE claim_forge.ncci_rulesets IS 'Versioned NCCI rulesets, one per PTP/MUE/AOC ingestion run';
+COMMENT ON COLUMN claim_forge.ncci_rulesets.name IS 'Human-readable name, e.g. Medicare 2025Q4 practitioner PTP';
+COMMENT ON COLUMN claim_forge.ncci_rulesets.provider_type IS 'Provider type (PTP) or service type (MUE); NULL for AOC';
+COMMENT ON COLUMN claim_forge.ncci_rulesets.status IS 'loading, active (used for validation), superseded (kept for audit), or failed';
+COMMENT ON COLUMN claim_forge.ncci_rulesets.parent_ruleset_id IS 'Ruleset a delta file was applied on top of';
+COMMENT ON COLUMN claim_forge.claim_validations.metadata IS 'Validation metadata, including the NCCI ruleset versions applied (ncci_rulesets)';
@@ -0,0 +1,14 @@
+-- Migration: 017_add_ncci_ruleset_rejects.sql
+-- Description: Record how many malformed rows each NCCI ruleset load rejected and where the reject report was written
+-- Created: 2025-10-24
+
+-- Set search path to claim_forge schema
+SET search_path TO claim_forge, public;
+
+ALTER TABLE claim_forge.ncci_rulesets
+  ADD COLUMN IF NOT EXISTS rows_rejected INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS reject_report TEXT;
+
+-- Add comments for documentation
+COMMENT ON COLUMN claim_forge.ncci_rulesets.rows_rejected IS 'Malformed rows skipped while loading the source file';
+COMMENT ON COLUMN claim_forge.ncci_rulesets.reject_report IS 'Path of the JSONL report listing each rejected row and the reason';
@@ -0,0 +1,24 @@
+-- Migration: 018_add_ncci_program.sql
+-- Description: Tag NCCI rulesets with the program they belong to (Medicare or Medicaid) so both
+--              edit sets can be loaded and active side by side
+-- Created: 2025-10-24
+
+-- Set search path to claim_forge schema
+SET search_path TO claim_forge, public;
+
+-- Everything loaded so far came from the Medicare NCCI pages
+ALTER TABLE claim_forge.ncci_rulesets
+  ADD COLUMN IF NOT EXISTS program VARCHAR(20) NOT NULL DEFAULT 'medicare' CHECK (program IN ('medicare', 'medicaid'));
+
+-- Versions count up, and one version is active, per program as well
+DROP INDEX IF EXISTS claim_forge.uq_ncci_rulesets_version;
+DROP INDEX IF EXISTS claim_forge.uq_ncci_rulesets_active;
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_ncci_rulesets_version
+  ON claim_forge.ncci_rulesets(program, data_type, COALESCE(provider_type, ''), version);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_ncci_rulesets_active
+  ON claim_forge.ncci_rulesets(program, data_type, COALESCE(provider_type, ''))
+  WHERE status = 'active';
+
+-- Add comments for documentation
+COMMENT ON COLUMN claim_forge.ncci_rulesets.program IS 'NCCI program the edits come from: medicare or medicaid';
@@ -0,0 +1,15 @@
+-- Migration: 019_add_mue_adjudication.sql
+-- Description: Store each MUE's adjudication indicator (MAI) and rationale so units are enforced
+--              per line or per date of service as CMS intends
+-- Created: 2025-10-24
+
+-- Set search path to claim_forge schema
+SET search_path TO claim_forge, public;
+
+ALTER TABLE claim_forge.mue
+  ADD COLUMN IF NOT EXISTS mai SMALLINT CHECK (mai IN (1, 2, 3)),
+  ADD COLUMN IF NOT EXISTS rationale TEXT;
+
+-- Add comments for documentation
+COMMENT ON COLUMN claim_forge.mue.mai IS 'MUE Adjudication Indicator: 1 = claim line, 2 = date of service (policy), 3 = date of service (clinical)';
+COMMENT ON COLUMN claim_forge.mue.rationale IS 'CMS MUE rationale, e.g. Anatomic Consideration or Clinical Data';
@@ -0,0 +1,178 @@
+-- Migration: 020_create_modifier_catalog.sql
+-- Description: Modifier reference catalog (category, description, effective dates) and explicit
+--              mutually exclusive pairs, replacing the hardcoded lists in the modifier check
+-- Created: 2025-10-24
+
+-- Set search path to claim_forge schema
+SET search_path TO claim_forge, public;
+
+CREATE TABLE IF NOT EXISTS claim_forge.modifiers (
+    id SERIAL PRIMARY KEY,
+    code VARCHAR(2) NOT NULL,
+    category VARCHAR(30) NOT NULL CHECK (category IN (
+      'anatomic', 'pricing', 'distinct_procedural', 'global_surgery', 'e_m', 'repeat_service',
+      'professional_technical', 'assistant_surgeon', 'liability', 'telehealth', 'therapy', 'drug_wastage',
+      'anesthesia', 'informational'
+    )),
+    description TEXT NOT NULL,
+    effective_date DATE,
+    deletion_date DATE,
+    source VARCHAR(50) NOT NULL, -- 'CPT Appendix A' (Level I) or 'HCPCS Level II'
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_modifiers_code_effective
+  ON claim_forge.modifiers(code, COALESCE(effective_date, DATE '1900-01-01'));
+
+DROP TRIGGER IF EXISTS update_modifiers_updated_at ON claim_forge.modifiers;
+CREATE TRIGGER update_modifiers_updated_at
+    BEFORE UPDATE ON claim_forge.modifiers
+    FOR EACH ROW
+    EXECUTE FUNCTION claim_forge.update_updated_at_column();
+
+-- Modifiers that contradict each other on the same claim line; stored once with modifier_a < modifier_b
+CREATE TABLE IF NOT EXISTS claim_forge.modifier_exclusions (
+    modifier_a VARCHAR(2) NOT NULL,
+    modifier_b VARCHAR(2) NOT NULL,
+    reason TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (modifier_a, modifier_b),
+    CHECK (modifier_a < modifier_b)
+);
+
+INSERT INTO claim_forge.modifiers (code, category, description, effective_date, source) VALUES
+  -- Level I (CPT) modifiers
+  ('22', 'pricing', 'Increased procedural services', NULL, 'CPT Appendix A'),
+  ('23', 'anesthesia', 'Unusual anesthesia', NULL, 'CPT Appendix A'),
+  ('24', 'e_m', 'Unrelated E&M service by the same physician during a postoperative period', NULL, 'CPT Appendix A'),
+  ('25', 'e_m', 'Significant, separately identifiable E&M service on the day of a procedure', NULL, 'CPT Appendix A'),
+  ('26', 'professional_technical', 'Professional component', NULL, 'CPT Appendix A'),
+  ('27', 'e_m', 'Multiple outpatient hospital E&M encounters on the same date', NULL, 'CPT Appendix A'),
+  ('32', 'informational', 'Mandated services', NULL, 'CPT Appendix A'),
+  ('33', 'informational', 'Preventive services', NULL, 'CPT Appendix A'),
+  ('47', 'anesthesia', 'Anesthesia by surgeon', NULL, 'CPT Appendix A'),
+  ('50', 'pricing', 'Bilateral procedure', NULL, 'CPT Appendix A'),
+  ('51', 'pricing', 'Multiple procedures', NULL, 'CPT Appendix A'),
+  ('52', 'pricing', 'Reduced services', NULL, 'CPT Appendix A'),
+  ('53', 'pricing', 'Discontinued procedure', NULL, 'CPT Appendix A'),
+  ('54', 'global_surgery', 'Surgical care only', NULL, 'CPT Appendix A'),
+  ('55', 'global_surgery', 'Postoperative management only', NULL, 'CPT Appendix A'),
+  ('56', 'global_surgery', 'Preoperative management only', NULL, 'CPT Appendix A'),
+  ('57', 'e_m', 'Decision for surgery', NULL, 'CPT Appendix A'),
+  ('58', 'global_surgery', 'Staged or related procedure during the postoperative period', NULL, 'CPT Appendix A'),
+  ('59', 'distinct_procedural', 'Distinct procedural service', NULL, 'CPT Appendix A'),
+  ('62', 'pricing', 'Two surgeons', NULL, 'CPT Appendix A'),
+  ('63', 'pricing', 'Procedure performed on infants less than 4 kg', NULL, 'CPT Appendix A'),
+  ('66', 'pricing', 'Surgical team', NULL, 'CPT Appendix A'),
+  ('73', 'pricing', 'Discontinued outpatient procedure prior to anesthesia', NULL, 'CPT Appendix A'),
+  ('74', 'pricing', 'Discontinued outpatient procedure after anesthesia', NULL, 'CPT Appendix A'),
+  ('76', 'repeat_service', 'Repeat procedure by the same physician', NULL, 'CPT Appendix A'),
+  ('77', 'repeat_service', 'Repeat procedure by another physician', NULL, 'CPT Appendix A'),
+  ('78', 'global_surgery', 'Unplanned return to the operating room for a related procedure', NULL, 'CPT Appendix A'),
+  ('79', 'global_surgery', 'Unrelated procedure by the same physician during the postoperative period', NULL, 'CPT Appendix A'),
+  ('80', 'assistant_surgeon', 'Assistant surgeon', NULL, 'CPT Appendix A'),
+  ('81', 'assistant_surgeon', 'Minimum assistant surgeon', NULL, 'CPT Appendix A'),
+  ('82', 'assistant_surgeon', 'Assistant surgeon when a qualified resident is not available', NULL, 'CPT Appendix A'),
+  ('90', 'informational', 'Reference (outside) laboratory', NULL, 'CPT Appendix A'),
+  ('91', 'repeat_service', 'Repeat clinical diagnostic laboratory test', NULL, 'CPT Appendix A'),
+  ('92', 'informational', 'Alternative laboratory platform testing', NULL, 'CPT Appendix A'),
+  ('93', 'telehealth', 'Synchronous telemedicine service via audio only', '2022-01-01', 'CPT Appendix A'),
+  ('95', 'telehealth', 'Synchronous telemedicine service via real-time audio and video', '2017-01-01', 'CPT Appendix A'),
+  ('96', 'informational', 'Habilitative services', NULL, 'CPT Appendix A'),
+  ('97', 'informational', 'Rehabilitative services', NULL, 'CPT Appendix A'),
+  ('99', 'informational', 'Multiple modifiers', NULL, 'CPT Appendix A'),
+  -- Level II (HCPCS) anatomic modifiers
+  ('E1', 'anatomic', 'Upper left eyelid', NULL, 'HCPCS Level II'),
+  ('E2', 'anatomic', 'Lower left eyelid', NULL, 'HCPCS Level II'),
+  ('E3', 'anatomic', 'Upper right eyelid', NULL, 'HCPCS Level II'),
+  ('E4', 'anatomic', 'Lower right eyelid', NULL, 'HCPCS Level II'),
+  ('FA', 'anatomic', 'Left hand, thumb', NULL, 'HCPCS Level II'),
+  ('F1', 'anatomic', 'Left hand, second digit', NULL, 'HCPCS Level II'),
+  ('F2', 'anatomic', 'Left hand, third digit', NULL, 'HCPCS Level II'),
+  ('F3', 'anatomic', 'Left hand, fourth digit', NULL, 'HCPCS Level II'),
+  ('F4', 'anatomic', 'Left hand, fifth digit', NULL, 'HCPCS Level II'),
+  ('F5', 'anatomic', 'Right hand, thumb', NULL, 'HCPCS Level II'),
+  ('F6', 'anatomic', 'Right hand, second digit', NULL, 'HCPCS Level II'),
+  ('F7', 'anatomic', 'Right hand, third digit', NULL, 'HCPCS Level II'),
+  ('F8', 'anatomic', 'Right hand, fourth digit', NULL, 'HCPCS Level II'),
+  ('F9', 'anatomic', 'Right hand, fifth digit', NULL, 'HCPCS Level II'),
+  ('TA', 'anatomic', 'Left foot, great toe', NULL, 'HCPCS Level II'),
+  ('T1', 'anatomic', 'Left foot, second digit', NULL, 'HCPCS Level II'),
+  ('T2', 'anatomic', 'Left foot, third digit', NULL, 'HCPCS Level II'),
+  ('T3', 'anatomic', 'Left foot, fourth digit', NULL, 'HCPCS Level II'),
+  ('T4', 'anatomic', 'Left foot, fifth digit', NULL, 'HCPCS Level II'),
+  ('T5', 'anatomic', 'Right foot, great toe', NULL, 'HCPCS Level II'),
+  ('T6', 'anatomic', 'Right foot, second digit', NULL, 'HCPCS Level II'),
+  ('T7', 'anatomic', 'Right foot, third digit', NULL, 'HCPCS Level II'),
+  ('T8', 'anatomic', 'Right foot, fourth digit', NULL, 'HCPCS Level II'),
+  ('T9', 'anatomic', 'Right foot, fifth digit', NULL, 'HCPCS Level II'),
+  ('LT', 'anatomic', 'Left side', NULL, 'HCPCS Level II'),
+  ('RT', 'anatomic', 'Right side', NULL, 'HCPCS Level II'),
+  ('LC', 'anatomic', 'Left circumflex coronary artery', NULL, 'HCPCS Level II'),
+  ('LD', 'anatomic', 'Left anterior descending coronary artery', NULL, 'HCPCS Level II'),
+  ('LM', 'anatomic', 'Left main coronary artery', NULL, 'HCPCS Level II'),
+  ('RC', 'anatomic', 'Right coronary artery', NULL, 'HCPCS Level II'),
+  ('RI', 'anatomic', 'Ramus intermedius coronary artery', NULL, 'HCPCS Level II'),
+  -- Level II (HCPCS) distinct procedural service subsets of 59
+  ('XE', 'distinct_procedural', 'Separate encounter', '2015-01-01', 'HCPCS Level II'),
+  ('XP', 'distinct_procedural', 'Separate practitioner', '2015-01-01', 'HCPCS Level II'),
+  ('XS', 'distinct_procedural', 'Separate structure or organ', '2015-01-01', 'HCPCS Level II'),
+  ('XU', 'distinct_procedural', 'Unusual non-overlapping service', '2015-01-01', 'HCPCS Level II'),
+  -- Level II (HCPCS) payment, liability and service modifiers
+  ('TC', 'professional_technical', 'Technical component', NULL, 'HCPCS Level II'),
+  ('AS', 'assistant_surgeon', 'Non-physician practitioner assistant at surgery', NULL, 'HCPCS Level II'),
+  ('GA', 'liability', 'Waiver of liability (ABN) on file', NULL, 'HCPCS Level II'),
+  ('GX', 'liability', 'Voluntary notice of liability issued, not required by payer policy', '2011-04-01', 'HCPCS Level II'),
+  ('GY', 'liability', 'Statutorily excluded item or service', NULL, 'HCPCS Level II'),
+  ('GZ', 'liability', 'Expected to be denied as not reasonable and necessary; no ABN on file', NULL, 'HCPCS Level II'),
+  ('KX', 'informational', 'Requirements in the medical policy have been met', NULL, 'HCPCS Level II'),
+  ('GN', 'therapy', 'Services under an outpatient speech-language pathology plan of care', NULL, 'HCPCS Level II'),
+  ('GO', 'therapy', 'Services under an outpatient occupational therapy plan of care', NULL, 'HCPCS Level II'),
+  ('GP', 'therapy', 'Services under an outpatient physical therapy plan of care', NULL, 'HCPCS Level II'),
+  ('CQ', 'therapy', 'Outpatient physical therapy services furnished in whole or in part by a PTA', '2020-01-01', 'HCPCS Level II'),
+  ('CO', 'therapy', 'Outpatient occupational therapy services furnished in whole or in part by an OTA', '2020-01-01', 'HCPCS Level II'),
+  ('GT', 'telehealth', 'Via interactive audio and video telecommunication systems', NULL, 'HCPCS Level II'),
+  ('FQ', 'telehealth', 'Service furnished using audio-only communication technology', '2022-01-01', 'HCPCS Level II'),
+  ('QW', 'informational', 'CLIA waived test', NULL, 'HCPCS Level II'),
+  ('JW', 'drug_wastage', 'Drug amount discarded, not administered', NULL, 'HCPCS Level II'),
+  ('JZ', 'drug_wastage', 'Zero drug amount discarded', '2023-01-01', 'HCPCS Level II'),
+  ('AA', 'anesthesia', 'Anesthesia services performed personally by the anesthesiologist', NULL, 'HCPCS Level II'),
+  ('AD', 'anesthesia', 'Medical supervision by a physician of more than four concurrent anesthesia procedures', NULL, 'HCPCS Level II'),
+  ('QK', 'anesthesia', 'Medical direction of two, three or four concurrent anesthesia procedures', NULL, 'HCPCS Level II'),
+  ('QX', 'anesthesia', 'CRNA service with medical direction by a physician', NULL, 'HCPCS Level II'),
+  ('QY', 'anesthesia', 'Medical direction of one CRNA by an anesthesiologist', NULL, 'HCPCS Level II'),
+  ('QZ', 'anesthesia', 'CRNA service without medical direction by a physician', NULL, 'HCPCS Level II')
+ON CONFLICT DO NOTHING;
+
+INSERT INTO claim_forge.modifier_exclusions (modifier_a, modifier_b, reason) VALUES
+  ('50', 'LT', 'Bilateral procedure (50) already covers both sides; do not add a side modifier'),
+  ('50', 'RT', 'Bilateral procedure (50) already covers both sides; do not add a side modifier'),
+  ('LT', 'RT', 'Report 50, or the left and right procedures on separate lines'),
+  ('26', 'TC', 'Professional and technical components together are the global service; bill it without either modifier'),
+  ('59', 'XE', 'Use either 59 or one of its XE/XP/XS/XU subsets, not both'),
+  ('59', 'XP', 'Use either 59 or one of its XE/XP/XS/XU subsets, not both'),
+  ('59', 'XS', 'Use either 59 or one of its XE/XP/XS/XU subsets, not both'),
+  ('59', 'XU', 'Use either 59 or one of its XE/XP/XS/XU subsets, not both'),
+  ('52', '53', 'A service is either reduced (52) or discontinued (53)'),
+  ('52', '73', 'A service is either reduced (52) or discontinued before anesthesia (73)'),
+  ('52', '74', 'A service is either reduced (52) or discontinued after anesthesia (74)'),
+  ('73', '74', 'A procedure is discontinued either before (73) or after (74) anesthesia'),
+  ('54', '55', 'Split global surgery: each line reports a single portion of the global package'),
+  ('54', '56', 'Split global surgery: each line reports a single portion of the global package'),
+  ('55', '56', 'Split global surgery: each line reports a single portion of the global package'),
+  ('76', '77', 'A repeat procedure is by either the same (76) or another (77) physician'),
+  ('78', '79', 'A postoperative procedure is either related (78) or unrelated (79)'),
+  ('80', '81', 'Report one assistant surgeon modifier per line'),
+  ('80', '82', 'Report one assistant surgeon modifier per line'),
+  ('81', '82', 'Report one assistant surgeon modifier per line'),
+  ('25', '57', 'An E&M service is either separately identifiable (25) or the decision for surgery (57)'),
+  ('GA', 'GZ', 'An ABN is either on file (GA) or not (GZ)'),
+  ('GA', 'GY', 'Statutorily excluded services (GY) do not need an ABN (GA)'),
+  ('JW', 'JZ', 'Drug is either partly discarded (JW) or not discarded at all (JZ)'),
+  ('93', '95', 'A telemedicine service is either audio-only (93) or audio and video (95)')
+ON CONFLICT DO NOTHING;
+
+-- Add comments for documentation
+COMMENT ON TABLE claim_forge.modifiers IS 'CPT (Level I) and HCPCS (Level II) modifier reference catalog';
+COMMENT ON TABLE claim_forge.modifier_exclusions IS 'Modifier pairs that contradict each other on the same claim line';
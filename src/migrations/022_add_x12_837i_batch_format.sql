@@ -0,0 +1,14 @@
+-- Migration: 022_add_x12_837i_batch_format.sql
+-- Description: Allow claim batches imported from X12 837I institutional interchanges
+-- Created: 2025-10-25
+
+-- Set search path to claim_forge schema
+SET search_path TO claim_forge, public;
+
+ALTER TABLE claim_forge.claim_batches
+  DROP CONSTRAINT IF EXISTS claim_batches_source_format_check;
+ALTER TABLE claim_forge.claim_batches
+  ADD CONSTRAINT claim_batches_source_format_check CHECK (source_format IN ('jsonl', 'json', 'x12_837p', 'x12_837i'));
+
+-- Add comments for documentation
+COMMENT ON COLUMN claim_forge.claim_batches.source_format IS 'Submitted format: jsonl, json (array), x12_837p or x12_837i';
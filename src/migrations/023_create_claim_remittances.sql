@@ -0,0 +1,78 @@
+-- Migration: 023_create_claim_remittances.sql
+-- Description: Store payer outcomes from X12 835 remittances and match them to claim validations
+-- Created: 2025-10-25
+
+-- Set search path to claim_forge schema
+SET search_path TO claim_forge, public;
+
+-- One row per 835 CLP claim payment
+CREATE TABLE IF NOT EXISTS claim_forge.claim_remittances (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    claim_validation_id UUID REFERENCES claim_forge.claim_validations(id) ON DELETE SET NULL,
+    patient_control_number VARCHAR(38) NOT NULL,
+    claim_status_code VARCHAR(2) NOT NULL,
+    outcome VARCHAR(20) NOT NULL CHECK (outcome IN ('paid', 'denied', 'adjusted', 'reversed')),
+    charge_amount NUMERIC(12, 2) NOT NULL,
+    paid_amount NUMERIC(12, 2) NOT NULL,
+    patient_responsibility NUMERIC(12, 2),
+    payer_claim_control_number VARCHAR(50),
+    payer VARCHAR(100),
+    check_number VARCHAR(50),
+    payment_date DATE,
+    adjustments JSONB NOT NULL DEFAULT '[]',
+    remark_codes TEXT[] NOT NULL DEFAULT '{}',
+    source_file VARCHAR(255),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One row per 835 SVC service line
+CREATE TABLE IF NOT EXISTS claim_forge.claim_remittance_lines (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    remittance_id UUID NOT NULL REFERENCES claim_forge.claim_remittances(id) ON DELETE CASCADE,
+    line_number INTEGER NOT NULL,
+    code VARCHAR(10) NOT NULL,
+    modifiers TEXT[] NOT NULL DEFAULT '{}',
+    revenue_code VARCHAR(4),
+    charge_amount NUMERIC(12, 2) NOT NULL,
+    paid_amount NUMERIC(12, 2) NOT NULL,
+    units NUMERIC(10, 2),
+    date_of_service DATE,
+    line_control_number VARCHAR(50),
+    outcome VARCHAR(20) NOT NULL CHECK (outcome IN ('paid', 'denied', 'adjusted', 'reversed')),
+    adjustments JSONB NOT NULL DEFAULT '[]',
+    remark_codes TEXT[] NOT NULL DEFAULT '{}',
+    UNIQUE (remittance_id, line_number)
+);
+
+-- Indexes for remittance matching and the prediction accuracy report
+CREATE INDEX IF NOT EXISTS idx_claim_remittances_claim_validation_id ON claim_forge.claim_remittances(claim_validation_id);
+CREATE INDEX IF NOT EXISTS idx_claim_remittances_patient_control_number ON claim_forge.claim_remittances(patient_control_number);
+CREATE INDEX IF NOT EXISTS idx_claim_remittance_lines_code ON claim_forge.claim_remittance_lines(code);
+
+-- 835 CLP01 is matched against the claim id or the CLM01 kept on imported claims
+CREATE INDEX IF NOT EXISTS idx_claim_validations_patient_control_number
+  ON claim_forge.claim_validations((original_claim->>'patient_control_number'));
+
+-- Trigger for claim_remittances table
+DROP TRIGGER IF EXISTS update_claim_remittances_updated_at ON claim_forge.claim_remittances;
+CREATE TRIGGER update_claim_remittances_updated_at
+    BEFORE UPDATE ON claim_forge.claim_remittances
+    FOR EACH ROW
+    EXECUTE FUNCTION claim_forge.update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE claim_forge.claim_remittances IS 'Payer adjudication outcomes from X12 835 claim payments (CLP loops)';
+COMMENT ON COLUMN claim_forge.claim_remittances.claim_validation_id IS 'Claim validation matched by patient control number; NULL when no stored claim matched';
+COMMENT ON COLUMN claim_forge.claim_remittances.patient_control_number IS 'CLP01: the CLM01 the practice sent on its 837';
+COMMENT ON COLUMN claim_forge.claim_remittances.claim_status_code IS 'CLP02 claim status, e.g. 1 processed as primary, 4 denied, 22 reversal';
+COMMENT ON COLUMN claim_forge.claim_remittances.outcome IS 'Payer outcome: paid, denied, adjusted or reversed';
+COMMENT ON COLUMN claim_forge.claim_remittances.adjustments IS 'Claim-level CAS adjustments: [{group_code, reason_code (CARC), amount, quantity}]';
+COMMENT ON COLUMN claim_forge.claim_remittances.remark_codes IS 'Claim-level RARC remark codes from MOA/MIA';
+COMMENT ON COLUMN claim_forge.claim_remittances.check_number IS 'TRN02 check or EFT trace number';
+COMMENT ON COLUMN claim_forge.claim_remittances.source_file IS 'Name of the uploaded 835 file, when given';
+COMMENT ON TABLE claim_forge.claim_remittance_lines IS 'Service line payments (SVC loops) of a claim remittance';
+COMMENT ON COLUMN claim_forge.claim_remittance_lines.code IS 'SVC01 CPT/HCPCS code, or the revenue code for NU lines';
+COMMENT ON COLUMN claim_forge.claim_remittance_lines.outcome IS 'Line outcome: paid, denied, adjusted or reversed';
+COMMENT ON COLUMN claim_forge.claim_remittance_lines.adjustments IS 'Line-level CAS adjustments: [{group_code, reason_code (CARC), amount, quantity}]';
+COMMENT ON COLUMN claim_forge.claim_remittance_lines.remark_codes IS 'RARC remark codes from LQ*HE';
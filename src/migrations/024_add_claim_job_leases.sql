@@ -0,0 +1,17 @@
+-- Migration: 024_add_claim_job_leases.sql
+-- Description: Lease claim jobs while they run so jobs orphaned by a restart or crash can be requeued
+-- Created: 2025-10-25
+
+-- Set search path to claim_forge schema
+SET search_path TO claim_forge, public;
+
+ALTER TABLE claim_forge.claim_jobs
+  ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
+
+-- Recovery sweep: running jobs whose lease ran out
+CREATE INDEX IF NOT EXISTS idx_claim_jobs_status_lease ON claim_forge.claim_jobs(status, lease_expires_at);
+
+-- Add comments for documentation
+COMMENT ON COLUMN claim_forge.claim_jobs.lease_expires_at IS 'Renewed by the process running the job; a running job past its lease was orphaned and is requeued';
+COMMENT ON COLUMN claim_forge.claim_jobs.attempts IS 'Number of times the job has been started; jobs orphaned after the last attempt are failed';
@@ -0,0 +1,13 @@
+-- Migration: 025_add_claim_batch_leases.sql
+-- Description: Lease claim batches while they run so batches interrupted by a restart are resumed
+-- Created: 2025-10-25
+
+-- Set search path to claim_forge schema
+SET search_path TO claim_forge, public;
+
+ALTER TABLE claim_forge.claim_batches
+  ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMP;
+
+-- Add comments for documentation
+COMMENT ON COLUMN claim_forge.claim_batches.lease_expires_at IS 'Renewed by the process running the batch; an unfinished batch past its lease is resumed from its queued claims';
+COMMENT ON COLUMN claim_forge.claim_jobs.error_message IS 'Error message if the job failed, or the validation errors of an invalid batch claim';
@@ -0,0 +1,17 @@
+-- Migration: 026_add_webhook_delivery_leases.sql
+-- Description: Lease webhook deliveries while they are attempted so no delivery is sent twice at once
+-- Created: 2025-10-25
+
+-- Set search path to claim_forge schema
+SET search_path TO claim_forge, public;
+
+ALTER TABLE claim_forge.webhook_deliveries
+  ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMP;
+
+-- Delivery sweep: pending deliveries that are due and not leased
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_pending_due
+  ON claim_forge.webhook_deliveries(next_attempt_at)
+  WHERE status = 'pending';
+
+-- Add comments for documentation
+COMMENT ON COLUMN claim_forge.webhook_deliveries.lease_expires_at IS 'Set while an attempt is in flight; a pending delivery is only claimed once its lease has run out';
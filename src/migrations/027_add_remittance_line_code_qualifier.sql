@@ -0,0 +1,21 @@
+-- Migration: 027_add_remittance_line_code_qualifier.sql
+-- Description: Keep the 835 SVC01 qualifier so revenue-code-only lines are not reported as CPT codes
+-- Created: 2025-10-25
+
+-- Set search path to claim_forge schema
+SET search_path TO claim_forge, public;
+
+ALTER TABLE claim_forge.claim_remittance_lines
+  ADD COLUMN IF NOT EXISTS code_qualifier VARCHAR(2) NOT NULL DEFAULT 'HC' CHECK (code_qualifier IN ('HC', 'NU'));
+
+-- NU lines stored before the qualifier was kept carry their revenue code as the code
+UPDATE claim_forge.claim_remittance_lines
+SET code_qualifier = 'NU'
+WHERE code = revenue_code;
+
+-- Remittance matching scopes CLP01 to the claim's payer
+CREATE INDEX IF NOT EXISTS idx_claim_validations_payer_lower
+  ON claim_forge.claim_validations((LOWER(TRIM(original_claim->>'payer'))));
+
+-- Add comments for documentation
+COMMENT ON COLUMN claim_forge.claim_remittance_lines.code_qualifier IS 'SVC01-1: HC when code is a CPT/HCPCS code, NU when it is a revenue code';
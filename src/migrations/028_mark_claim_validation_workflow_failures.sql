@@ -0,0 +1,24 @@
+-- Migration: 028_mark_claim_validation_workflow_failures.sql
+-- Description: Flag claim validations whose workflow failed, so their status is not read as a prediction
+-- Created: 2025-10-25
+
+-- Set search path to claim_forge schema
+SET search_path TO claim_forge, public;
+
+-- Runs that failed before the flag was recorded left a workflow_error step behind
+UPDATE claim_forge.claim_validations v
+SET metadata = COALESCE(v.metadata, '{}'::jsonb) || jsonb_build_object('workflow_failure', jsonb_build_object(
+      'error', COALESCE(s.errors[1], 'Unknown error'),
+      'failed_at', s.start_time
+    ))
+FROM (
+  SELECT DISTINCT ON (claim_validation_id) claim_validation_id, errors, start_time
+  FROM claim_forge.validation_steps
+  WHERE step_name = 'workflow_error'
+  ORDER BY claim_validation_id, start_time DESC
+) s
+WHERE s.claim_validation_id = v.id
+  AND NOT (COALESCE(v.metadata, '{}'::jsonb) ? 'workflow_failure');
+
+-- Add comments for documentation
+COMMENT ON COLUMN claim_forge.claim_validations.metadata IS 'Validation metadata, including the NCCI ruleset versions applied (ncci_rulesets), the risk score (risk_score, risk_breakdown) and workflow_failure when the workflow failed and overall_status is no decision';
@@ -257,7 +257,8 @@ async function executeValidationWithUpdates(
     const evaluatorResult = await workflow['executeEvaluatorStep'](
       claimValidationId,
       plannerResult.output_data.questions,
-      4
+      4,
+      payload
     );
 
     if (evaluatorResult.status === 'failed') {
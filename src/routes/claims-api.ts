@@ -0,0 +1,563 @@
+import express from 'express';
+import { ClaimValidationRequest, ApiResponse } from '../types/claim-types';
+import { ClaimJobService, ClaimJobRecord } from '../services/claim-job-service';
+import {
+  ClaimStorageService,
+  ClaimValidationFilters,
+  ClaimValidationRecord,
+  ValidationStepRecord,
+  decodeClaimCursor
+} from '../services/claim-storage-service';
+import { WebhookDeliveryService } from '../services/webhook-delivery-service';
+import { ClaimBatchService, parseClaimBatch, resolveBatchConcurrency } from '../services/claim-batch-service';
+import { validateClaim, ClaimValidationInput } from '../services/cms-ncci-validator';
+import { validateClaimJobRequest, validateClaimListQuery, validateNcciCheckRequest } from '../middleware/validation';
+
+const router = express.Router();
+const webhookDeliveryService = new WebhookDeliveryService();
+const claimJobService = new ClaimJobService(webhookDeliveryService);
+const claimBatchService = new ClaimBatchService(claimJobService);
+const claimStorageService = new ClaimStorageService();
+
+// Batches arrive as JSONL or X12 837 text; JSON arrays are already parsed by the app-level JSON parser
+const batchBodyParser = express.text({
+  type: ['application/x-ndjson', 'application/jsonl', 'application/edi-x12', 'text/plain'],
+  limit: process.env.BATCH_MAX_BODY_SIZE || '50mb'
+});
+
+
+// How often the event stream checks for new steps, and the client reconnect delay we advertise
+const EVENT_POLL_INTERVAL_MS = parseInt(process.env.CLAIM_EVENTS_POLL_MS || '2000', 10);
+const EVENT_RETRY_MS = 5000;
+// The stream ends when no step or status change arrives for this long; clients reconnect with Last-Event-ID
+const EVENT_IDLE_TIMEOUT_MS = parseInt(process.env.CLAIM_EVENTS_IDLE_TIMEOUT_MS || '300000', 10);
+
+/**
+ * POST /api/claims
+ * Queue a claim for asynchronous validation and return the job id immediately
+ */
+router.post('/claims', validateClaimJobRequest, async (req, res) => {
+  const { payload, callback_url }: ClaimValidationRequest = req.body;
+
+  try {
+    const job = await claimJobService.createJob(payload, callback_url);
+    claimJobService.startJob(job);
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: {
+        job_id: job.id,
+        status: job.status,
+        created_at: job.created_at,
+        links: {
+          self: `/api/claims/${job.id}`,
+          events: `/api/claims/${job.id}/events`
+        }
+      },
+      message: 'Claim validation job queued'
+    };
+    res.status(202).location(`/api/claims/${job.id}`).json(response);
+
+  } catch (error) {
+    console.error('❌ Failed to queue claim job:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to queue claim validation job'
+    });
+  }
+});
+
+/**
+ * POST /api/claims/ncci-check
+ * Deterministic PTP/MUE/AOC and format checks against the CMS/NCCI tables only.
+ * No agents run, so this answers in milliseconds and costs nothing per call.
+ */
+router.post('/claims/ncci-check', validateNcciCheckRequest, async (req, res) => {
+  const claim: ClaimValidationInput = req.body;
+  const startTime = Date.now();
+
+  try {
+    const result = await validateClaim(claim);
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: {
+        ...result,
+        processing_time_ms: Date.now() - startTime
+      }
+    };
+    res.json(response);
+
+  } catch (error) {
+    console.error('❌ NCCI check failed:', error);
+    res.status(500).json({ success: false, error: 'Failed to run NCCI check' });
+  }
+});
+
+/**
+ * POST /api/claims/batch
+ * Queue a batch of claims (JSONL, JSON array or X12 837P/837I) and validate them with bounded concurrency.
+ * Every line is validated up front; invalid lines are stored as failed items and listed in `invalid`.
+ */
+router.post('/claims/batch', batchBodyParser, async (req, res) => {
+  const concurrency = resolveBatchConcurrency(parseInt((req.query.concurrency as string) || '', 10));
+  const { format, entries, errors } = parseClaimBatch(typeof req.body === 'string' || Array.isArray(req.body) ? req.body : '');
+
+  if (errors.length > 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Batch validation failed',
+      details: errors
+    });
+    return;
+  }
+
+  try {
+    const batch = await claimBatchService.createBatch(entries, format, concurrency);
+    claimBatchService.startBatch(batch);
+    const invalid = entries.filter(entry => entry.error).map(entry => entry.error!);
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: {
+        batch_id: batch.id,
+        status: batch.status,
+        total_claims: batch.total_claims,
+        concurrency: batch.concurrency,
+        invalid_claims: invalid.length,
+        invalid,
+        created_at: batch.created_at,
+        links: {
+          self: `/api/claims/batch/${batch.id}`,
+          results: `/api/claims/batch/${batch.id}/results`
+        }
+      },
+      message: `Claim batch queued with ${batch.total_claims - invalid.length} claims` +
+        (invalid.length > 0 ? `; ${invalid.length} invalid claims were stored as failed` : '')
+    };
+    res.status(202).location(`/api/claims/batch/${batch.id}`).json(response);
+
+  } catch (error) {
+    console.error('❌ Failed to queue claim batch:', error);
+    res.status(500).json({ success: false, error: 'Failed to queue claim batch' });
+  }
+});
+
+/**
+ * GET /api/claims/batch/:batchId
+ * Batch progress with per-claim status, one page of items at a time. Pass next_after back as ?after=.
+ */
+router.get('/claims/batch/:batchId', async (req, res) => {
+  const after = parseInt((req.query.after as string) || '', 10);
+  const afterIndex = Number.isInteger(after) && after >= 0 ? after : -1;
+  const limit = Math.min(parseInt((req.query.limit as string) || '100', 10) || 100, 500);
+
+  try {
+    const batch = await claimBatchService.getBatch(req.params.batchId);
+    if (!batch) {
+      res.status(404).json({ success: false, error: `Claim batch ${req.params.batchId} not found` });
+      return;
+    }
+
+    // One extra item tells whether another page exists
+    const page = await claimBatchService.getBatchItems(batch.id, afterIndex, limit + 1);
+    const items = page.slice(0, limit);
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: {
+        batch_id: batch.id,
+        status: batch.status,
+        total_claims: batch.total_claims,
+        concurrency: batch.concurrency,
+        counts: batch.counts,
+        created_at: batch.created_at,
+        started_at: batch.started_at || null,
+        completed_at: batch.completed_at || null,
+        items: items.map(job => ({
+          index: job.batch_index,
+          job_id: job.id,
+          status: job.status,
+          overall_status: job.result?.overall_status || null,
+          attempts: job.attempts ?? 0,
+          error: job.error_message || null
+        })),
+        next_after: page.length > limit ? items[items.length - 1].batch_index ?? null : null
+      }
+    };
+    res.json(response);
+
+  } catch (error) {
+    console.error('❌ Failed to get claim batch:', error);
+    res.status(500).json({ success: false, error: 'Failed to get claim batch' });
+  }
+});
+
+/**
+ * GET /api/claims/batch/:batchId/results
+ * Download batch results as JSONL, one line per claim in submission order
+ */
+router.get('/claims/batch/:batchId/results', async (req, res) => {
+  let batch;
+  try {
+    batch = await claimBatchService.getBatch(req.params.batchId);
+  } catch (error) {
+    console.error('❌ Failed to get claim batch:', error);
+    res.status(500).json({ success: false, error: 'Failed to get claim batch' });
+    return;
+  }
+
+  if (!batch) {
+    res.status(404).json({ success: false, error: `Claim batch ${req.params.batchId} not found` });
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'application/x-ndjson',
+    'Content-Disposition': `attachment; filename="claim-batch-${batch.id}.jsonl"`
+  });
+
+  try {
+    let afterIndex = -1;
+    while (true) {
+      const page = await claimBatchService.getBatchItems(batch.id, afterIndex);
+      if (page.length === 0) break;
+      for (const job of page) {
+        res.write(JSON.stringify(formatBatchResult(job)) + '\n');
+      }
+      afterIndex = page[page.length - 1].batch_index ?? afterIndex;
+    }
+  } catch (error) {
+    console.error('❌ Failed to stream claim batch results:', error);
+  } finally {
+    res.end();
+  }
+});
+
+/**
+ * GET /api/claims
+ * Past claim decisions, newest first. Filters: payer, status, from, to (exclusive), cpt, icd.
+ * Pass next_cursor back as ?cursor= to get the next page.
+ */
+router.get('/claims', validateClaimListQuery, async (req, res) => {
+  const { cursor, limit, ...filters } = req.query as unknown as ClaimValidationFilters & { cursor?: string; limit: number };
+
+  const decodedCursor = cursor ? decodeClaimCursor(cursor) : undefined;
+  if (decodedCursor === null) {
+    res.status(400).json({ success: false, error: 'Invalid cursor' });
+    return;
+  }
+
+  try {
+    const page = await claimStorageService.listClaimValidations(filters, limit, decodedCursor);
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: {
+        items: page.records.map(formatClaimSummary),
+        next_cursor: page.next_cursor
+      }
+    };
+    res.json(response);
+
+  } catch (error) {
+    console.error('❌ Failed to list claims:', error);
+    res.status(500).json({ success: false, error: 'Failed to list claims' });
+  }
+});
+
+/**
+ * GET /api/claims/:id
+ * Claim status, the original claim and, once finished, the final decision.
+ * Works for asynchronous jobs and for claims validated through /api/claims/validate.
+ */
+router.get('/claims/:id', async (req, res) => {
+  try {
+    const [job, validation] = await Promise.all([
+      claimJobService.getJob(req.params.id),
+      claimStorageService.getClaimValidation(req.params.id)
+    ]);
+    if (!job && !validation) {
+      res.status(404).json({ success: false, error: `Claim ${req.params.id} not found` });
+      return;
+    }
+
+    const response: ApiResponse<any> = { success: true, data: formatClaim(req.params.id, job, validation) };
+    res.json(response);
+
+  } catch (error) {
+    console.error('❌ Failed to get claim:', error);
+    res.status(500).json({ success: false, error: 'Failed to get claim' });
+  }
+});
+
+/**
+ * GET /api/claims/:id/steps
+ * Step timeline for a claim with durations and step outputs
+ */
+router.get('/claims/:id/steps', async (req, res) => {
+  try {
+    const validation = await claimStorageService.getClaimValidation(req.params.id);
+    if (!validation) {
+      res.status(404).json({ success: false, error: `Claim ${req.params.id} not found` });
+      return;
+    }
+
+    const steps = await claimStorageService.getValidationSteps(validation.id);
+    const response: ApiResponse<any> = {
+      success: true,
+      data: {
+        claim_id: validation.claim_id,
+        claim_validation_id: validation.id,
+        total_duration_ms: steps.reduce((total, step) => total + (step.duration_ms || 0), 0),
+        steps: steps.map(formatStepTimeline)
+      }
+    };
+    res.json(response);
+
+  } catch (error) {
+    console.error('❌ Failed to get claim steps:', error);
+    res.status(500).json({ success: false, error: 'Failed to get claim steps' });
+  }
+});
+
+/**
+ * GET /api/claims/:id/events
+ * Stream step events via Server-Sent Events. Clients resume with the Last-Event-ID header
+ * (or ?last_event_id=) and receive every step recorded after that id.
+ */
+router.get('/claims/:id/events', async (req, res) => {
+  let job: ClaimJobRecord | null;
+  try {
+    job = await claimJobService.getJob(req.params.id);
+  } catch (error) {
+    console.error('❌ Failed to get claim job:', error);
+    res.status(500).json({ success: false, error: 'Failed to get claim validation job' });
+    return;
+  }
+
+  if (!job) {
+    res.status(404).json({ success: false, error: `Claim job ${req.params.id} not found` });
+    return;
+  }
+
+  const lastEventId = parseInt((req.header('Last-Event-ID') || req.query.last_event_id || '0') as string, 10);
+  let cursor = Number.isFinite(lastEventId) && lastEventId > 0 ? lastEventId : 0;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.write(`retry: ${EVENT_RETRY_MS}\n\n`);
+
+  let closed = false;
+  req.on('close', () => { closed = true; });
+  let lastStatus = job.status;
+  let lastActivity = Date.now();
+
+  try {
+    while (!closed) {
+      // Read job status before steps so a finished job never has unsent steps
+      const current: ClaimJobRecord = (await claimJobService.getJob(job.id)) || job;
+      const steps = await claimJobService.getJobEvents(current, cursor);
+
+      for (const step of steps) {
+        sendEvent(res, 'step', formatStepEvent(step), step.seq);
+        cursor = step.seq || cursor;
+      }
+
+      if (current.status === 'completed' || current.status === 'failed') {
+        sendEvent(res, 'job', formatJob(current));
+        break;
+      }
+
+      if (steps.length > 0 || current.status !== lastStatus) {
+        lastStatus = current.status;
+        lastActivity = Date.now();
+      } else if (Date.now() - lastActivity >= EVENT_IDLE_TIMEOUT_MS) {
+        sendEvent(res, 'timeout', {
+          message: `No progress for ${Math.round(EVENT_IDLE_TIMEOUT_MS / 1000)}s; reconnect with Last-Event-ID to keep following the job`,
+          job: formatJob(current)
+        });
+        break;
+      }
+
+      // Comment line keeps idle connections alive through load balancers
+      res.write(': keep-alive\n\n');
+      await new Promise(resolve => setTimeout(resolve, EVENT_POLL_INTERVAL_MS));
+    }
+  } catch (error) {
+    console.error('❌ Claim event stream failed:', error);
+    sendEvent(res, 'error', {
+      message: 'Event stream failed: ' + (error instanceof Error ? error.message : 'Unknown error')
+    });
+  } finally {
+    res.end();
+  }
+});
+
+/**
+ * GET /api/claims/:id/deliveries
+ * Webhook deliveries for a claim with their full attempt log
+ */
+router.get('/claims/:id/deliveries', async (req, res) => {
+  try {
+    const deliveries = await webhookDeliveryService.getDeliveriesForClaim(req.params.id);
+    const response: ApiResponse<any> = { success: true, data: deliveries };
+    res.json(response);
+
+  } catch (error) {
+    console.error('❌ Failed to get webhook deliveries:', error);
+    res.status(500).json({ success: false, error: 'Failed to get webhook deliveries' });
+  }
+});
+
+/**
+ * GET /api/webhooks/dead-letters
+ * Webhook deliveries that exhausted their retries, newest first
+ */
+router.get('/webhooks/dead-letters', async (req, res) => {
+  const limit = Math.min(parseInt((req.query.limit as string) || '50', 10) || 50, 500);
+
+  try {
+    const deadLetters = await webhookDeliveryService.listDeadLetters(limit);
+    const response: ApiResponse<any> = { success: true, data: deadLetters };
+    res.json(response);
+
+  } catch (error) {
+    console.error('❌ Failed to list webhook dead letters:', error);
+    res.status(500).json({ success: false, error: 'Failed to list webhook dead letters' });
+  }
+});
+
+/**
+ * POST /api/webhooks/dead-letters/:id/requeue
+ * Retry a dead-lettered delivery with a fresh attempt budget
+ */
+router.post('/webhooks/dead-letters/:id/requeue', async (req, res) => {
+  try {
+    const delivery = await webhookDeliveryService.requeueDeadLetter(req.params.id);
+    if (!delivery) {
+      res.status(404).json({ success: false, error: `Dead letter ${req.params.id} not found` });
+      return;
+    }
+
+    const response: ApiResponse<any> = { success: true, data: delivery, message: 'Webhook delivery requeued' };
+    res.status(202).json(response);
+
+  } catch (error) {
+    console.error('❌ Failed to requeue webhook dead letter:', error);
+    res.status(500).json({ success: false, error: 'Failed to requeue webhook dead letter' });
+  }
+});
+
+function formatJob(job: ClaimJobRecord) {
+  return {
+    job_id: job.id,
+    claim_validation_id: job.claim_validation_id || null,
+    status: job.status,
+    result: job.result || null,
+    error: job.error_message || null,
+    created_at: job.created_at,
+    started_at: job.started_at || null,
+    completed_at: job.completed_at || null
+  };
+}
+
+/**
+ * Merge a claim's job (if it was queued) with its stored validation record
+ */
+function formatClaim(claimId: string, job: ClaimJobRecord | null, validation: ClaimValidationRecord | null) {
+  return {
+    claim_id: claimId,
+    job_id: job?.id || null,
+    claim_validation_id: job?.claim_validation_id || validation?.id || null,
+    // Claims validated synchronously have no job; their record only exists once validation ran
+    status: job ? job.status : 'completed',
+    original_claim: job?.payload || validation?.original_claim || null,
+    decision: job ? job.result || null : formatDecision(validation),
+    error: job?.error_message || null,
+    ncci_rulesets: validation?.metadata?.ncci_rulesets || null,
+    created_at: job?.created_at || validation?.created_at,
+    started_at: job?.started_at || null,
+    completed_at: job ? job.completed_at || null : validation?.updated_at || null
+  };
+}
+
+function formatDecision(validation: ClaimValidationRecord | null) {
+  if (!validation) return null;
+  return {
+    overall_status: validation.overall_status,
+    confidence: validation.confidence,
+    processing_time_ms: validation.processing_time_ms,
+    question_analysis: validation.question_analysis,
+    overall_assessment: validation.overall_assessment,
+    insurance_insights: validation.insurance_insights
+  };
+}
+
+function formatClaimSummary(validation: ClaimValidationRecord) {
+  return {
+    claim_id: validation.claim_id,
+    claim_validation_id: validation.id,
+    payer: validation.original_claim?.payer,
+    cpt_codes: validation.original_claim?.cpt_codes || [],
+    icd10_codes: validation.original_claim?.icd10_codes || [],
+    overall_status: validation.overall_status,
+    confidence: validation.confidence,
+    processing_time_ms: validation.processing_time_ms,
+    created_at: validation.created_at
+  };
+}
+
+function formatStepTimeline(step: ValidationStepRecord) {
+  return {
+    ...formatStepEvent(step),
+    model_used: step.model_used,
+    token_usage: step.token_usage || null,
+    cost_metrics: step.cost_metrics || null,
+    output_data: step.output_data || null
+  };
+}
+
+function formatBatchResult(job: ClaimJobRecord) {
+  return {
+    index: job.batch_index,
+    job_id: job.id,
+    status: job.status,
+    overall_status: job.result?.overall_status || null,
+    result: job.result || null,
+    attempts: job.attempts ?? 0,
+    error: job.error_message || null
+  };
+}
+
+function formatStepEvent(step: ValidationStepRecord) {
+  return {
+    step_name: step.step_name,
+    step_order: step.step_order,
+    status: step.status,
+    agent_type: step.agent_type,
+    start_time: step.start_time,
+    end_time: step.end_time,
+    duration_ms: step.duration_ms,
+    confidence_score: step.confidence_score,
+    errors: step.errors || [],
+    warnings: step.warnings || [],
+    escalation_reason: step.escalation_reason
+  };
+}
+
+/**
+ * Send a named Server-Sent Event, optionally with an id for resumption
+ */
+function sendEvent(res: express.Response, event: string, data: any, id?: number) {
+  if (id !== undefined) {
+    res.write(`id: ${id}\n`);
+  }
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+export default router;
@@ -0,0 +1,96 @@
+import express from 'express';
+import { ClaimJobService } from '../services/claim-job-service';
+import {
+  fhirClaimToPayload,
+  payloadToFhirClaim,
+  toClaimResponse,
+  toOperationOutcome,
+  toQueuedClaimResponse
+} from '../services/fhir-claim-mapper';
+
+const router = express.Router();
+const claimJobService = new ClaimJobService();
+
+// FHIR clients send application/fhir+json, which the app-level JSON parser does not read
+const fhirBodyParser = express.json({
+  type: ['application/fhir+json', 'application/json'],
+  limit: '10mb'
+});
+
+const FHIR_CONTENT_TYPE = 'application/fhir+json';
+
+/**
+ * POST /api/fhir/Claim
+ * Queue a FHIR R4 Claim for validation. Answers 202 with a queued ClaimResponse; Content-Location
+ * points at /api/fhir/ClaimResponse/:id, which returns the final ClaimResponse once the evaluator has decided.
+ * The claim runs as a claim job, so its progress is also visible at /api/claims/:id.
+ */
+router.post('/fhir/Claim', fhirBodyParser, async (req, res) => {
+  try {
+    const { payload, claim, issues } = fhirClaimToPayload(req.body);
+    if (!payload || !claim) {
+      res.status(400).type(FHIR_CONTENT_TYPE).json(toOperationOutcome(issues));
+      return;
+    }
+
+    const job = await claimJobService.createJob(payload);
+    claimJobService.startJob(job);
+
+    res.status(202)
+      .set('Content-Location', `/api/fhir/ClaimResponse/${job.id}`)
+      .type(FHIR_CONTENT_TYPE)
+      .json(toQueuedClaimResponse(claim, job.id));
+
+  } catch (error) {
+    console.error('❌ FHIR Claim validation failed:', error);
+    res.status(500).type(FHIR_CONTENT_TYPE).json(toOperationOutcome([{
+      severity: 'error',
+      code: 'exception',
+      diagnostics: 'Failed to validate FHIR Claim'
+    }]));
+  }
+});
+
+/**
+ * GET /api/fhir/ClaimResponse/:id
+ * ClaimResponse for a claim job: 202 with outcome queued while it runs, 200 with the decision once completed
+ */
+router.get('/fhir/ClaimResponse/:id', async (req, res) => {
+  try {
+    const job = await claimJobService.getJob(req.params.id);
+    if (!job) {
+      res.status(404).type(FHIR_CONTENT_TYPE).json(toOperationOutcome([{
+        severity: 'error',
+        code: 'not-found',
+        diagnostics: `ClaimResponse ${req.params.id} not found`
+      }]));
+      return;
+    }
+
+    const claim = payloadToFhirClaim(job.payload);
+    if (job.status === 'queued' || job.status === 'running') {
+      res.status(202).type(FHIR_CONTENT_TYPE).json(toQueuedClaimResponse(claim, job.id));
+      return;
+    }
+    if (job.status !== 'completed' || !job.result) {
+      res.status(500).type(FHIR_CONTENT_TYPE).json(toOperationOutcome([{
+        severity: 'error',
+        code: 'exception',
+        diagnostics: `Claim validation failed: ${job.error_message || 'no decision was recorded'} (claim job ${job.id})`
+      }]));
+      return;
+    }
+
+    res.type(FHIR_CONTENT_TYPE).json(toClaimResponse(claim, job.result, job.id));
+
+  } catch (error) {
+    console.error('❌ Failed to get FHIR ClaimResponse:', error);
+    res.status(500).type(FHIR_CONTENT_TYPE).json(toOperationOutcome([{
+      severity: 'error',
+      code: 'exception',
+      diagnostics: 'Failed to get FHIR ClaimResponse'
+    }]));
+  }
+});
+
+export default router;
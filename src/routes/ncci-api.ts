@@ -0,0 +1,155 @@
+import express from 'express';
+import { ApiResponse } from '../types/claim-types';
+import { NcciReferenceService, NcciRulesetFilters } from '../services/ncci-reference-service';
+import { getNcciRuleIndexStatus, reloadNcciRuleIndex } from '../services/cms-ncci-validator';
+import { validateNcciPtpQuery, validateNcciMueQuery, validateNcciAocQuery, validateNcciRulesetsQuery } from '../middleware/validation';
+
+const router = express.Router();
+const ncciReferenceService = new NcciReferenceService();
+
+const CODE_PATTERN = /^[A-Z0-9]{5}$/;
+
+/**
+ * GET /api/ncci/rulesets?data_type=&provider_type=&program=&status=
+ * Loaded NCCI ruleset versions, newest first
+ */
+router.get('/ncci/rulesets', validateNcciRulesetsQuery, async (req, res) => {
+  try {
+    const rulesets = await ncciReferenceService.listRulesets(req.query as NcciRulesetFilters);
+    const response: ApiResponse<any> = { success: true, data: { rulesets } };
+    res.json(response);
+
+  } catch (error) {
+    console.error('❌ Failed to list NCCI rulesets:', error);
+    res.status(500).json({ success: false, error: 'Failed to list NCCI rulesets' });
+  }
+});
+
+/**
+ * GET /api/ncci/index
+ * Status of this process's in-memory rule index (NCCI_RULE_INDEX=true)
+ */
+router.get('/ncci/index', (req, res) => {
+  const response: ApiResponse<any> = { success: true, data: getNcciRuleIndexStatus() };
+  res.json(response);
+});
+
+/**
+ * POST /api/ncci/index/reload
+ * Rebuild the in-memory rule index from the active rulesets
+ */
+router.post('/ncci/index/reload', async (req, res) => {
+  try {
+    await reloadNcciRuleIndex();
+    const response: ApiResponse<any> = {
+      success: true,
+      data: getNcciRuleIndexStatus(),
+      message: 'NCCI rule index reloaded'
+    };
+    res.json(response);
+
+  } catch (error) {
+    console.error('❌ Failed to reload NCCI rule index:', error);
+    res.status(500).json({ success: false, error: 'Failed to reload NCCI rule index' });
+  }
+});
+
+/**
+ * GET /api/ncci/ptp?code1=&code2=&provider_type=&program=&ruleset_id=
+ * PTP edits for a code pair (either column order), or every edit involving code1.
+ * Reads the program's active rulesets (Medicare by default) unless ruleset_id picks a specific version.
+ */
+router.get('/ncci/ptp', validateNcciPtpQuery, async (req, res) => {
+  const { code1, code2, provider_type, program = 'medicare', ruleset_id } = req.query as unknown as {
+    code1: string;
+    code2?: string;
+    provider_type?: string;
+    program?: string;
+    ruleset_id?: number;
+  };
+
+  try {
+    const edits = await ncciReferenceService.getPtpEdits(code1, code2, provider_type, ruleset_id, program);
+    const response: ApiResponse<any> = {
+      success: true,
+      data: { code1, code2: code2 || null, provider_type: provider_type || null, program, ruleset_id: ruleset_id || null, edits }
+    };
+    res.json(response);
+
+  } catch (error) {
+    console.error('❌ Failed to look up PTP edits:', error);
+    res.status(500).json({ success: false, error: 'Failed to look up PTP edits' });
+  }
+});
+
+/**
+ * GET /api/ncci/mue/:code?service_type=&program=&ruleset_id=
+ * MUE limits for a code by service type, from the Medicare edits unless program=medicaid
+ */
+router.get('/ncci/mue/:code', validateNcciMueQuery, async (req, res) => {
+  const code = req.params.code.trim().toUpperCase();
+  if (!CODE_PATTERN.test(code)) {
+    res.status(400).json({ success: false, error: `Invalid CPT/HCPCS code: ${req.params.code}` });
+    return;
+  }
+
+  try {
+    const limits = await ncciReferenceService.getMue(
+      code,
+      req.query.service_type as string | undefined,
+      req.query.ruleset_id as unknown as number | undefined,
+      (req.query.program as string | undefined) || 'medicare'
+    );
+    if (limits.length === 0) {
+      res.status(404).json({ success: false, error: `No MUE found for ${code}` });
+      return;
+    }
+
+    const response: ApiResponse<any> = { success: true, data: { code, limits } };
+    res.json(response);
+
+  } catch (error) {
+    console.error('❌ Failed to look up MUE:', error);
+    res.status(500).json({ success: false, error: 'Failed to look up MUE' });
+  }
+});
+
+/**
+ * GET /api/ncci/aoc/:code
+ * Primary codes an add-on code may be billed with
+ */
+router.get('/ncci/aoc/:code', validateNcciAocQuery, async (req, res) => {
+  const code = req.params.code.trim().toUpperCase();
+  if (!CODE_PATTERN.test(code)) {
+    res.status(400).json({ success: false, error: `Invalid CPT/HCPCS code: ${req.params.code}` });
+    return;
+  }
+
+  try {
+    const primaries = await ncciReferenceService.getAocPrimaries(code, req.query.ruleset_id as unknown as number | undefined);
+    if (primaries.length === 0) {
+      res.status(404).json({ success: false, error: `${code} is not an add-on code` });
+      return;
+    }
+
+    const today = new Date().toISOString().split('T')[0];
+    const response: ApiResponse<any> = {
+      success: true,
+      data: {
+        addon_code: code,
+        // Primaries whose edit is still active today; `primaries` keeps the full history
+        allowed_primary_codes: [...new Set(primaries
+          .filter(row => !row.deletion_date || row.deletion_date > today)
+          .map(row => row.primary_code))],
+        primaries
+      }
+    };
+    res.json(response);
+
+  } catch (error) {
+    console.error('❌ Failed to look up AOC primaries:', error);
+    res.status(500).json({ success: false, error: 'Failed to look up add-on code' });
+  }
+});
+
+export default router;
@@ -0,0 +1,88 @@
+import express from 'express';
+import { ApiResponse } from '../types/claim-types';
+import { validateRemittanceAccuracyQuery } from '../middleware/validation';
+import { PredictionAccuracyFilters, RemittanceService } from '../services/remittance-service';
+import { parse835 } from '../services/x12-835-parser';
+
+const router = express.Router();
+const remittanceService = new RemittanceService();
+
+// 835 files arrive as X12 text, which the app-level JSON parser does not read
+const remittanceBodyParser = express.text({
+  type: ['application/edi-x12', 'text/plain'],
+  limit: process.env.BATCH_MAX_BODY_SIZE || '50mb'
+});
+
+/**
+ * POST /api/remittances
+ * Ingest an X12 835 remittance: every CLP claim payment is stored with its CARC/RARC codes and matched
+ * to the stored claim validation by patient control number. Any parse error rejects the whole file.
+ */
+router.post('/remittances', remittanceBodyParser, async (req, res) => {
+  const { remittances, errors } = parse835(typeof req.body === 'string' ? req.body : '');
+
+  if (errors.length > 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Remittance validation failed',
+      details: errors
+    });
+    return;
+  }
+
+  try {
+    const sourceFile = typeof req.query.source_file === 'string' ? req.query.source_file.slice(0, 255) : undefined;
+    const result = await remittanceService.ingestRemittances(remittances, sourceFile);
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: {
+        ...result,
+        outcomes: remittances.reduce<Record<string, number>>((counts, remittance) => {
+          counts[remittance.outcome] = (counts[remittance.outcome] || 0) + 1;
+          return counts;
+        }, {})
+      },
+      message: `Stored ${result.stored} claim payments; ${result.matched} matched a validated claim`
+    };
+    res.status(201).json(response);
+
+  } catch (error) {
+    console.error('❌ Failed to ingest remittance:', error);
+    res.status(500).json({ success: false, error: 'Failed to ingest remittance' });
+  }
+});
+
+/**
+ * GET /api/remittances/accuracy
+ * Predicted overall_status against actual payer outcomes, per payer and CPT
+ */
+router.get('/remittances/accuracy', validateRemittanceAccuracyQuery, async (req, res) => {
+  try {
+    const report = await remittanceService.getPredictionAccuracy(req.query as unknown as PredictionAccuracyFilters);
+    const response: ApiResponse<any> = { success: true, data: report };
+    res.json(response);
+
+  } catch (error) {
+    console.error('❌ Failed to build prediction accuracy report:', error);
+    res.status(500).json({ success: false, error: 'Failed to build prediction accuracy report' });
+  }
+});
+
+/**
+ * GET /api/claims/:id/remittances
+ * Payer outcomes recorded for a claim from ingested 835 files
+ */
+router.get('/claims/:id/remittances', async (req, res) => {
+  try {
+    const remittances = await remittanceService.getClaimRemittances(req.params.id);
+    const response: ApiResponse<any> = { success: true, data: { claim_id: req.params.id, remittances } };
+    res.json(response);
+
+  } catch (error) {
+    console.error('❌ Failed to get claim remittances:', error);
+    res.status(500).json({ success: false, error: 'Failed to get claim remittances' });
+  }
+});
+
+export default router;
@@ -0,0 +1,92 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ClaimBatchParseError,
+  ClaimBatchService,
+  parseClaimBatch,
+  resolveBatchConcurrency
+} from './services/claim-batch-service';
+
+/**
+ * Validate a JSONL (or JSON array) file of ClaimPayloads, or an X12 837P/837I file, and write one JSONL
+ * result line per claim.
+ *
+ * Usage: npm run batch:validate -- <claims.jsonl> [--concurrency 5] [--out results.jsonl]
+ */
+async function runClaimBatch() {
+  const args = process.argv.slice(2);
+  const inputFile = args.find((arg, index) => !arg.startsWith('--') && !args[index - 1]?.startsWith('--'));
+  const optionValue = (name: string) => {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  if (!inputFile) {
+    console.error('Usage: npm run batch:validate -- <claims.jsonl> [--concurrency 5] [--out results.jsonl]');
+    process.exit(1);
+  }
+
+  const inputPath = path.resolve(inputFile);
+  const outputPath = path.resolve(optionValue('out') || inputPath.replace(/\.(jsonl|json|edi|x12|837|txt)$/i, '') + '.results.jsonl');
+  const concurrency = resolveBatchConcurrency(parseInt(optionValue('concurrency') || '', 10));
+
+  const { format, entries, errors } = parseClaimBatch(fs.readFileSync(inputPath, 'utf8'));
+  const printErrors = (list: ClaimBatchParseError[]) => list.forEach(error => {
+    const where = format.startsWith('x12_') ? `Segment ${error.line}${error.segment_id ? ` (${error.segment_id})` : ''}${error.claim_id ? ` claim ${error.claim_id}` : ''}` : `Line ${error.line}`;
+    console.error(`   ${where}: ${error.errors.map(e => `${e.field ? e.field + ': ' : ''}${e.message}`).join('; ')}`);
+  });
+  if (errors.length > 0) {
+    console.error(`❌ Cannot validate ${inputPath}:`);
+    printErrors(errors);
+    process.exit(1);
+  }
+  const invalid = entries.filter(entry => entry.error).map(entry => entry.error!);
+  if (invalid.length > 0) {
+    console.error(`⚠️ ${invalid.length} invalid claim(s) in ${inputPath} are recorded as failed:`);
+    printErrors(invalid);
+  }
+
+  const batchService = new ClaimBatchService();
+  try {
+    const batch = await batchService.createBatch(entries, format, concurrency);
+    await batchService.runBatch(batch, (job, done, total) => {
+      console.log(`   [${done}/${total}] ${job.id} finished`);
+    });
+
+    const output = fs.createWriteStream(outputPath);
+    let afterIndex = -1;
+    while (true) {
+      const page = await batchService.getBatchItems(batch.id, afterIndex);
+      if (page.length === 0) break;
+      page.forEach(job => {
+        output.write(JSON.stringify({
+          index: job.batch_index,
+          job_id: job.id,
+          status: job.status,
+          overall_status: job.result?.overall_status || null,
+          result: job.result || null,
+          attempts: job.attempts ?? 0,
+          error: job.error_message || null
+        }) + '\n');
+      });
+      afterIndex = page[page.length - 1].batch_index ?? afterIndex;
+    }
+    await new Promise(resolve => output.end(resolve));
+
+    const summary = await batchService.getBatch(batch.id);
+    console.log(`\n✅ Batch ${batch.id} complete:`, summary?.counts);
+    console.log(`📄 Results written to ${outputPath}`);
+
+  } catch (error) {
+    console.error('❌ Claim batch failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await batchService.close();
+  }
+}
+
+if (require.main === module) {
+  runClaimBatch();
+}
+
+export { runClaimBatch };
@@ -0,0 +1,55 @@
+import * as path from 'path';
+import { importNcciDirectory, writeNcciManifest } from './services/cms-ncci-validator';
+
+/**
+ * Import previously downloaded CMS/NCCI zips from a directory, with no network access.
+ *
+ * Usage: npm run import:cms -- <dir> [--manifest SHA256SUMS] [--dry-run]
+ *        npm run import:cms -- <dir> --write-manifest
+ */
+async function runNcciImport() {
+  const args = process.argv.slice(2);
+  const dir = args.find((arg, index) => !arg.startsWith('--') && args[index - 1] !== '--manifest');
+  const optionValue = (name: string) => {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  if (!dir) {
+    console.error('Usage: npm run import:cms -- <dir> [--manifest SHA256SUMS] [--dry-run] [--write-manifest]');
+    process.exit(1);
+  }
+
+  const manifest = optionValue('manifest');
+  try {
+    if (args.includes('--write-manifest')) {
+      const manifestPath = await writeNcciManifest(path.resolve(dir), manifest ? path.resolve(manifest) : undefined);
+      console.log(`✅ Checksum manifest written to ${manifestPath}`);
+      process.exit(0);
+    }
+
+    const files = await importNcciDirectory(path.resolve(dir), {
+      manifestPath: manifest ? path.resolve(manifest) : undefined,
+      dryRun: args.includes('--dry-run')
+    });
+
+    console.log('\n📊 Import summary:');
+    files.forEach(file => {
+      const detail = file.result
+        ? `ruleset "${file.result.ruleset.name}" v${file.result.ruleset.version}, ${file.result.rows_loaded} rows, ${file.result.rows_rejected} rejected`
+        : file.reason || 'dry run';
+      console.log(`   ${file.status.padEnd(8)} ${file.file} (${detail})`);
+    });
+    process.exit(0);
+
+  } catch (error) {
+    console.error('❌ NCCI import failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  runNcciImport();
+}
+
+export { runNcciImport };
@@ -0,0 +1,384 @@
+import { Pool } from 'pg';
+import { ClaimPayload } from '../types/claim-types';
+import {
+  CLAIM_JOB_LEASE_MS,
+  ClaimJobService,
+  ClaimJobRecord,
+  ClaimJobStatus,
+  startLeaseHeartbeat
+} from './claim-job-service';
+import { validateClaimPayloadValue } from '../middleware/validation';
+import { detect837Kind, parse837I, parse837P } from './x12-837-parser';
+import { X12ParseError } from './x12-parser';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+const BATCH_DEFAULT_CONCURRENCY = parseInt(process.env.BATCH_DEFAULT_CONCURRENCY || '3', 10);
+const BATCH_MAX_CONCURRENCY = parseInt(process.env.BATCH_MAX_CONCURRENCY || '10', 10);
+const BATCH_MAX_CLAIMS = parseInt(process.env.BATCH_MAX_CLAIMS || '10000', 10);
+
+export type ClaimBatchFormat = 'jsonl' | 'json' | 'x12_837p' | 'x12_837i';
+
+export interface ClaimBatchRecord {
+  id: string;
+  status: 'queued' | 'running' | 'completed';
+  total_claims: number;
+  concurrency: number;
+  source_format: ClaimBatchFormat;
+  created_at: Date;
+  started_at?: Date;
+  completed_at?: Date;
+  counts?: Record<ClaimJobStatus, number>;
+}
+
+export interface ClaimBatchParseError {
+  line: number;        // Segment position for X12 batches
+  segment_id?: string; // X12 only
+  claim_id?: string;   // X12 only: CLM01 of the claim
+  errors: Array<{ field: string; message: string }>;
+}
+
+export interface ClaimBatchEntry {
+  line: number;            // JSONL line, array position or X12 segment position
+  payload?: ClaimPayload;  // Set when the claim passed validation
+  submitted?: unknown;     // What was sent for a claim that failed validation
+  error?: ClaimBatchParseError;
+}
+
+export interface ClaimBatchParseResult {
+  format: ClaimBatchFormat;
+  entries: ClaimBatchEntry[];     // Every claim in submission order, valid or not
+  errors: ClaimBatchParseError[]; // Problems that reject the whole batch
+}
+
+/**
+ * Parse a batch body: a JSON array of ClaimPayloads, JSONL with one ClaimPayload per line, or an
+ * X12 837P/837I interchange. An invalid claim becomes an entry with its error and the 1-based line
+ * (JSONL), array position (JSON) or segment position (X12); only an unreadable body, a batch
+ * without valid claims or an oversized batch is rejected as a whole.
+ */
+export function parseClaimBatch(body: string | unknown[]): ClaimBatchParseResult {
+  let format: ClaimBatchFormat = 'jsonl';
+  let rawEntries: Array<{ line: number; value?: unknown; raw?: string; parseError?: string }> = [];
+
+  if (Array.isArray(body)) {
+    format = 'json';
+    rawEntries = body.map((value, index) => ({ line: index + 1, value }));
+  } else {
+    const text = (body || '').trim();
+    if (text.startsWith('ISA')) {
+      return parseX12ClaimBatch(text);
+    } else if (text.startsWith('[')) {
+      format = 'json';
+      try {
+        const parsed = JSON.parse(text);
+        rawEntries = (Array.isArray(parsed) ? parsed : [parsed]).map((value: unknown, index: number) => ({ line: index + 1, value }));
+      } catch (error) {
+        return {
+          format,
+          entries: [],
+          errors: [{ line: 1, errors: [{ field: '', message: `Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}` }] }]
+        };
+      }
+    } else {
+      text.split(/\r?\n/).forEach((raw, index) => {
+        const line = raw.trim();
+        if (!line) return;
+        try {
+          rawEntries.push({ line: index + 1, value: JSON.parse(line) });
+        } catch (error) {
+          rawEntries.push({ line: index + 1, raw: line, parseError: `Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}` });
+        }
+      });
+    }
+  }
+
+  const entries: ClaimBatchEntry[] = rawEntries.map(entry => {
+    if (entry.parseError) {
+      return { line: entry.line, submitted: entry.raw, error: { line: entry.line, errors: [{ field: '', message: entry.parseError }] } };
+    }
+    const { value, errors: fieldErrors } = validateClaimPayloadValue(entry.value);
+    return fieldErrors.length > 0
+      ? { line: entry.line, submitted: entry.value, error: { line: entry.line, errors: fieldErrors } }
+      : { line: entry.line, payload: value };
+  });
+
+  return { format, entries, errors: checkBatch(entries) };
+}
+
+// 837P/837I claims, validated like JSON claims; errors are reported at the segment they came from
+function parseX12ClaimBatch(text: string): ClaimBatchParseResult {
+  const kind = detect837Kind(text);
+  const format: ClaimBatchFormat = kind === '837I' ? 'x12_837i' : 'x12_837p';
+  const { claims, errors: x12Errors } = kind === '837I' ? parse837I(text) : parse837P(text);
+  const toBatchError = (error: X12ParseError): ClaimBatchParseError => ({
+    line: error.segment,
+    segment_id: error.segment_id,
+    claim_id: error.claim_id,
+    errors: [{ field: error.element || '', message: error.message }]
+  });
+
+  // Errors outside a claim (envelope, version, truncation) make the whole interchange unusable
+  const interchangeErrors = x12Errors.filter(error => error.claim_id === undefined);
+  if (interchangeErrors.length > 0) {
+    return { format, entries: [], errors: interchangeErrors.map(toBatchError) };
+  }
+
+  const entries: ClaimBatchEntry[] = claims.map(claim => {
+    const { value, errors: fieldErrors } = validateClaimPayloadValue(claim.payload);
+    return fieldErrors.length > 0
+      ? { line: claim.segment, submitted: claim.payload, error: { line: claim.segment, segment_id: 'CLM', claim_id: claim.claim_id, errors: fieldErrors } }
+      : { line: claim.segment, payload: value };
+  });
+
+  // A claim the parser rejected becomes one failed entry at its first bad segment. The parser reports
+  // each claim's errors together, so a run of errors with the same CLM01 is one claim.
+  let rejected: ClaimBatchEntry | null = null;
+  x12Errors.forEach((error, index) => {
+    if (!rejected || x12Errors[index - 1].claim_id !== error.claim_id) {
+      rejected = {
+        line: error.segment,
+        submitted: { claim_id: error.claim_id },
+        error: { line: error.segment, segment_id: error.segment_id, claim_id: error.claim_id, errors: [] }
+      };
+      entries.push(rejected);
+    }
+    rejected.error!.errors.push({ field: error.element || '', message: `Segment ${error.segment} (${error.segment_id}): ${error.message}` });
+  });
+  entries.sort((a, b) => a.line - b.line);
+
+  return { format, entries, errors: checkBatch(entries) };
+}
+
+function checkBatch(entries: ClaimBatchEntry[]): ClaimBatchParseError[] {
+  if (entries.length === 0) {
+    return [{ line: 0, errors: [{ field: '', message: 'Batch contains no claims' }] }];
+  }
+  if (entries.length > BATCH_MAX_CLAIMS) {
+    return [{ line: 0, errors: [{ field: '', message: `Batch exceeds the maximum of ${BATCH_MAX_CLAIMS} claims` }] }];
+  }
+  if (!entries.some(entry => entry.payload)) {
+    return entries.map(entry => entry.error!);
+  }
+  return [];
+}
+
+/**
+ * One-line description of an invalid batch claim, stored as the failed item's error
+ */
+export function formatBatchEntryError(error: ClaimBatchParseError): string {
+  return 'Invalid claim: ' + error.errors.map(e => `${e.field ? e.field + ': ' : ''}${e.message}`).join('; ');
+}
+
+/**
+ * Clamp a requested concurrency to the configured limits
+ */
+export function resolveBatchConcurrency(requested?: number): number {
+  if (!requested || !Number.isFinite(requested) || requested < 1) {
+    return Math.min(BATCH_DEFAULT_CONCURRENCY, BATCH_MAX_CONCURRENCY);
+  }
+  return Math.min(Math.floor(requested), BATCH_MAX_CONCURRENCY);
+}
+
+export class ClaimBatchService {
+  private pool: Pool;
+  private claimJobService: ClaimJobService;
+
+  constructor(claimJobService?: ClaimJobService) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('DATABASE_URL environment variable is required');
+    }
+
+    this.pool = new Pool({
+      connectionString: process.env.DATABASE_URL,
+      ssl: process.env.DATABASE_URL?.includes('localhost') || process.env.DATABASE_URL?.includes('127.0.0.1')
+        ? false
+        : { rejectUnauthorized: false },
+      max: 10,
+      idleTimeoutMillis: 30000,
+      connectionTimeoutMillis: 2000,
+    });
+    this.claimJobService = claimJobService || new ClaimJobService();
+  }
+
+  /**
+   * Create a batch with one job per entry: queued for valid claims, failed for invalid ones
+   */
+  async createBatch(entries: ClaimBatchEntry[], format: ClaimBatchFormat, concurrency: number): Promise<ClaimBatchRecord> {
+    const result = await this.pool.query(`
+      INSERT INTO claim_forge.claim_batches (total_claims, concurrency, source_format)
+      VALUES ($1, $2, $3)
+      RETURNING *
+    `, [entries.length, concurrency, format]);
+    const batch = this.mapRow(result.rows[0]);
+
+    try {
+      await this.claimJobService.createBatchJobs(batch.id, entries.map(entry => entry.error
+        ? { payload: entry.submitted, error_message: formatBatchEntryError(entry.error) }
+        : { payload: entry.payload }));
+    } catch (error) {
+      await this.pool.query('DELETE FROM claim_forge.claim_batches WHERE id = $1', [batch.id]);
+      throw error;
+    }
+
+    const invalid = entries.filter(entry => entry.error).length;
+    console.log(`✅ Claim batch ${batch.id} queued with ${entries.length - invalid} claims, ${invalid} invalid (concurrency ${concurrency})`);
+    return batch;
+  }
+
+  /**
+   * Run a batch in the background
+   */
+  startBatch(batch: ClaimBatchRecord): void {
+    this.runBatch(batch).catch(error => {
+      console.error(`❌ Claim batch ${batch.id} crashed:`, error);
+    });
+  }
+
+  /**
+   * Validate every queued claim in a batch with at most `batch.concurrency` running at once. The batch is
+   * leased while it runs; a batch whose lease ran out is resumed from the claims that are still queued.
+   */
+  async runBatch(batch: ClaimBatchRecord, onProgress?: (job: ClaimJobRecord, done: number, total: number) => void): Promise<void> {
+    const claimed = await this.pool.query(`
+      UPDATE claim_forge.claim_batches
+      SET status = 'running',
+          started_at = COALESCE(started_at, NOW()),
+          lease_expires_at = NOW() + $2 * INTERVAL '1 millisecond'
+      WHERE id = $1
+        AND (status = 'queued' OR (status = 'running' AND (lease_expires_at IS NULL OR lease_expires_at < NOW())))
+      RETURNING id
+    `, [batch.id, CLAIM_JOB_LEASE_MS]);
+    if (claimed.rows.length === 0) {
+      console.log(`⏭️ Claim batch ${batch.id} is finished or running elsewhere; skipping`);
+      return;
+    }
+
+    const stopHeartbeat = startLeaseHeartbeat(() => this.renewLease(batch.id), `claim batch ${batch.id}`);
+    try {
+      await this.processBatch(batch, onProgress);
+    } finally {
+      stopHeartbeat();
+    }
+  }
+
+  private async processBatch(batch: ClaimBatchRecord, onProgress?: (job: ClaimJobRecord, done: number, total: number) => void): Promise<void> {
+    // Claims the previous run of this batch left running go back to the queue; runJob reruns them on
+    // their existing claim records and fails them (rather than storing a DENIED result) on workflow errors
+    await this.claimJobService.releaseStaleJobs(batch.id);
+
+    const queue: ClaimJobRecord[] = [];
+    let afterIndex = -1;
+    while (true) {
+      const page = await this.claimJobService.getBatchJobs(batch.id, afterIndex);
+      if (page.length === 0) break;
+      queue.push(...page.filter(job => job.status === 'queued'));
+      afterIndex = page[page.length - 1].batch_index ?? afterIndex;
+    }
+
+    console.log(`🚀 Running claim batch ${batch.id}: ${queue.length} claims, concurrency ${batch.concurrency}`);
+    let next = 0;
+    let done = 0;
+
+    const worker = async (): Promise<void> => {
+      while (next < queue.length) {
+        const job = queue[next++];
+        // runJob records failures on the job itself, so one bad claim never stops the batch
+        await this.claimJobService.runJob(job);
+        done++;
+        if (onProgress) onProgress(job, done, queue.length);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(batch.concurrency, queue.length) }, () => worker()));
+
+    const counts = await this.claimJobService.countBatchJobs(batch.id);
+    if (counts.queued + counts.running > 0) {
+      // Claims still held by an interrupted run: drop the lease so the next recovery sweep picks the batch up
+      await this.pool.query('UPDATE claim_forge.claim_batches SET lease_expires_at = NULL WHERE id = $1', [batch.id]);
+      console.log(`⏸️ Claim batch ${batch.id} has ${counts.queued + counts.running} unfinished claims; it will be resumed`);
+      return;
+    }
+
+    await this.pool.query(`
+      UPDATE claim_forge.claim_batches SET status = 'completed', completed_at = NOW(), lease_expires_at = NULL
+      WHERE id = $1
+    `, [batch.id]);
+    console.log(`✅ Claim batch ${batch.id} completed`);
+  }
+
+  private async renewLease(batchId: string): Promise<void> {
+    await this.pool.query(`
+      UPDATE claim_forge.claim_batches
+      SET lease_expires_at = NOW() + $2 * INTERVAL '1 millisecond'
+      WHERE id = $1 AND status = 'running'
+    `, [batchId, CLAIM_JOB_LEASE_MS]);
+  }
+
+  /**
+   * Resume batches a previous process left queued or running (lease expired), in the background
+   */
+  async recoverBatches(): Promise<void> {
+    const result = await this.pool.query(`
+      SELECT * FROM claim_forge.claim_batches
+      WHERE status IN ('queued', 'running') AND (lease_expires_at IS NULL OR lease_expires_at < NOW())
+      ORDER BY created_at
+    `);
+    if (result.rows.length > 0) console.log(`♻️ Resuming ${result.rows.length} claim batch(es)`);
+    result.rows.forEach(row => this.startBatch(this.mapRow(row)));
+  }
+
+  /**
+   * Resume unfinished batches now and then once per lease period, as for claim jobs
+   */
+  startRecovery(): void {
+    const sweep = () => {
+      this.recoverBatches().catch(error => console.error('❌ Claim batch recovery failed:', error));
+    };
+    sweep();
+    setInterval(sweep, CLAIM_JOB_LEASE_MS).unref();
+  }
+
+  /**
+   * Get a batch with per-status claim counts
+   */
+  async getBatch(batchId: string): Promise<ClaimBatchRecord | null> {
+    const result = await this.pool.query('SELECT * FROM claim_forge.claim_batches WHERE id = $1', [batchId]);
+    if (result.rows.length === 0) return null;
+
+    return {
+      ...this.mapRow(result.rows[0]),
+      counts: await this.claimJobService.countBatchJobs(batchId)
+    };
+  }
+
+  /**
+   * Get a page of batch items in submission order
+   */
+  async getBatchItems(batchId: string, afterIndex: number = -1, limit: number = 500): Promise<ClaimJobRecord[]> {
+    return this.claimJobService.getBatchJobs(batchId, afterIndex, limit);
+  }
+
+  private mapRow(row: any): ClaimBatchRecord {
+    return {
+      id: row.id,
+      status: row.status,
+      total_claims: row.total_claims,
+      concurrency: row.concurrency,
+      source_format: row.source_format,
+      created_at: row.created_at,
+      started_at: row.started_at || undefined,
+      completed_at: row.completed_at || undefined
+    };
+  }
+
+  /**
+   * Close the database connection pool
+   */
+  async close(): Promise<void> {
+    await this.pool.end();
+    await this.claimJobService.close();
+  }
+}
@@ -0,0 +1,489 @@
+import { Pool } from 'pg';
+import crypto from 'crypto';
+import { ClaimPayload } from '../types/claim-types';
+import { EvaluatorDecision } from '../agents/evaluator-agent';
+import { StepByStepValidationWorkflow } from './step-by-step-validation-workflow';
+import { ClaimStorageService, ValidationStepRecord } from './claim-storage-service';
+import { AuditLogger } from './audit-logger';
+import { WebhookDeliveryService } from './webhook-delivery-service';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+// A running job renews its lease while it works; a running job past its lease was orphaned by a restart or crash
+export const CLAIM_JOB_LEASE_MS = parseInt(process.env.CLAIM_JOB_LEASE_MS || '120000', 10);
+const CLAIM_JOB_MAX_ATTEMPTS = parseInt(process.env.CLAIM_JOB_MAX_ATTEMPTS || '3', 10);
+const CLAIM_JOB_RECOVERY_CONCURRENCY = parseInt(process.env.CLAIM_JOB_RECOVERY_CONCURRENCY || '2', 10);
+
+/**
+ * Call `renew` every third of the lease until the returned stop function is called
+ */
+export function startLeaseHeartbeat(renew: () => Promise<void>, label: string): () => void {
+  const timer = setInterval(() => {
+    renew().catch(error => console.error(`❌ Failed to renew lease for ${label}:`, error));
+  }, Math.max(1000, Math.floor(CLAIM_JOB_LEASE_MS / 3)));
+  timer.unref();
+  return () => clearInterval(timer);
+}
+
+export type ClaimJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface ClaimJobRecord {
+  id: string;
+  claim_validation_id?: string;
+  status: ClaimJobStatus;
+  payload: ClaimPayload;
+  callback_url?: string;
+  batch_id?: string;
+  batch_index?: number;
+  attempts?: number;
+  lease_expires_at?: Date;
+  result?: EvaluatorDecision;
+  error_message?: string;
+  created_at: Date;
+  started_at?: Date;
+  completed_at?: Date;
+  updated_at: Date;
+}
+
+export interface ClaimBatchJobInput {
+  payload: unknown;        // Validated ClaimPayload, or what was submitted for an invalid claim
+  error_message?: string;  // Set for a claim that failed validation; its job is stored as failed
+}
+
+export class ClaimJobService {
+  private pool: Pool;
+  private claimStorageService: ClaimStorageService;
+  private webhookDeliveryService: WebhookDeliveryService;
+  private recovering = false;
+
+  constructor(webhookDeliveryService?: WebhookDeliveryService) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('DATABASE_URL environment variable is required');
+    }
+
+    this.pool = new Pool({
+      connectionString: process.env.DATABASE_URL,
+      ssl: process.env.DATABASE_URL?.includes('localhost') || process.env.DATABASE_URL?.includes('127.0.0.1')
+        ? false
+        : { rejectUnauthorized: false },
+      max: 20,
+      idleTimeoutMillis: 30000,
+      connectionTimeoutMillis: 2000,
+    });
+    this.claimStorageService = new ClaimStorageService();
+    this.webhookDeliveryService = webhookDeliveryService || new WebhookDeliveryService();
+  }
+
+  /**
+   * Create a queued job for a claim payload. The job id doubles as the claim id.
+   */
+  async createJob(payload: ClaimPayload, callbackUrl?: string): Promise<ClaimJobRecord> {
+    const jobId = crypto.randomUUID();
+
+    try {
+      const result = await this.pool.query(`
+        INSERT INTO claim_forge.claim_jobs (id, status, payload, callback_url)
+        VALUES ($1, 'queued', $2, $3)
+        RETURNING *
+      `, [jobId, JSON.stringify(payload), callbackUrl || null]);
+
+      console.log(`✅ Claim job queued: ${jobId}`);
+      return this.mapRow(result.rows[0]);
+
+    } catch (error) {
+      console.error('❌ Failed to create claim job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create one job per claim in a batch, preserving their order: queued for valid claims, failed for
+   * claims that did not pass validation
+   */
+  async createBatchJobs(batchId: string, inputs: ClaimBatchJobInput[]): Promise<ClaimJobRecord[]> {
+    const client = await this.pool.connect();
+    const jobs: ClaimJobRecord[] = [];
+    // Chunk inserts to stay well under the 65,535 bind-parameter limit
+    const chunkSize = 1000;
+
+    try {
+      await client.query('BEGIN');
+
+      for (let start = 0; start < inputs.length; start += chunkSize) {
+        const chunk = inputs.slice(start, start + chunkSize);
+        const values = chunk.map((_, index) => {
+          const baseIndex = index * 6;
+          return `($${baseIndex + 1}, $${baseIndex + 2}, $${baseIndex + 3}, $${baseIndex + 4}, $${baseIndex + 5}, $${baseIndex + 6}, ` +
+            `CASE WHEN $${baseIndex + 2}::varchar = 'failed' THEN NOW() END)`;
+        }).join(', ');
+        const params = chunk.flatMap((input, index) => [
+          crypto.randomUUID(),
+          input.error_message ? 'failed' : 'queued',
+          JSON.stringify(input.payload ?? null),
+          batchId,
+          start + index,
+          input.error_message || null
+        ]);
+
+        const result = await client.query(`
+          INSERT INTO claim_forge.claim_jobs (id, status, payload, batch_id, batch_index, error_message, completed_at)
+          VALUES ${values}
+          RETURNING *
+        `, params);
+        jobs.push(...result.rows.map(row => this.mapRow(row)));
+      }
+
+      await client.query('COMMIT');
+      return jobs.sort((a, b) => (a.batch_index || 0) - (b.batch_index || 0));
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('❌ Failed to create batch jobs:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get a page of jobs for a batch in submission order
+   */
+  async getBatchJobs(batchId: string, afterIndex: number = -1, limit: number = 500): Promise<ClaimJobRecord[]> {
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM claim_forge.claim_jobs
+        WHERE batch_id = $1 AND batch_index > $2
+        ORDER BY batch_index
+        LIMIT $3
+      `, [batchId, afterIndex, limit]);
+      return result.rows.map(row => this.mapRow(row));
+
+    } catch (error) {
+      console.error('Error getting batch jobs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Count jobs in a batch by status
+   */
+  async countBatchJobs(batchId: string): Promise<Record<ClaimJobStatus, number>> {
+    const counts: Record<ClaimJobStatus, number> = { queued: 0, running: 0, completed: 0, failed: 0 };
+
+    try {
+      const result = await this.pool.query(`
+        SELECT status, COUNT(*) AS count FROM claim_forge.claim_jobs
+        WHERE batch_id = $1
+        GROUP BY status
+      `, [batchId]);
+      result.rows.forEach(row => {
+        counts[row.status as ClaimJobStatus] = parseInt(row.count, 10);
+      });
+      return counts;
+
+    } catch (error) {
+      console.error('Error counting batch jobs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a job by id
+   */
+  async getJob(jobId: string): Promise<ClaimJobRecord | null> {
+    try {
+      const result = await this.pool.query('SELECT * FROM claim_forge.claim_jobs WHERE id = $1', [jobId]);
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+
+    } catch (error) {
+      console.error('Error getting claim job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get step events for a job recorded after the given event id
+   */
+  async getJobEvents(job: ClaimJobRecord, afterEventId: number = 0): Promise<ValidationStepRecord[]> {
+    if (!job.claim_validation_id) {
+      return [];
+    }
+    return this.claimStorageService.getValidationStepsSince(job.claim_validation_id, afterEventId);
+  }
+
+  /**
+   * Run a job in the background. Progress is persisted, so callers never need to wait on it.
+   */
+  startJob(job: ClaimJobRecord): void {
+    this.runJob(job).catch(error => {
+      console.error(`❌ Claim job ${job.id} crashed:`, error);
+    });
+  }
+
+  /**
+   * Execute the validation workflow for a job and record its outcome. The job is claimed with a lease
+   * first, so a job another process is already running is skipped.
+   */
+  async runJob(job: ClaimJobRecord): Promise<void> {
+    const claimed = await this.claimJob(job.id);
+    if (!claimed) {
+      console.log(`⏭️ Claim job ${job.id} is finished or running elsewhere; skipping`);
+      return;
+    }
+
+    console.log(`🚀 Starting claim job ${job.id} (attempt ${claimed.attempts})`);
+    const stopHeartbeat = startLeaseHeartbeat(() => this.renewLease(job.id), `claim job ${job.id}`);
+
+    try {
+      const workflow = new StepByStepValidationWorkflow();
+      workflow.setAuditLogger(AuditLogger.createSession(this.pool));
+
+      // A workflow error fails the job rather than being stored as a DENIED decision, and a retried
+      // job restarts on the claim validation record of its earlier attempt
+      const result = await workflow.validateClaim(job.payload, {
+        claimId: job.id,
+        throwOnFailure: true,
+        reuseClaimValidation: true,
+        onClaimValidationCreated: claimValidationId => this.updateJob(job.id, { claim_validation_id: claimValidationId })
+      });
+
+      await this.updateJob(job.id, { status: 'completed', result, completed_at: new Date() });
+      console.log(`✅ Claim job ${job.id} completed: ${result.overall_status}`);
+      await this.notifyCallback(job, 'completed', result);
+
+    } catch (error) {
+      console.error(`❌ Claim job ${job.id} failed:`, error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await this.updateJob(job.id, {
+        status: 'failed',
+        error_message: errorMessage,
+        completed_at: new Date()
+      });
+      await this.notifyCallback(job, 'failed', undefined, errorMessage);
+    } finally {
+      stopHeartbeat();
+    }
+  }
+
+  /**
+   * Mark a job running and lease it, if it is queued or its previous runner's lease ran out
+   */
+  private async claimJob(jobId: string): Promise<ClaimJobRecord | null> {
+    const result = await this.pool.query(`
+      UPDATE claim_forge.claim_jobs
+      SET status = 'running',
+          started_at = COALESCE(started_at, NOW()),
+          lease_expires_at = NOW() + $2 * INTERVAL '1 millisecond',
+          attempts = attempts + 1
+      WHERE id = $1
+        AND (status = 'queued' OR (status = 'running' AND (lease_expires_at IS NULL OR lease_expires_at < NOW())))
+      RETURNING *
+    `, [jobId, CLAIM_JOB_LEASE_MS]);
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  private async renewLease(jobId: string): Promise<void> {
+    await this.pool.query(`
+      UPDATE claim_forge.claim_jobs
+      SET lease_expires_at = NOW() + $2 * INTERVAL '1 millisecond'
+      WHERE id = $1 AND status = 'running'
+    `, [jobId, CLAIM_JOB_LEASE_MS]);
+  }
+
+  /**
+   * Release running jobs whose lease ran out: jobs with attempts left go back to queued, the rest are
+   * failed (and their callback notified). Scoped to one batch, or to jobs outside batches.
+   */
+  async releaseStaleJobs(batchId?: string): Promise<{ requeued: ClaimJobRecord[]; failed: ClaimJobRecord[] }> {
+    const scope = batchId ? 'batch_id = $2' : 'batch_id IS NULL';
+    const params: any[] = batchId ? [CLAIM_JOB_MAX_ATTEMPTS, batchId] : [CLAIM_JOB_MAX_ATTEMPTS];
+    const stale = `status = 'running' AND (lease_expires_at IS NULL OR lease_expires_at < NOW()) AND ${scope}`;
+
+    const failedResult = await this.pool.query(`
+      UPDATE claim_forge.claim_jobs
+      SET status = 'failed',
+          error_message = 'Job was interrupted ' || attempts || ' time(s) by a restart or crash',
+          completed_at = NOW(),
+          lease_expires_at = NULL
+      WHERE ${stale} AND attempts >= $1
+      RETURNING *
+    `, params);
+    const failed = failedResult.rows.map(row => this.mapRow(row));
+    for (const job of failed) {
+      console.error(`❌ Claim job ${job.id} failed: ${job.error_message}`);
+      await this.notifyCallback(job, 'failed', undefined, job.error_message);
+    }
+
+    const requeuedResult = await this.pool.query(`
+      UPDATE claim_forge.claim_jobs
+      SET status = 'queued', lease_expires_at = NULL
+      WHERE ${stale} AND attempts < $1
+      RETURNING *
+    `, params);
+    const requeued = requeuedResult.rows.map(row => this.mapRow(row));
+    if (requeued.length > 0) console.log(`♻️ Requeued ${requeued.length} orphaned claim job(s)`);
+
+    return { requeued, failed };
+  }
+
+  /**
+   * Requeue orphaned jobs outside batches and run them, along with queued jobs nobody started,
+   * with bounded concurrency. Batches resume their own jobs.
+   */
+  async recoverJobs(): Promise<void> {
+    if (this.recovering) return;
+    this.recovering = true;
+
+    try {
+      const { requeued } = await this.releaseStaleJobs();
+      // Jobs queued for longer than a lease were never started, e.g. the process stopped right after queueing them
+      const unstarted = await this.pool.query(`
+        SELECT * FROM claim_forge.claim_jobs
+        WHERE batch_id IS NULL AND status = 'queued' AND updated_at < NOW() - $1 * INTERVAL '1 millisecond'
+        ORDER BY created_at
+      `, [CLAIM_JOB_LEASE_MS]);
+
+      const queue = [...requeued];
+      unstarted.rows.map(row => this.mapRow(row)).forEach(job => {
+        if (!queue.some(queued => queued.id === job.id)) queue.push(job);
+      });
+      if (queue.length === 0) return;
+
+      console.log(`♻️ Recovering ${queue.length} claim job(s)`);
+      let next = 0;
+      const worker = async (): Promise<void> => {
+        while (next < queue.length) {
+          await this.runJob(queue[next++]);
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(CLAIM_JOB_RECOVERY_CONCURRENCY, queue.length) }, () => worker()));
+
+    } finally {
+      this.recovering = false;
+    }
+  }
+
+  /**
+   * Recover orphaned jobs now and then once per lease period, for jobs of processes that stop later
+   */
+  startRecovery(): void {
+    const sweep = () => {
+      this.recoverJobs().catch(error => console.error('❌ Claim job recovery failed:', error));
+    };
+    sweep();
+    setInterval(sweep, CLAIM_JOB_LEASE_MS).unref();
+  }
+
+  /**
+   * Queue a signed webhook to the job's callback_url, if it has one
+   */
+  private async notifyCallback(
+    job: ClaimJobRecord,
+    status: 'completed' | 'failed',
+    decision?: EvaluatorDecision,
+    errorMessage?: string
+  ): Promise<void> {
+    if (!job.callback_url) return;
+
+    const eventType = status === 'completed' ? 'claim.validation.completed' : 'claim.validation.failed';
+    try {
+      await this.webhookDeliveryService.enqueue(job.id, job.callback_url, eventType, {
+        event: eventType,
+        claim_id: job.id,
+        job_id: job.id,
+        status,
+        decision: decision || null,
+        error: errorMessage || null,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      // The job result is already stored; a failed enqueue must not change the job outcome
+      console.error(`❌ Failed to queue webhook for claim job ${job.id}:`, error);
+    }
+  }
+
+  /**
+   * Update job fields
+   */
+  private async updateJob(jobId: string, updates: Partial<ClaimJobRecord>): Promise<void> {
+    const setClause = [];
+    const values = [];
+    let paramCount = 1;
+
+    if (updates.status) {
+      setClause.push(`status = $${paramCount++}`);
+      values.push(updates.status);
+      if (updates.status === 'completed' || updates.status === 'failed') {
+        setClause.push('lease_expires_at = NULL');
+      }
+    }
+    if (updates.claim_validation_id) {
+      setClause.push(`claim_validation_id = $${paramCount++}`);
+      values.push(updates.claim_validation_id);
+    }
+    if (updates.result) {
+      setClause.push(`result = $${paramCount++}`);
+      values.push(JSON.stringify(updates.result));
+    }
+    if (updates.error_message) {
+      setClause.push(`error_message = $${paramCount++}`);
+      values.push(updates.error_message);
+    }
+    if (updates.started_at) {
+      setClause.push(`started_at = $${paramCount++}`);
+      values.push(updates.started_at);
+    }
+    if (updates.completed_at) {
+      setClause.push(`completed_at = $${paramCount++}`);
+      values.push(updates.completed_at);
+    }
+
+    if (setClause.length === 0) {
+      return;
+    }
+
+    values.push(jobId);
+    try {
+      await this.pool.query(`
+        UPDATE claim_forge.claim_jobs
+        SET ${setClause.join(', ')}
+        WHERE id = $${paramCount}
+      `, values);
+
+    } catch (error) {
+      console.error('Error updating claim job:', error);
+      throw error;
+    }
+  }
+
+  private mapRow(row: any): ClaimJobRecord {
+    return {
+      id: row.id,
+      claim_validation_id: row.claim_validation_id || undefined,
+      status: row.status,
+      payload: row.payload,
+      callback_url: row.callback_url || undefined,
+      batch_id: row.batch_id || undefined,
+      batch_index: row.batch_index ?? undefined,
+      attempts: row.attempts ?? undefined,
+      lease_expires_at: row.lease_expires_at || undefined,
+      result: row.result || undefined,
+      error_message: row.error_message || undefined,
+      created_at: row.created_at,
+      started_at: row.started_at || undefined,
+      completed_at: row.completed_at || undefined,
+      updated_at: row.updated_at
+    };
+  }
+
+  /**
+   * Close the database connection pool
+   */
+  async close(): Promise<void> {
+    await this.pool.end();
+    await this.claimStorageService.close();
+    await this.webhookDeliveryService.close();
+  }
+}
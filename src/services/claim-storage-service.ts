@@ -19,12 +19,14 @@ export interface ClaimValidationRecord {
   question_analysis: any[];
   overall_assessment: any;
   insurance_insights: any;
+  metadata: Record<string, any>;
   created_at: Date;
   updated_at: Date;
 }
 
 export interface ValidationStepRecord {
   id: string;
+  seq?: number;
   claim_validation_id: string;
   step_name: string;
   step_order: number;
@@ -45,6 +47,47 @@ export interface ValidationStepRecord {
   created_at: Date;
 }
 
+export interface ClaimValidationFilters {
+  payer?: string;
+  status?: 'APPROVED' | 'DENIED' | 'REQUIRES_REVIEW';
+  from?: Date;
+  to?: Date;
+  cpt?: string;
+  icd?: string;
+}
+
+export interface ClaimValidationCursor {
+  created_at: string;
+  id: string;
+}
+
+export interface ClaimValidationPage {
+  records: ClaimValidationRecord[];
+  next_cursor: string | null;
+}
+
+/**
+ * Encode a keyset cursor. created_at is kept as Postgres text so microseconds survive the round trip.
+ */
+export function encodeClaimCursor(cursor: ClaimValidationCursor): string {
+  return Buffer.from(JSON.stringify([cursor.created_at, cursor.id])).toString('base64url');
+}
+
+/**
+ * Decode a keyset cursor, returning null if it is malformed
+ */
+export function decodeClaimCursor(value: string): ClaimValidationCursor | null {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof createdAt !== 'string' || typeof id !== 'string' || isNaN(Date.parse(createdAt))) {
+      return null;
+    }
+    return { created_at: createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
 export class ClaimStorageService {
   private pool: Pool;
 
@@ -172,6 +215,64 @@ export class ClaimStorageService {
     }
   }
 
+  /**
+   * Reset the claim validation stored under a claim ID for another run: the earlier run's steps and
+   * agent results are deleted and the record goes back to its initial state. Returns the record's ID,
+   * or null when nothing is stored under the claim ID.
+   */
+  async resetClaimValidation(
+    claimId: string,
+    originalClaim: ClaimPayload,
+    evaluatorResult: EvaluatorDecision
+  ): Promise<string | null> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const existing = await client.query(
+        'SELECT id FROM claim_forge.claim_validations WHERE claim_id = $1 FOR UPDATE',
+        [claimId]
+      );
+      if (existing.rows.length === 0) {
+        await client.query('COMMIT');
+        return null;
+      }
+      const claimValidationId = existing.rows[0].id;
+
+      for (const table of ['validation_steps', 'research_results', 'planner_questions', 'sanity_check_results', 'reviewer_results', 'detected_conflicts']) {
+        await client.query(`DELETE FROM claim_forge.${table} WHERE claim_validation_id = $1`, [claimValidationId]);
+      }
+
+      await client.query(`
+        UPDATE claim_forge.claim_validations
+        SET original_claim = $2, overall_status = $3, confidence = $4, processing_time_ms = $5,
+            question_analysis = $6, overall_assessment = $7, insurance_insights = $8,
+            metadata = '{}', updated_at = NOW()
+        WHERE id = $1
+      `, [
+        claimValidationId,
+        JSON.stringify(originalClaim),
+        evaluatorResult.overall_status,
+        evaluatorResult.confidence,
+        evaluatorResult.processing_time_ms,
+        JSON.stringify(evaluatorResult.question_analysis),
+        JSON.stringify(evaluatorResult.overall_assessment),
+        JSON.stringify(evaluatorResult.insurance_insights)
+      ]);
+
+      await client.query('COMMIT');
+      return claimValidationId;
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error resetting claim validation:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   /**
    * Store a validation step
    */
@@ -227,6 +328,7 @@ export class ClaimStorageService {
     processing_time_ms?: number;
     overall_assessment?: any;
     insurance_insights?: any;
+    metadata?: Record<string, any>; // Merged into the stored metadata, not replacing it
   }): Promise<void> {
     const client = await this.pool.connect();
     
@@ -265,6 +367,12 @@ export class ClaimStorageService {
         paramIndex++;
       }
 
+      if (updates.metadata !== undefined) {
+        updateFields.push(`metadata = COALESCE(metadata, '{}'::jsonb) || $${paramIndex}::jsonb`);
+        values.push(JSON.stringify(updates.metadata));
+        paramIndex++;
+      }
+
       if (updateFields.length === 0) {
         console.log('No fields to update');
         return;
@@ -309,23 +417,83 @@ export class ClaimStorageService {
         return null;
       }
 
-      const row = result.rows[0];
+      return this.mapClaimValidation(result.rows[0]);
+
+    } catch (error) {
+      console.error('Error getting claim validation:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * List claim validations newest first, filtered and paginated with a keyset cursor
+   */
+  async listClaimValidations(
+    filters: ClaimValidationFilters,
+    limit: number = 50,
+    cursor?: ClaimValidationCursor
+  ): Promise<ClaimValidationPage> {
+    const client = await this.pool.connect();
+    
+    try {
+      const conditions = [];
+      const values: any[] = [];
+      let paramIndex = 1;
+
+      if (filters.payer) {
+        conditions.push(`LOWER(original_claim->>'payer') = LOWER($${paramIndex++})`);
+        values.push(filters.payer);
+      }
+      if (filters.status) {
+        conditions.push(`overall_status = $${paramIndex++}`);
+        values.push(filters.status);
+      }
+      if (filters.from) {
+        conditions.push(`created_at >= $${paramIndex++}`);
+        values.push(filters.from);
+      }
+      if (filters.to) {
+        conditions.push(`created_at < $${paramIndex++}`);
+        values.push(filters.to);
+      }
+      if (filters.cpt) {
+        conditions.push(`original_claim @> $${paramIndex++}::jsonb`);
+        values.push(JSON.stringify({ cpt_codes: [filters.cpt] }));
+      }
+      if (filters.icd) {
+        conditions.push(`original_claim @> $${paramIndex++}::jsonb`);
+        values.push(JSON.stringify({ icd10_codes: [filters.icd] }));
+      }
+      if (cursor) {
+        conditions.push(`(created_at, id) < ($${paramIndex++}::timestamp, $${paramIndex++}::uuid)`);
+        values.push(cursor.created_at, cursor.id);
+      }
+
+      // Fetch one extra row to know whether another page exists
+      values.push(limit + 1);
+      const query = `
+        SELECT *, created_at::text AS cursor_created_at
+        FROM claim_forge.claim_validations
+        ${conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : ''}
+        ORDER BY created_at DESC, id DESC
+        LIMIT $${paramIndex}
+      `;
+
+      const result = await client.query(query, values);
+      const rows = result.rows.slice(0, limit);
+      const last = rows[rows.length - 1];
+
       return {
-        id: row.id,
-        claim_id: row.claim_id,
-        original_claim: row.original_claim,
-        overall_status: row.overall_status,
-        confidence: row.confidence,
-        processing_time_ms: row.processing_time_ms,
-        question_analysis: row.question_analysis,
-        overall_assessment: row.overall_assessment,
-        insurance_insights: row.insurance_insights,
-        created_at: row.created_at,
-        updated_at: row.updated_at
+        records: rows.map(row => this.mapClaimValidation(row)),
+        next_cursor: result.rows.length > limit
+          ? encodeClaimCursor({ created_at: last.cursor_created_at, id: last.id })
+          : null
       };
 
     } catch (error) {
-      console.error('Error getting claim validation:', error);
+      console.error('Error listing claim validations:', error);
       throw error;
     } finally {
       client.release();
@@ -349,6 +517,7 @@ export class ClaimStorageService {
       
       return result.rows.map(row => ({
         id: row.id,
+        seq: Number(row.seq),
         claim_validation_id: row.claim_validation_id,
         step_name: row.step_name,
         step_order: row.step_order,
@@ -377,6 +546,65 @@ export class ClaimStorageService {
     }
   }
 
+  /**
+   * Get validation steps recorded after a given sequence number (for event replay)
+   */
+  async getValidationStepsSince(claimValidationId: string, afterSeq: number = 0): Promise<ValidationStepRecord[]> {
+    const client = await this.pool.connect();
+    
+    try {
+      const query = `
+        SELECT * FROM claim_forge.validation_steps 
+        WHERE claim_validation_id = $1 AND seq > $2
+        ORDER BY seq
+      `;
+
+      const result = await client.query(query, [claimValidationId, afterSeq]);
+      
+      return result.rows.map(row => ({
+        id: row.id,
+        seq: Number(row.seq),
+        claim_validation_id: row.claim_validation_id,
+        step_name: row.step_name,
+        step_order: row.step_order,
+        status: row.status,
+        start_time: row.start_time,
+        end_time: row.end_time,
+        duration_ms: row.duration_ms,
+        errors: row.errors,
+        warnings: row.warnings,
+        confidence_score: row.confidence_score,
+        agent_type: row.agent_type,
+        model_used: row.model_used,
+        escalation_reason: row.escalation_reason,
+        created_at: row.created_at
+      }));
+
+    } catch (error) {
+      console.error('Error getting validation steps since sequence:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private mapClaimValidation(row: any): ClaimValidationRecord {
+    return {
+      id: row.id,
+      claim_id: row.claim_id,
+      original_claim: row.original_claim,
+      overall_status: row.overall_status,
+      confidence: row.confidence,
+      processing_time_ms: row.processing_time_ms,
+      question_analysis: row.question_analysis,
+      overall_assessment: row.overall_assessment,
+      insurance_insights: row.insurance_insights,
+      metadata: row.metadata || {},
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+
   /**
    * Update validation step status
    */
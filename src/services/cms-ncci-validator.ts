@@ -1,11 +1,25 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import crypto from 'crypto';
 import axios from 'axios';
 import * as cheerio from 'cheerio';
 import * as unzipper from 'unzipper';
 import * as XLSX from 'xlsx';
 import { Pool, PoolClient } from 'pg';
 import dotenv from 'dotenv';
+import type { RiskBreakdown } from './risk-scoring';
+import type { ClaimServiceLine } from '../types/claim-types';
+import {
+  ClaimLine,
+  DEFAULT_RULE_MODULES,
+  ModifierCatalog,
+  NcciClaimEdits,
+  NcciMueEdit,
+  RuleIssue,
+  RuleModule,
+  runRules,
+  summarizeRuleIssues
+} from './rules-engine';
 
 // Load environment variables
 dotenv.config();
@@ -45,9 +59,19 @@ const CMS_PAGES = {
   mue_dme: 'https://www.cms.gov/medicare/coding-billing/national-correct-coding-initiative-ncci-edits/medicare-ncci-medically-unlikely-edits',
   
   // AOC (Add-On Code) edits
-  aoc: 'https://www.cms.gov/medicare/coding-billing/national-correct-coding-initiative-ncci-edits/medicare-ncci-add-code-edits'
+  aoc: 'https://www.cms.gov/medicare/coding-billing/national-correct-coding-initiative-ncci-edits/medicare-ncci-add-code-edits',
+
+  // Medicaid NCCI publishes its own PTP and MUE files (no AOC) on a single page
+  medicaid_ptp_hospital: 'https://www.cms.gov/medicare/coding-billing/ncci-medicaid/medicaid-ncci-edit-files',
+  medicaid_ptp_practitioner: 'https://www.cms.gov/medicare/coding-billing/ncci-medicaid/medicaid-ncci-edit-files',
+  medicaid_mue_hospital: 'https://www.cms.gov/medicare/coding-billing/ncci-medicaid/medicaid-ncci-edit-files',
+  medicaid_mue_practitioner: 'https://www.cms.gov/medicare/coding-billing/ncci-medicaid/medicaid-ncci-edit-files',
+  medicaid_mue_dme: 'https://www.cms.gov/medicare/coding-billing/ncci-medicaid/medicaid-ncci-edit-files'
 };
 
+// Payer names and plan types that mean the claim is billed to Medicaid (including managed care and CHIP)
+const MEDICAID_PATTERN = /medicaid|medi-cal|\bchip\b|\bmmc\b|masshealth|tenncare|ahcccs|badgercare|soonercare|husky health|apple health|healthy connections|star\+?plus|\bstar kids\b/i;
+
 // -------------------------------
 // Types
 // -------------------------------
@@ -60,14 +84,22 @@ export interface ClaimValidationInput {
   revenue_codes?: string[];
   claim_date?: string; // YYYY-MM-DD format
   provider_type?: 'practitioner' | 'hospital' | 'dme' | 'asc';
+  type_of_bill?: string; // UB-04 type of bill; institutional claims default to the hospital edits
+  program?: NcciProgram; // Edit set to apply; derived from payer/member_plan_type when omitted
+  payer?: string;
+  member_plan_type?: string;
+  state?: string; // Two-letter state; scopes payer rules
+  visit_count?: number; // Visits this benefit period including this one; for visit-limit payer rules
+  tenant_id?: string; // Selects the tenant's risk scoring weights
   units?: { [code: string]: number }; // Units per CPT code
+  service_lines?: ClaimServiceLineInput[]; // Per-line units, modifiers, dates of service and diagnosis pointers; replaces `units`
 }
 
-export interface ValidationIssue {
-  type: 'ICD_FORMAT' | 'AOC_PRIMARY_MISSING' | 'MUE_EXCEEDED' | 'PTP_BLOCKED' | 'PTP_NEEDS_MODIFIER' | 'PTP_UNKNOWN_INDICATOR' | 'NEEDS_POLICY_CHECK' | 'AOC' | 'MUE' | 'PTP_BYPASSED' | 'MODIFIER_INVALID' | 'MODIFIER_INAPPROPRIATE' | 'POS_INVALID' | 'REVENUE_CODE_INVALID' | 'EFFECTIVE_DATE_INVALID' | 'FREQUENCY_EXCEEDED';
-  message: string;
-  data?: any;
-}
+// Line modifiers are used for PTP bypasses instead of the claim-level list; date_of_service defaults to claim_date
+export type ClaimServiceLineInput = ClaimServiceLine;
+
+// Issues come from the rules engine; the alias keeps the validator's historical name
+export type ValidationIssue = RuleIssue;
 
 export interface ValidationResult {
   errors: ValidationIssue[];
@@ -75,6 +107,30 @@ export interface ValidationResult {
   passes: ValidationIssue[];
   is_valid: boolean;
   risk_score: number;
+  risk_breakdown?: RiskBreakdown; // Rules that contributed to risk_score and their points
+  program?: NcciProgram; // NCCI program whose edits were applied
+  rulesets?: NcciRulesetStamp[]; // Ruleset versions the edits were read from
+}
+
+export type NcciDataType = 'ptp' | 'mue' | 'aoc';
+
+export type NcciProgram = 'medicare' | 'medicaid';
+
+export interface NcciRulesetStamp {
+  id: number;
+  name: string;
+  version: number;
+  program: NcciProgram;
+  data_type: NcciDataType;
+  provider_type: string | null;
+}
+
+/**
+ * NCCI program for a claim: Medicaid when the member plan type or payer names a Medicaid program
+ * (fee-for-service or managed care), Medicare otherwise
+ */
+export function getNcciProgram(payer?: string, memberPlanType?: string): NcciProgram {
+  return [memberPlanType, payer].some(value => !!value && MEDICAID_PATTERN.test(value)) ? 'medicaid' : 'medicare';
 }
 
 // -------------------------------
@@ -127,10 +183,16 @@ async function getLatestDownloadLink(pageUrl: string, kind: string): Promise<{ h
     const full = href.startsWith('/') ? `https://www.cms.gov${href}` : href;
     const hay = `${full} ${text}`.toLowerCase();
 
-    // Filter per kind
-    if (kind === 'ptp' && !/(ptp|procedure-to-procedure|edit files)/i.test(hay)) return;
-    if (kind === 'mue' && !/(mue|medically\s+unlikely)/i.test(hay)) return;
-    if (kind === 'aoc' && !/(add[\s-]*on|aoc)/i.test(hay)) return;
+    // Filter per kind, e.g. "ptp_hospital" or "medicaid_mue_dme"
+    const [, dataType, providerType] = /^(?:medicaid_)?(ptp|mue|aoc)(?:_(\w+))?$/.exec(kind) || [];
+    if (dataType === 'ptp' && !/(ptp|procedure-to-procedure|edit files)/i.test(hay)) return;
+    if (dataType === 'mue' && !/(mue|medically\s+unlikely)/i.test(hay)) return;
+    if (dataType === 'aoc' && !/(add[\s-]*on|aoc)/i.test(hay)) return;
+    // Pages list the practitioner, hospital and DME files together, so the provider type has to match as well
+    if (providerType) {
+      const provider = NCCI_PROVIDER_PATTERNS.find(([name]) => name === providerType);
+      if (provider && !provider[1].test(hay)) return;
+    }
 
     candidates.push({ href: full, text });
   });
@@ -179,8 +241,11 @@ async function initDb(): Promise<PoolClient> {
           column1 VARCHAR(20) NOT NULL,
           column2 VARCHAR(20) NOT NULL,
           modifier_indicator VARCHAR(10),   -- e.g., 0, 1 (CMS semantics)
-          effective_date VARCHAR(50),
+          effective_date DATE,
+          deletion_date DATE,
           provider_type VARCHAR(50),        -- practitioner/hospital if derivable
+          source_file VARCHAR(255),         -- CMS quarterly file the row was loaded from
+          ruleset_id INTEGER,               -- ncci_rulesets version the row belongs to
           created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
         );
       `);
@@ -194,8 +259,13 @@ async function initDb(): Promise<PoolClient> {
           id SERIAL PRIMARY KEY,
           hcpcs_cpt VARCHAR(20) NOT NULL,
           mue_value INTEGER NOT NULL,
-          effective_date VARCHAR(50),
+          mai SMALLINT,                     -- MUE Adjudication Indicator (1 line, 2 policy DOS, 3 clinical DOS)
+          rationale TEXT,                   -- CMS MUE rationale
+          effective_date DATE,
+          deletion_date DATE,
           service_type VARCHAR(50),         -- practitioner/hospital/dme etc if derivable
+          source_file VARCHAR(255),         -- CMS quarterly file the row was loaded from
+          ruleset_id INTEGER,               -- ncci_rulesets version the row belongs to
           created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
         );
       `);
@@ -209,7 +279,10 @@ async function initDb(): Promise<PoolClient> {
           id SERIAL PRIMARY KEY,
           addon_code VARCHAR(20) NOT NULL,
           primary_code VARCHAR(20) NOT NULL,
-          effective_date VARCHAR(50),
+          effective_date DATE,
+          deletion_date DATE,
+          source_file VARCHAR(255),         -- CMS quarterly file the row was loaded from
+          ruleset_id INTEGER,               -- ncci_rulesets version the row belongs to
           created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
         );
       `);
@@ -221,196 +294,567 @@ async function initDb(): Promise<PoolClient> {
   return client;
 }
 
-async function extractZipEntries(zipPath: string, onEntry: (fileName: string, buffer: Buffer) => void): Promise<void> {
-  return new Promise((resolve, reject) => {
-    fs.createReadStream(zipPath)
-      .pipe(unzipper.Parse())
-      .on('entry', async (entry: any) => {
-        const fileName = entry.path;
-        if (/\.(xlsx|xls|csv|txt)$/i.test(fileName)) {
-          const chunks: Buffer[] = [];
-          entry.on('data', (c: Buffer) => chunks.push(c));
-          entry.on('end', () => onEntry(fileName, Buffer.concat(chunks)));
-          entry.on('error', (e: Error) => { console.error('Zip entry error:', e); entry.autodrain(); });
-        } else {
-          entry.autodrain();
-        }
-      })
-      .on('finish', resolve)
-      .on('error', reject);
-  });
+// Yield xlsx/csv/txt entries one at a time so only one sheet is held in memory
+async function* zipEntries(zipPath: string): AsyncGenerator<{ fileName: string; buffer: Buffer }> {
+  const directory = await unzipper.Open.file(zipPath);
+  for (const file of directory.files) {
+    if (file.type !== 'File' || !/\.(xlsx|xls|csv|txt)$/i.test(file.path)) continue;
+    yield { fileName: file.path, buffer: await file.buffer() };
+  }
 }
 
-function sheetToJson(buf: Buffer): Array<{ name: string; rows: any[] }> {
-  const wb = XLSX.read(buf, { type: 'buffer' });
-  const out: Array<{ name: string; rows: any[] }> = [];
-  wb.SheetNames.forEach(name => {
-    const ws = wb.Sheets[name];
-    // Convert to JSON with header row starting from row 2 (skip copyright notice)
-    const jsonData = XLSX.utils.sheet_to_json(ws, { 
-      header: 1, // Use array format to handle headers properly
-      range: 1, // Start from row 2 (0-indexed)
-      defval: null, 
-      raw: false 
+// Walk a worksheet row by row instead of converting it to one big array. Row 1 is the CMS
+// copyright notice, row 2 the headers; rowNumber is the 1-based spreadsheet row.
+function* sheetRows(ws: XLSX.WorkSheet): Generator<{ rowNumber: number; row: any }> {
+  if (!ws['!ref']) return;
+  const range = XLSX.utils.decode_range(ws['!ref']);
+  const cellText = (r: number, c: number): string | null => {
+    const cell = ws[XLSX.utils.encode_cell({ r, c })];
+    return cell ? XLSX.utils.format_cell(cell) : null;
+  };
+
+  const headerRow = Math.max(range.s.r, 1);
+  const headers: Array<string | null> = [];
+  for (let c = range.s.c; c <= range.e.c; c++) headers.push(cellText(headerRow, c));
+
+  for (let r = headerRow + 1; r <= range.e.r; r++) {
+    const row: any = {};
+    let empty = true;
+    headers.forEach((header, index) => {
+      const value = header ? cellText(r, range.s.c + index) : null;
+      if (header && value !== null && value !== '') {
+        row[header] = value;
+        empty = false;
+      }
     });
-    
-    // Convert array format to object format with proper headers
-    if (jsonData.length > 0) {
-      const headers = jsonData[0] as string[];
-      const rows = jsonData.slice(1).map((row: unknown) => {
-        const rowArray = row as any[];
-        const obj: any = {};
-        headers.forEach((header, index) => {
-          if (header && rowArray[index] !== undefined) {
-            obj[header] = rowArray[index];
-          }
-        });
-        return obj;
-      });
-      if (rows.length > 0) out.push({ name, rows });
+    if (!empty) yield { rowNumber: r + 1, row };
+  }
+}
+
+// Identify the CMS quarterly release a row came from, e.g. "ccipra-v314r0-f1.zip/ccipra-v314r0-f1.xlsx"
+function sourceFile(zipPath: string, entryName: string): string {
+  return `${path.basename(zipPath)}/${path.basename(entryName)}`;
+}
+
+// -------------------------------
+// Base vs. quarterly delta files
+// -------------------------------
+// CMS publishes full "base" files and quarterly "additions-deletions-revisions" files.
+// A delta zip carries Adds/Dels/Revs (PTP: CCMIChgs) sheets that must be applied on top of
+// the existing rows; replacing the table with them would wipe every unchanged edit.
+export type NcciDeltaAction = 'add' | 'delete' | 'revise';
+
+export function isNcciDeltaFile(fileName: string): boolean {
+  return /additions[-_\s]*deletions|[-_\s](adds|dels|revs|changes|ccmichgs)[-_\s]/i.test(path.basename(fileName));
+}
+
+export function getNcciDeltaAction(sheetOrFileName: string): NcciDeltaAction | null {
+  if (/\b(dels?|deletions?)\b|_dels_/i.test(sheetOrFileName)) return 'delete';
+  if (/\b(adds?|additions?)\b|_adds_/i.test(sheetOrFileName)) return 'add';
+  if (/\b(revs?|revisions?)\b|_revs_|ccmichgs/i.test(sheetOrFileName)) return 'revise';
+  return null;
+}
+
+interface NcciRowContext {
+  source: string;
+  fileEffectiveDate: string | null;
+}
+
+/**
+ * Parse a CMS date (YYYYMMDD, Julian YYYYDDD as used by AOC files, MM-DD-YYYY, MM/DD/YYYY or YYYY-MM-DD)
+ * to YYYY-MM-DD. '*' and blanks mean no date.
+ */
+export function parseNcciDate(value: unknown): string | null {
+  const text = (value ?? '').toString().trim();
+  if (!text || text === '*') return null;
+
+  let match = /^(\d{4})(\d{2})(\d{2})$/.exec(text);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+
+  match = /^(\d{4})(\d{3})$/.exec(text);
+  if (match) {
+    return new Date(Date.UTC(+match[1], 0, +match[2])).toISOString().split('T')[0];
+  }
+
+  match = /^(\d{1,2})[-/](\d{1,2})[-/](\d{4})$/.exec(text);
+  if (match) return `${match[3]}-${match[1].padStart(2, '0')}-${match[2].padStart(2, '0')}`;
+
+  match = /^(\d{4})-(\d{2})-(\d{2})/.exec(text);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+
+  return null;
+}
+
+/**
+ * Effective date encoded in a CMS file name: "Eff_10-01-2025", "effective-10012025" or "2025q4"
+ */
+export function getNcciFileEffectiveDate(fileName: string): string | null {
+  const base = path.basename(fileName);
+
+  let match = /eff(?:ective)?[-_\s]*(\d{2})-?(\d{2})-?(\d{4})/i.exec(base);
+  if (match) return `${match[3]}-${match[1]}-${match[2]}`;
+
+  match = /(20\d{2})[-_\s]*q([1-4])/i.exec(base);
+  if (match) return `${match[1]}-${String((+match[2] - 1) * 3 + 1).padStart(2, '0')}-01`;
+
+  return null;
+}
+
+// CMS headers carry line breaks and footnotes ("Deletion\r\nDate\r\n*=no data"), so match them loosely
+function pickColumn(r: any, pattern: RegExp): any {
+  const key = Object.keys(r).find(k => pattern.test(k.replace(/\s+/g, ' ').trim()));
+  return key ? r[key] : undefined;
+}
+
+// -------------------------------
+// Streaming ingestion
+// -------------------------------
+// Full quarterly files run to hundreds of thousands of rows. Rows are parsed one sheet at a time
+// and staged in chunks into a temp table; the new ruleset is then built from the staging table with
+// set-based SQL, so neither memory nor bind parameters grow with the file size.
+
+// Chunk multi-row statements to stay under the 65,535 bind-parameter limit
+const NCCI_CHUNK_SIZE = 1000;
+const NCCI_PROGRESS_INTERVAL = 50000;
+const HCPCS_CODE = /^[A-Z0-9]{5}$/;
+
+type NcciRowParser = (r: any, context: NcciRowContext) => any | null;
+
+export interface NcciIngestProgress {
+  file: string;
+  sheet: string;
+  rows_staged: number;
+  rows_rejected: number;
+}
+
+export interface NcciIngestOptions {
+  program?: NcciProgram; // Defaults to medicare; AOC edits are Medicare-only and ignore it
+  onProgress?: (progress: NcciIngestProgress) => void;
+}
+
+export interface NcciIngestResult {
+  ruleset: NcciRulesetStamp;
+  rows_loaded: number;
+  rows_rejected: number;
+  reject_report: string | null; // JSONL file listing every rejected row and why
+}
+
+interface NcciTableSpec {
+  dataType: NcciDataType;
+  table: string;
+  columns: string[];
+  naturalKey: string[]; // Unique per ruleset_id and effective_date
+  codeColumns: string[];
+  inheritColumns?: string[]; // Left blank by delta files; additions and revisions keep the active version's value
+  checkRow?: (row: any) => string | null;
+}
+
+const PTP_TABLE: NcciTableSpec = {
+  dataType: 'ptp',
+  table: 'claim_forge.ptp_edits',
+  columns: ['column1', 'column2', 'modifier_indicator', 'effective_date', 'deletion_date', 'provider_type', 'source_file'],
+  naturalKey: ['column1', 'column2', 'provider_type'],
+  codeColumns: ['column1', 'column2']
+};
+const MUE_TABLE: NcciTableSpec = {
+  dataType: 'mue',
+  table: 'claim_forge.mue',
+  columns: ['hcpcs_cpt', 'mue_value', 'mai', 'rationale', 'effective_date', 'deletion_date', 'service_type', 'source_file'],
+  naturalKey: ['hcpcs_cpt', 'service_type'],
+  codeColumns: ['hcpcs_cpt'],
+  inheritColumns: ['mai', 'rationale'],
+  checkRow: row => Number.isInteger(row.mue_value) && row.mue_value >= 0 ? null : 'MUE value is not a whole number'
+};
+const AOC_TABLE: NcciTableSpec = {
+  dataType: 'aoc',
+  table: 'claim_forge.aoc',
+  columns: ['addon_code', 'primary_code', 'effective_date', 'deletion_date', 'source_file'],
+  naturalKey: ['addon_code', 'primary_code'],
+  codeColumns: ['addon_code', 'primary_code']
+};
+
+// Reason a parsed row cannot be loaded, or null if it is fine
+function getNcciRejectReason(spec: NcciTableSpec, row: any): string | null {
+  const badCode = spec.codeColumns.find(column => !HCPCS_CODE.test(row[column] || ''));
+  if (badCode) return `${badCode} "${row[badCode]}" is not a 5-character HCPCS/CPT code`;
+  if (!row.effective_date) return 'No effective date in the row or the file name';
+  return spec.checkRow ? spec.checkRow(row) : null;
+}
+
+/**
+ * Parse every sheet in a zip into the `ncci_staging` temp table, tagging rows with their base or
+ * delta action. Malformed rows are written to a reject report instead of failing the whole file.
+ */
+async function stageNcciRows(
+  client: PoolClient,
+  spec: NcciTableSpec,
+  zipPath: string,
+  parseRow: NcciRowParser,
+  onProgress?: (progress: NcciIngestProgress) => void
+): Promise<{ staged: number; rejected: number; rejectReport: string | null }> {
+  const delta = isNcciDeltaFile(zipPath);
+  const stagedColumns = ['action', ...spec.columns];
+  const rejectReport = path.join(OUTDIR, `${path.basename(zipPath).replace(/\.zip$/i, '')}.rejects.jsonl`);
+  let rejectStream: fs.WriteStream | null = null;
+  let pending: any[] = [];
+  let staged = 0;
+  let rejected = 0;
+
+  await client.query(`
+    CREATE TEMP TABLE ncci_staging ON COMMIT DROP AS
+    SELECT ${spec.columns.join(', ')} FROM ${spec.table} WITH NO DATA
+  `);
+  await client.query('ALTER TABLE ncci_staging ADD COLUMN action VARCHAR(10) NOT NULL, ADD COLUMN seq BIGSERIAL');
+
+  const flush = async () => {
+    if (pending.length === 0) return;
+    const values = pending.map((_, index) => {
+      const baseIndex = index * stagedColumns.length;
+      return `(${stagedColumns.map((_, c) => `$${baseIndex + c + 1}`).join(', ')})`;
+    }).join(', ');
+    await client.query(
+      `INSERT INTO ncci_staging (${stagedColumns.join(', ')}) VALUES ${values}`,
+      pending.flatMap(row => stagedColumns.map(c => row[c]))
+    );
+    const before = staged;
+    staged += pending.length;
+    pending = [];
+    if (Math.floor(staged / NCCI_PROGRESS_INTERVAL) > Math.floor(before / NCCI_PROGRESS_INTERVAL)) {
+      console.log(`   📥 ${spec.table}: ${staged} rows staged, ${rejected} rejected`);
     }
-  });
-  return out;
-}
-
-async function ingestPTP(client: PoolClient, zipPath: string, providerType: string = 'hospital'): Promise<void> {
-  const bufferRows: any[] = [];
-  await extractZipEntries(zipPath, (fileName, buf) => {
-    // Heuristics: find columns like Column1/Column2/ModifierIndicator in xlsx/csv.
-    if (/\.xlsx?$/i.test(fileName)) {
-      const sheets = sheetToJson(buf);
-      sheets.forEach(({ rows }) => {
-        rows.forEach((r: any) => {
-          // Handle the actual column structure from CMS files
-          const c1 = (r['Column 1'] || r.Column1 || r.C1 || r['HCPCS/CPT Code 1'] || '').toString().trim();
-          const c2 = (r['Column 2'] || r.Column2 || r.C2 || r['HCPCS/CPT Code 2'] || '').toString().trim();
-          if (!c1 || !c2 || c1 === 'Column 1' || c2 === 'Column 2') return; // Skip headers
-          
-          const mi = (r['Modifier\r\nIndicator\r\n0=not allowed\r\n1= allowed\r\n9= not applicable'] || 
-                     r.ModifierIndicator || r['Modifier Indicator'] || r.MI || '').toString().trim();
-          const eff = (r.EffectiveDate || r['Effective Date'] || '10-01-2025').toString().trim();
-          bufferRows.push({
-            column1: c1, column2: c2,
-            modifier_indicator: mi || null,
-            effective_date: eff || null,
-            provider_type: providerType
-          });
-        });
-      });
+  };
+
+  for await (const { fileName, buffer } of zipEntries(zipPath)) {
+    if (!/\.xlsx?$/i.test(fileName)) continue;
+    const context: NcciRowContext = {
+      source: sourceFile(zipPath, fileName),
+      fileEffectiveDate: getNcciFileEffectiveDate(fileName) || getNcciFileEffectiveDate(zipPath)
+    };
+    const workbook = XLSX.read(buffer, { type: 'buffer' });
+
+    for (const sheet of workbook.SheetNames) {
+      const action = delta ? (getNcciDeltaAction(sheet) || getNcciDeltaAction(fileName)) : 'base';
+      if (!action) {
+        console.warn(`⚠️  Skipping sheet "${sheet}" in ${path.basename(zipPath)}: not an Adds/Dels/Revs sheet`);
+        continue;
+      }
+
+      for (const { rowNumber, row: raw } of sheetRows(workbook.Sheets[sheet])) {
+        const row = parseRow(raw, context);
+        if (!row) continue;
+
+        const reason = getNcciRejectReason(spec, row);
+        if (reason) {
+          rejected++;
+          rejectStream = rejectStream || fs.createWriteStream(rejectReport);
+          rejectStream.write(JSON.stringify({ source: context.source, sheet, row: rowNumber, reason, data: raw }) + '\n');
+          continue;
+        }
+
+        pending.push({ ...row, action });
+        if (pending.length >= NCCI_CHUNK_SIZE) {
+          await flush();
+          if (onProgress) onProgress({ file: context.source, sheet, rows_staged: staged, rows_rejected: rejected });
+        }
+      }
+      await flush();
+      if (onProgress) onProgress({ file: context.source, sheet, rows_staged: staged, rows_rejected: rejected });
     }
-  });
+  }
 
-      // Clear existing data for this provider type only
-      await client.query('DELETE FROM claim_forge.ptp_edits WHERE provider_type = $1', [providerType]);
+  if (rejectStream) {
+    const stream: fs.WriteStream = rejectStream;
+    await new Promise(resolve => stream.end(resolve));
+    console.warn(`⚠️  ${rejected} malformed rows in ${path.basename(zipPath)} rejected; see ${rejectReport}`);
+  }
 
-  // Insert new data using batch insert
-  if (bufferRows.length > 0) {
-    const values = bufferRows.map((row, index) => {
-      const baseIndex = index * 5;
-      return `($${baseIndex + 1}, $${baseIndex + 2}, $${baseIndex + 3}, $${baseIndex + 4}, $${baseIndex + 5})`;
-    }).join(', ');
-    
-    const insertQuery = `
-      INSERT INTO claim_forge.ptp_edits (column1, column2, modifier_indicator, effective_date, provider_type)
-      VALUES ${values}
-    `;
-    
-    const params = bufferRows.flatMap(row => [
-      row.column1,
-      row.column2,
-      row.modifier_indicator,
-      row.effective_date,
-      row.provider_type
-    ]);
-    
-    await client.query(insertQuery, params);
-  }
-}
-
-async function ingestMUE(client: PoolClient, zipPath: string, serviceType: string = 'dme'): Promise<void> {
-  const bufferRows: any[] = [];
-  await extractZipEntries(zipPath, (fileName, buf) => {
-    if (/\.xlsx?$/i.test(fileName)) {
-      const sheets = sheetToJson(buf);
-      sheets.forEach(({ rows }) => {
-        rows.forEach((r: any) => {
-          // Handle the actual column structure from CMS files
-          const code = (r['HCPCS/CPT Code'] || r.HCPCS || r['HCPCS Code'] || r['HCPCS/CPT'] || r.CPT || r.Code || '').toString().trim();
-          const mue = parseInt(r['DME Supplier Services MUE Values'] || r.MUE || r['MUE Value'] || r['Practitioner Services MUE'] || r['Outpatient Hospital Services MUE'], 10);
-          if (!code || !Number.isFinite(mue) || code === 'HCPCS/CPT Code') return; // Skip headers
-          const eff = (r.EffectiveDate || r['Effective Date'] || '10-01-2025').toString().trim();
-          bufferRows.push({ hcpcs_cpt: code, mue_value: mue, effective_date: eff || null, service_type: serviceType });
-        });
-      });
+  return { staged, rejected, rejectReport: rejectStream ? rejectReport : null };
+}
+
+// Latest staged row per key for the given actions, so one statement never touches a row twice
+function latestStaged(actions: NcciDeltaAction[] | ['base'], key: string[]): string {
+  return `
+    SELECT DISTINCT ON (${key.join(', ')}) * FROM ncci_staging
+    WHERE action IN (${actions.map(action => `'${action}'`).join(', ')})
+    ORDER BY ${key.join(', ')}, seq DESC
+  `;
+}
+
+// Insert staged rows into a ruleset, replacing a version of the same edit with the same effective date
+async function insertStagedRows(client: PoolClient, spec: NcciTableSpec, rulesetId: number, actions: NcciDeltaAction[] | ['base']): Promise<void> {
+  const versionKey = [...spec.naturalKey, 'effective_date'];
+  const updateColumns = spec.columns.filter(c => !versionKey.includes(c));
+
+  await client.query(`
+    INSERT INTO ${spec.table} (ruleset_id, ${spec.columns.join(', ')})
+    SELECT $1, ${spec.columns.join(', ')} FROM (${latestStaged(actions, versionKey)}) s
+    ON CONFLICT (ruleset_id, ${versionKey.join(', ')}) DO UPDATE SET
+      ${updateColumns.map(c => `${c} = EXCLUDED.${c}`).join(', ')}
+  `, [rulesetId]);
+}
+
+/**
+ * Apply a staged delta to a ruleset. Deletions close the active edit on the delta's effective date rather
+ * than removing it, so earlier dates of service still see it. Additions and revisions close any older
+ * version and insert the new one; a version starting on the same date is left open, so re-applying a
+ * delta is a no-op. Deletions run first so a pair deleted and re-added in the same quarter survives.
+ */
+async function applyStagedDelta(client: PoolClient, spec: NcciTableSpec, rulesetId: number): Promise<void> {
+  const matchKey = spec.naturalKey.map(c => `t.${c} = s.${c}`).join(' AND ');
+
+  const deleted = await client.query(`
+    UPDATE ${spec.table} AS t
+    SET deletion_date = COALESCE(s.deletion_date, s.effective_date)
+    FROM (${latestStaged(['delete'], spec.naturalKey)}) s
+    WHERE t.ruleset_id = $1 AND ${matchKey} AND t.deletion_date IS NULL
+  `, [rulesetId]);
+
+  if (spec.inheritColumns) {
+    await client.query(`
+      UPDATE ncci_staging AS s
+      SET ${spec.inheritColumns.map(c => `${c} = COALESCE(s.${c}, t.${c})`).join(', ')}
+      FROM ${spec.table} AS t
+      WHERE t.ruleset_id = $1 AND ${matchKey} AND t.deletion_date IS NULL AND s.action IN ('add', 'revise')
+    `, [rulesetId]);
+  }
+
+  await client.query(`
+    UPDATE ${spec.table} AS t
+    SET deletion_date = s.effective_date
+    FROM (${latestStaged(['add', 'revise'], spec.naturalKey)}) s
+    WHERE t.ruleset_id = $1 AND ${matchKey} AND t.deletion_date IS NULL
+      AND (t.effective_date IS NULL OR t.effective_date < s.effective_date)
+  `, [rulesetId]);
+
+  await insertStagedRows(client, spec, rulesetId, ['add', 'revise']);
+
+  const counts = await client.query('SELECT action, COUNT(*) AS c FROM ncci_staging GROUP BY action');
+  const count = (action: string) => counts.rows.find(row => row.action === action)?.c || 0;
+  console.log(`✅ ${spec.table} delta applied: ${count('add')} added, ${count('revise')} revised, ${deleted.rowCount || 0} deleted`);
+}
+
+// -------------------------------
+// Versioned rulesets
+// -------------------------------
+// Every ingestion run creates a new ruleset version instead of overwriting the previous one.
+// Validation reads only the active version per data type/provider type; superseded versions
+// stay queryable so past decisions can be explained.
+
+/**
+ * Ruleset name from the file's program and effective quarter, e.g. "Medicaid 2025Q4 practitioner PTP"
+ */
+export function getNcciRulesetName(zipPath: string, dataType: NcciDataType, providerType: string | null, program: NcciProgram = 'medicare'): string {
+  const effectiveDate = getNcciFileEffectiveDate(zipPath) || new Date().toISOString().split('T')[0];
+  const [year, month] = effectiveDate.split('-').map(Number);
+  const quarter = `${year}Q${Math.floor((month - 1) / 3) + 1}`;
+  const programName = program === 'medicaid' ? 'Medicaid' : 'Medicare';
+  return [programName, quarter, providerType, dataType.toUpperCase()].filter(Boolean).join(' ');
+}
+
+/**
+ * Load a file as a new ruleset version and make it the active one. A base file becomes the ruleset
+ * on its own; a delta file is applied to a copy of the currently active ruleset. It all runs in one
+ * transaction, so validation keeps reading the previous version until the new one is swapped in.
+ */
+async function loadNcciRuleset(
+  client: PoolClient,
+  spec: NcciTableSpec,
+  zipPath: string,
+  providerType: string | null,
+  parseRow: NcciRowParser,
+  options: NcciIngestOptions = {}
+): Promise<NcciIngestResult> {
+  const delta = isNcciDeltaFile(zipPath);
+  const program = spec.dataType === 'aoc' ? 'medicare' : options.program || 'medicare';
+  const name = getNcciRulesetName(zipPath, spec.dataType, providerType, program);
+  const scope = [spec.dataType, providerType || '', program];
+  const sourceKind = delta ? 'delta' : 'base';
+
+  await client.query('BEGIN');
+  try {
+    const active = await client.query(`
+      SELECT id FROM claim_forge.ncci_rulesets
+      WHERE data_type = $1 AND COALESCE(provider_type, '') = $2 AND program = $3 AND status = 'active'
+      FOR UPDATE
+    `, scope);
+    const parentId: number | null = active.rows[0]?.id ?? null;
+    if (delta && !parentId) {
+      throw new Error(`No active ${program} ${spec.dataType.toUpperCase()} ruleset${providerType ? ` for ${providerType}` : ''} to apply ${path.basename(zipPath)} to; load a base file first`);
     }
-  });
 
-      // Clear existing data for this service type only
-      await client.query('DELETE FROM claim_forge.mue WHERE service_type = $1', [serviceType]);
+    const created = await client.query(`
+      INSERT INTO claim_forge.ncci_rulesets (name, data_type, provider_type, program, version, source_kind, source_file, parent_ruleset_id)
+      SELECT $4, $1, NULLIF($2, ''), $3, COALESCE(MAX(version), 0) + 1, $5, $6, $7
+      FROM claim_forge.ncci_rulesets
+      WHERE data_type = $1 AND COALESCE(provider_type, '') = $2 AND program = $3
+      RETURNING id, name, version
+    `, [...scope, name, sourceKind, path.basename(zipPath), delta ? parentId : null]);
+    const ruleset: NcciRulesetStamp = { ...created.rows[0], program, data_type: spec.dataType, provider_type: providerType };
+
+    const { staged, rejected, rejectReport } = await stageNcciRows(client, spec, zipPath, parseRow, options.onProgress);
+    if (staged === 0) {
+      throw new Error(`No valid rows in ${path.basename(zipPath)}${rejected ? ` (${rejected} rejected, see ${rejectReport})` : ''}`);
+    }
 
-  // Insert new data using batch insert
-  if (bufferRows.length > 0) {
-    const values = bufferRows.map((row, index) => {
-      const baseIndex = index * 4;
-      return `($${baseIndex + 1}, $${baseIndex + 2}, $${baseIndex + 3}, $${baseIndex + 4})`;
-    }).join(', ');
-    
-    const insertQuery = `
-      INSERT INTO claim_forge.mue (hcpcs_cpt, mue_value, effective_date, service_type)
-      VALUES ${values}
-    `;
-    
-    const params = bufferRows.flatMap(row => [
-      row.hcpcs_cpt,
-      row.mue_value,
-      row.effective_date,
-      row.service_type
-    ]);
-    
-    await client.query(insertQuery, params);
-  }
-}
-
-async function ingestAOC(client: PoolClient, zipPath: string): Promise<void> {
-  const bufferRows: any[] = [];
-  await extractZipEntries(zipPath, (fileName, buf) => {
-    if (/\.xlsx?$/i.test(fileName)) {
-      const sheets = sheetToJson(buf);
-      sheets.forEach(({ rows }) => {
-        rows.forEach((r: any) => {
-          // Handle the actual column structure from CMS files
-          const addOn = (r['Add-On_Code'] || r['Add-on Code'] || r.AddOn || r['Addon Code'] || r['Add On Code'] || '').toString().trim();
-          const primary = (r['Primary_Code'] || r['Primary Code'] || r.Primary || r['Primary Procedure Code'] || '').toString().trim();
-          if (!addOn || !primary || addOn === 'Add-On_Code' || primary === 'Primary_Code') return; // Skip headers
-          const eff = (r['AOC_Edit_EffDT'] || r.EffectiveDate || r['Effective Date'] || '10-01-2025').toString().trim();
-          bufferRows.push({ addon_code: addOn, primary_code: primary, effective_date: eff || null });
-        });
-      });
+    if (delta) {
+      await client.query(`
+        INSERT INTO ${spec.table} (ruleset_id, ${spec.columns.join(', ')})
+        SELECT $1, ${spec.columns.join(', ')} FROM ${spec.table} WHERE ruleset_id = $2
+      `, [ruleset.id, parentId]);
+      await applyStagedDelta(client, spec, ruleset.id);
+    } else {
+      await insertStagedRows(client, spec, ruleset.id, ['base']);
     }
-  });
 
-      // Clear existing data
-      await client.query('DELETE FROM claim_forge.aoc');
+    const count = await client.query(`SELECT COUNT(*) AS c FROM ${spec.table} WHERE ruleset_id = $1`, [ruleset.id]);
+    const rowsLoaded = parseInt(count.rows[0].c, 10);
+    if (parentId) {
+      await client.query(`
+        UPDATE claim_forge.ncci_rulesets SET status = 'superseded', superseded_at = NOW()
+        WHERE id = $1
+      `, [parentId]);
+    }
+    await client.query(`
+      UPDATE claim_forge.ncci_rulesets
+      SET status = 'active', activated_at = NOW(), row_count = $2, rows_rejected = $3, reject_report = $4
+      WHERE id = $1
+    `, [ruleset.id, rowsLoaded, rejected, rejectReport]);
+    // Delivered on commit; processes holding a rule index reload it
+    await client.query('SELECT pg_notify($1, $2)', [NCCI_RULESETS_CHANNEL, String(ruleset.id)]);
+
+    await client.query('COMMIT');
+    clearNcciEditCache();
+    console.log(`✅ Ruleset "${ruleset.name}" v${ruleset.version} active (${rowsLoaded} rows, ${rejected} rejected)`);
+    return { ruleset, rows_loaded: rowsLoaded, rows_rejected: rejected, reject_report: rejectReport };
 
-  // Insert new data using batch insert
-  if (bufferRows.length > 0) {
-    const values = bufferRows.map((row, index) => {
-      const baseIndex = index * 3;
-      return `($${baseIndex + 1}, $${baseIndex + 2}, $${baseIndex + 3})`;
-    }).join(', ');
-    
-    const insertQuery = `
-      INSERT INTO claim_forge.aoc (addon_code, primary_code, effective_date)
-      VALUES ${values}
-    `;
-    
-    const params = bufferRows.flatMap(row => [
-      row.addon_code,
-      row.primary_code,
-      row.effective_date
-    ]);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    // Keep a record of the failed run; the previously active ruleset stays in use
+    await client.query(`
+      INSERT INTO claim_forge.ncci_rulesets (name, data_type, provider_type, program, version, status, source_kind, source_file, error_message)
+      SELECT $4, $1, NULLIF($2, ''), $3, COALESCE(MAX(version), 0) + 1, 'failed', $5, $6, $7
+      FROM claim_forge.ncci_rulesets
+      WHERE data_type = $1 AND COALESCE(provider_type, '') = $2 AND program = $3
+    `, [...scope, name, sourceKind, path.basename(zipPath), error instanceof Error ? error.message : String(error)])
+      .catch(recordError => console.error('❌ Failed to record failed NCCI ruleset:', recordError));
+    throw error;
+  }
+}
+
+/**
+ * Active ruleset versions that apply to a program and provider type. AOC rulesets apply to every
+ * provider type, and to Medicaid claims as well since Medicaid NCCI has no add-on code edits.
+ */
+async function getActiveRulesets(client: PoolClient, providerType: string, program: NcciProgram): Promise<NcciRulesetStamp[]> {
+  const result = await client.query(`
+    SELECT id, name, version, program, data_type, provider_type
+    FROM claim_forge.ncci_rulesets
+    WHERE status = 'active' AND (provider_type IS NULL OR provider_type = $1) AND (program = $2 OR data_type = 'aoc')
+    ORDER BY data_type, id
+  `, [providerType, program]);
+  return result.rows;
+}
+
+// Same selection as getActiveRulesets, over rulesets already in memory
+function rulesetAppliesTo(ruleset: NcciRulesetStamp, providerType: string, program: NcciProgram): boolean {
+  return (!ruleset.provider_type || ruleset.provider_type === providerType) && (ruleset.program === program || ruleset.data_type === 'aoc');
+}
+
+async function ingestPTP(
+  client: PoolClient,
+  zipPath: string,
+  providerType: string = 'hospital',
+  options: NcciIngestOptions = {}
+): Promise<NcciIngestResult> {
+  // Heuristics: find columns like Column1/Column2/ModifierIndicator in xlsx/csv.
+  const parseRow: NcciRowParser = (r, { source, fileEffectiveDate }) => {
+    // Handle the actual column structure from CMS files
+    const c1 = (r['Column 1'] || r.Column1 || r.C1 || r['HCPCS/CPT Code 1'] || '').toString().trim();
+    const c2 = (r['Column 2'] || r.Column2 || r.C2 || r['HCPCS/CPT Code 2'] || '').toString().trim();
+    if (!c1 || !c2 || c1 === 'Column 1' || c2 === 'Column 2') return null; // Skip headers
     
-    await client.query(insertQuery, params);
+    const mi = (r.ModifierIndicator || r.MI || pickColumn(r, /^modifier/i) || '').toString().trim();
+    return {
+      column1: c1, column2: c2,
+      modifier_indicator: mi || null,
+      effective_date: parseNcciDate(r.EffectiveDate || pickColumn(r, /^effective ?date/i)) || fileEffectiveDate,
+      deletion_date: parseNcciDate(r.DeletionDate || pickColumn(r, /^deletion ?date/i)),
+      provider_type: providerType,
+      source_file: source
+    };
+  };
+
+  return loadNcciRuleset(client, PTP_TABLE, zipPath, providerType, parseRow, options);
+}
+
+async function ingestMUE(
+  client: PoolClient,
+  zipPath: string,
+  serviceType: string = 'dme',
+  options: NcciIngestOptions = {}
+): Promise<NcciIngestResult> {
+  const parseRow: NcciRowParser = (r, { source, fileEffectiveDate }) => {
+    // Handle the actual column structure from CMS files
+    const code = (r['HCPCS/CPT Code'] || r.HCPCS || r['HCPCS Code'] || r['HCPCS/CPT'] || r.CPT || r.Code || '').toString().trim();
+    const mue = parseInt(r['DME Supplier Services MUE Values'] || r.MUE || r['MUE Value'] || r['Practitioner Services MUE'] || r['Outpatient Hospital Services MUE'], 10);
+    if (!code || code === 'HCPCS/CPT Code') return null; // Skip headers
+    // e.g. "3 Date of Service Edit: Clinical"
+    const mai = /^\s*([123])\b/.exec(String(r.MAI || pickColumn(r, /adjudication indicator/i) || ''));
+    const rationale = String(pickColumn(r, /rationale/i) || '').trim();
+    return {
+      hcpcs_cpt: code,
+      mue_value: mue,
+      mai: mai ? parseInt(mai[1], 10) : null,
+      rationale: rationale || null,
+      effective_date: parseNcciDate(r.EffectiveDate || pickColumn(r, /^effective ?date/i)) || fileEffectiveDate,
+      deletion_date: parseNcciDate(r.DeletionDate || pickColumn(r, /^deletion ?date/i)),
+      service_type: serviceType,
+      source_file: source
+    };
+  };
+
+  return loadNcciRuleset(client, MUE_TABLE, zipPath, serviceType, parseRow, options);
+}
+
+async function ingestAOC(client: PoolClient, zipPath: string, options: NcciIngestOptions = {}): Promise<NcciIngestResult> {
+  const parseRow: NcciRowParser = (r, { source, fileEffectiveDate }) => {
+    // Handle the actual column structure from CMS files
+    const addOn = (r['Add-On_Code'] || r['Add-on Code'] || r.AddOn || r['Addon Code'] || r['Add On Code'] || '').toString().trim();
+    const primary = (r['Primary_Code'] || r['Primary Code'] || r.Primary || r['Primary Procedure Code'] || '').toString().trim();
+    if (!addOn || !primary || addOn === 'Add-On_Code' || primary === 'Primary_Code') return null; // Skip headers
+    return {
+      addon_code: addOn,
+      primary_code: primary,
+      effective_date: parseNcciDate(r['AOC_Edit_EffDT'] || r.EffectiveDate || r['Effective Date']) || fileEffectiveDate,
+      // The edit ends when the edit, the add-on code or the primary code is deleted, whichever is first
+      deletion_date: [r['AOC_Edit_DelDT'] || r.DeletionDate || r['Deletion Date'], r['AOC_DelDT'], r['Primary_Code_DelDT']]
+        .map(parseNcciDate)
+        .filter((date): date is string => !!date)
+        .sort()[0] || null,
+      source_file: source
+    };
+  };
+
+  return loadNcciRuleset(client, AOC_TABLE, zipPath, null, parseRow, options);
+}
+
+/**
+ * Ingest a CMS PTP/MUE/AOC zip that is already on disk as a new ruleset version. Base files start
+ * a fresh ruleset; quarterly additions-deletions-revisions files are applied on top of the active one.
+ */
+export async function ingestNcciFile(
+  zipPath: string,
+  dataType: NcciDataType,
+  providerType: string = 'practitioner',
+  options: NcciIngestOptions = {}
+): Promise<NcciIngestResult> {
+  const client = await initDb();
+  try {
+    if (dataType === 'ptp') return await ingestPTP(client, zipPath, providerType, options);
+    if (dataType === 'mue') return await ingestMUE(client, zipPath, providerType, options);
+    return await ingestAOC(client, zipPath, options);
+  } finally {
+    client.release();
   }
 }
 
@@ -423,7 +867,7 @@ export async function buildLatest({ verbose = false } = {}): Promise<{ dbPath: s
 
   try {
     // find + download all CMS data types
-    const dataTypes = ['ptp_hospital', 'ptp_practitioner', 'mue_hospital', 'mue_practitioner', 'mue_dme', 'aoc'];
+    const dataTypes = Object.keys(CMS_PAGES);
     const latest: any = {};
     
     for (const dataType of dataTypes) {
@@ -455,6 +899,23 @@ export async function buildLatest({ verbose = false } = {}): Promise<{ dbPath: s
     if (latest.aoc && verbose) console.log('Ingesting AOC...');
     if (latest.aoc) await ingestAOC(client, latest.aoc);
 
+    // Medicaid edit sets load as their own rulesets next to Medicare's
+    const medicaid: NcciIngestOptions = { program: 'medicaid' };
+    if (latest.medicaid_ptp_hospital && verbose) console.log('Ingesting Medicaid Hospital PTP...');
+    if (latest.medicaid_ptp_hospital) await ingestPTP(client, latest.medicaid_ptp_hospital, 'hospital', medicaid);
+
+    if (latest.medicaid_ptp_practitioner && verbose) console.log('Ingesting Medicaid Practitioner PTP...');
+    if (latest.medicaid_ptp_practitioner) await ingestPTP(client, latest.medicaid_ptp_practitioner, 'practitioner', medicaid);
+
+    if (latest.medicaid_mue_hospital && verbose) console.log('Ingesting Medicaid Hospital MUE...');
+    if (latest.medicaid_mue_hospital) await ingestMUE(client, latest.medicaid_mue_hospital, 'hospital', medicaid);
+
+    if (latest.medicaid_mue_practitioner && verbose) console.log('Ingesting Medicaid Practitioner MUE...');
+    if (latest.medicaid_mue_practitioner) await ingestMUE(client, latest.medicaid_mue_practitioner, 'practitioner', medicaid);
+
+    if (latest.medicaid_mue_dme && verbose) console.log('Ingesting Medicaid DME MUE...');
+    if (latest.medicaid_mue_dme) await ingestMUE(client, latest.medicaid_mue_dme, 'dme', medicaid);
+
     if (verbose) {
       const ptpCount = await client.query('SELECT COUNT(*) AS c FROM claim_forge.ptp_edits');
       const mueCount = await client.query('SELECT COUNT(*) AS c FROM claim_forge.mue');
@@ -462,8 +923,16 @@ export async function buildLatest({ verbose = false } = {}): Promise<{ dbPath: s
       console.log(`PTP rows: ${ptpCount.rows[0].c}, MUE rows: ${mueCount.rows[0].c}, AOC rows: ${aocCount.rows[0].c}`);
       
       // Show provider type distribution
-      const ptpTypes = await client.query('SELECT provider_type, COUNT(*) AS c FROM claim_forge.ptp_edits GROUP BY provider_type');
-      const mueTypes = await client.query('SELECT service_type, COUNT(*) AS c FROM claim_forge.mue GROUP BY service_type');
+      const ptpTypes = await client.query(`
+        SELECT r.program, p.provider_type, COUNT(*) AS c FROM claim_forge.ptp_edits p
+        JOIN claim_forge.ncci_rulesets r ON r.id = p.ruleset_id AND r.status = 'active'
+        GROUP BY r.program, p.provider_type
+      `);
+      const mueTypes = await client.query(`
+        SELECT r.program, m.service_type, COUNT(*) AS c FROM claim_forge.mue m
+        JOIN claim_forge.ncci_rulesets r ON r.id = m.ruleset_id AND r.status = 'active'
+        GROUP BY r.program, m.service_type
+      `);
       console.log('PTP provider types:', ptpTypes.rows);
       console.log('MUE service types:', mueTypes.rows);
     }
@@ -475,296 +944,716 @@ export async function buildLatest({ verbose = false } = {}): Promise<{ dbPath: s
 }
 
 // -------------------------------
-// Helper Functions
+// Public: offline import (no network)
 // -------------------------------
-async function getDbClient(): Promise<PoolClient> {
-  return await pool.connect();
+// Air-gapped environments cannot scrape cms.gov. They import a directory of zips that were
+// downloaded elsewhere, verified against a sha256sum-style manifest ("<sha256>  <file name>").
+export const NCCI_MANIFEST_FILE = 'SHA256SUMS';
+
+export interface NcciFileKind {
+  program: NcciProgram;
+  dataType: NcciDataType;
+  providerType: string | null;
 }
 
-// Validate modifier syntax and appropriateness
-function validateModifiers(modifiers: string[]): ValidationIssue[] {
-  const issues: ValidationIssue[] = [];
-  
-  // Valid modifier patterns
-  const validModifierPattern = /^[A-Z0-9]{2}$/;
-  const numericModifiers = /^[0-9]{2}$/;
-  const alphaModifiers = /^[A-Z]{2}$/;
-  
-  for (const modifier of modifiers) {
-    // Check format
-    if (!validModifierPattern.test(modifier)) {
-      issues.push({
-        type: 'MODIFIER_INVALID',
-        message: `Invalid modifier format: ${modifier}. Modifiers must be 2 alphanumeric characters.`,
-        data: { modifier }
-      });
+export interface NcciImportFile {
+  file: string;
+  kind: NcciFileKind | null;
+  delta: boolean;
+  effective_date: string | null;
+  status: 'pending' | 'ingested' | 'skipped';
+  reason?: string;
+  result?: NcciIngestResult;
+}
+
+export interface NcciImportOptions extends NcciIngestOptions {
+  manifestPath?: string;
+  dryRun?: boolean;
+}
+
+const NCCI_PROVIDER_PATTERNS: Array<[string, RegExp]> = [
+  ['practitioner', /practitioner|ccipra/i],
+  ['hospital', /hospital|outpatient|ccioph/i],
+  ['dme', /\bdme|dme[-_\s]|supplier/i]
+];
+
+// Kind from file names or sheet headers, e.g. "MCR_MUE_PractitionerServices_Eff_10-01-2025.zip";
+// Medicaid files carry "Medicaid" or "MCD" where Medicare files carry "MCR"
+function detectNcciKindFromText(text: string): NcciFileKind | null {
+  const dataType: NcciDataType | null =
+    /\baoc|aoc[-_\s]|add[-_\s]*on|add[-_\s]*code/i.test(text) ? 'aoc'
+      : /mue|medically[-_\s]*unlikely/i.test(text) ? 'mue'
+        : /ptp|ccipra|ccioph|procedure[-_\s]*to[-_\s]*procedure|column\s*1/i.test(text) ? 'ptp'
+          : null;
+  if (!dataType) return null;
+  const program: NcciProgram = /medicaid|(?:^|[^a-z])mcd(?:[^a-z]|$)/i.test(text) ? 'medicaid' : 'medicare';
+  if (dataType === 'aoc') return { program: 'medicare', dataType, providerType: null };
+
+  const provider = NCCI_PROVIDER_PATTERNS.find(([, pattern]) => pattern.test(text));
+  return provider ? { program, dataType, providerType: provider[0] } : null;
+}
+
+/**
+ * Work out what a CMS zip holds from its name, falling back to the names of its entries and then the
+ * header row of its first sheet. Returns null when the kind or provider type cannot be determined.
+ */
+export async function detectNcciFileKind(zipPath: string): Promise<NcciFileKind | null> {
+  let text = path.basename(zipPath);
+  const fromName = detectNcciKindFromText(text);
+  if (fromName) return fromName;
+
+  const directory = await unzipper.Open.file(zipPath);
+  const sheets = directory.files.filter(file => file.type === 'File' && /\.xlsx?$/i.test(file.path));
+  text += ' ' + sheets.map(file => path.basename(file.path)).join(' ');
+  const fromEntries = detectNcciKindFromText(text);
+  if (fromEntries || sheets.length === 0) return fromEntries;
+
+  // Only parse the first few rows; full PTP workbooks are large
+  const workbook = XLSX.read(await sheets[0].buffer(), { type: 'buffer', sheetRows: 3 });
+  const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
+  const headers = firstSheet ? (XLSX.utils.sheet_to_json(firstSheet, { header: 1, range: 1, raw: false })[0] as string[] || []) : [];
+  return detectNcciKindFromText(`${text} ${headers.join(' ')}`);
+}
+
+async function sha256File(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  await new Promise<void>((resolve, reject) => {
+    fs.createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve())
+      .on('error', reject);
+  });
+  return hash.digest('hex');
+}
+
+// Parse "<sha256>  <file name>" lines (sha256sum output; "*" marks binary mode)
+function readNcciManifest(manifestPath: string): Map<string, string> {
+  const checksums = new Map<string, string>();
+  fs.readFileSync(manifestPath, 'utf8').split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim() || line.trim().startsWith('#')) return;
+    const match = /^([a-f0-9]{64})\s+\*?(.+)$/i.exec(line.trim());
+    if (!match) {
+      throw new Error(`Invalid checksum manifest line ${index + 1} in ${manifestPath}: ${line}`);
+    }
+    checksums.set(path.basename(match[2].trim()), match[1].toLowerCase());
+  });
+  return checksums;
+}
+
+/**
+ * Write a manifest for every zip in a directory, for copying alongside the files into an offline environment
+ */
+export async function writeNcciManifest(dir: string, manifestPath: string = path.join(dir, NCCI_MANIFEST_FILE)): Promise<string> {
+  const zips = fs.readdirSync(dir).filter(name => /\.zip$/i.test(name)).sort();
+  const lines: string[] = [];
+  for (const name of zips) {
+    lines.push(`${await sha256File(path.join(dir, name))}  ${name}`);
+  }
+  fs.writeFileSync(manifestPath, lines.join('\n') + '\n');
+  return manifestPath;
+}
+
+/**
+ * Import previously downloaded CMS zips from a directory without network access. Every zip must match
+ * the checksum manifest before anything is loaded; zips not listed in it are skipped. Files load oldest
+ * first with base files ahead of deltas for the same date, so the newest release ends up active.
+ * Loading stops at the first failure; files loaded before it stay loaded.
+ */
+export async function importNcciDirectory(dir: string, options: NcciImportOptions = {}): Promise<NcciImportFile[]> {
+  const manifestPath = options.manifestPath || path.join(dir, NCCI_MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`Checksum manifest not found: ${manifestPath}. Create it where the files were downloaded (sha256sum *.zip > ${NCCI_MANIFEST_FILE}).`);
+  }
+
+  const checksums = readNcciManifest(manifestPath);
+  const zips = fs.readdirSync(dir).filter(name => /\.zip$/i.test(name)).sort();
+  const problems = [...checksums.keys()]
+    .filter(name => !zips.includes(name))
+    .map(name => `${name}: listed in the manifest but missing`);
+
+  const files: NcciImportFile[] = [];
+  for (const name of zips) {
+    const zipPath = path.join(dir, name);
+    const file: NcciImportFile = {
+      file: name,
+      kind: null,
+      delta: isNcciDeltaFile(name),
+      effective_date: getNcciFileEffectiveDate(name),
+      status: 'pending'
+    };
+    files.push(file);
+
+    const expected = checksums.get(name);
+    if (!expected) {
+      Object.assign(file, { status: 'skipped', reason: 'Not listed in the checksum manifest' });
       continue;
     }
-    
-    // Check for inappropriate combinations (basic rules)
-    const upperModifier = modifier.toUpperCase();
-    
-    // Anatomical modifiers (E1-E4, FA-F9, LC, LD, RC, RT, etc.) should not be used together
-    const anatomicalModifiers = ['E1', 'E2', 'E3', 'E4', 'FA', 'F1', 'F2', 'F3', 'F4', 'F5', 'F6', 'F7', 'F8', 'F9', 'LC', 'LD', 'RC', 'RT', 'LT', '50', '51', '52', '53', '54', '55', '56', '57', '58', '59', '62', '63', '66', '76', '77', '78', '79', '80', '81', '82'];
-    
-    if (anatomicalModifiers.includes(upperModifier)) {
-      // Check for conflicting anatomical modifiers (only check once per pair)
-      const conflictingModifiers = modifiers.filter(m => m !== modifier && anatomicalModifiers.includes(m.toUpperCase()));
-      if (conflictingModifiers.length > 0 && modifiers.indexOf(modifier) < modifiers.indexOf(conflictingModifiers[0])) {
-        issues.push({
-          type: 'MODIFIER_INAPPROPRIATE',
-          message: `Inappropriate modifier combination: ${modifier} conflicts with ${conflictingModifiers.join(', ')}`,
-          data: { modifier, conflictingModifiers }
-        });
-      }
+    if (await sha256File(zipPath) !== expected) {
+      problems.push(`${name}: checksum does not match the manifest`);
+      continue;
+    }
+
+    file.kind = await detectNcciFileKind(zipPath);
+    if (!file.kind) {
+      Object.assign(file, { status: 'skipped', reason: 'Cannot tell PTP/MUE/AOC or provider type from the file name or contents' });
     }
   }
-  
-  return issues;
+
+  if (problems.length > 0) {
+    throw new Error(`Checksum verification failed, nothing was imported:\n  ${problems.join('\n  ')}`);
+  }
+
+  const toLoad = files
+    .filter(file => file.status === 'pending')
+    .sort((a, b) => (a.effective_date || '').localeCompare(b.effective_date || '') || Number(a.delta) - Number(b.delta));
+  files.filter(file => file.status === 'skipped').forEach(file => console.warn(`⚠️  Skipping ${file.file}: ${file.reason}`));
+
+  for (const file of toLoad) {
+    const { program, dataType, providerType } = file.kind!;
+    console.log(`📦 ${file.file}: ${program} ${dataType.toUpperCase()}${providerType ? ` ${providerType}` : ''} ${file.delta ? 'delta' : 'base'}`);
+    if (options.dryRun) continue;
+
+    file.result = await ingestNcciFile(path.join(dir, file.file), dataType, providerType || undefined, { ...options, program });
+    file.status = 'ingested';
+  }
+
+  return files;
 }
 
-// Validate place of service codes
-function validatePlaceOfService(pos: string): ValidationIssue[] {
-  const issues: ValidationIssue[] = [];
-  
-  if (!pos) return issues;
-  
-  // Valid POS codes (simplified list)
-  const validPOSCodes = [
-    '01', '02', '03', '04', '05', '06', '07', '08', '09', '10', '11', '12', '13', '14', '15', '16', '17', '18', '19', '20',
-    '21', '22', '23', '24', '25', '26', '31', '32', '33', '34', '41', '42', '49', '50', '51', '52', '53', '54', '55', '56',
-    '57', '58', '59', '60', '61', '62', '65', '71', '72', '81', '82', '99'
-  ];
-  
-  if (!validPOSCodes.includes(pos)) {
-    issues.push({
-      type: 'POS_INVALID',
-      message: `Invalid place of service code: ${pos}`,
-      data: { pos }
-    });
+// -------------------------------
+// Helper Functions
+// -------------------------------
+async function getDbClient(): Promise<PoolClient> {
+  return await pool.connect();
+}
+
+// Modifier catalog (claim_forge.modifiers / modifier_exclusions); small, so it is cached per process
+const MODIFIER_CATALOG_TTL_MS = 10 * 60 * 1000;
+
+let modifierCatalog: ModifierCatalog | null = null;
+
+async function getModifierCatalog(): Promise<ModifierCatalog> {
+  if (modifierCatalog && Date.now() - modifierCatalog.loadedAt < MODIFIER_CATALOG_TTL_MS) {
+    return modifierCatalog;
   }
-  
-  return issues;
+
+  const catalog: ModifierCatalog = { modifiers: new Map(), exclusions: new Map(), loadedAt: Date.now() };
+  try {
+    const modifiers = await pool.query(`
+      SELECT code, category, description,
+        to_char(effective_date, 'YYYY-MM-DD') AS effective_date, to_char(deletion_date, 'YYYY-MM-DD') AS deletion_date
+      FROM claim_forge.modifiers
+    `);
+    modifiers.rows.forEach(row => catalog.modifiers.set(row.code, [...(catalog.modifiers.get(row.code) || []), row]));
+
+    const exclusions = await pool.query('SELECT modifier_a, modifier_b, reason FROM claim_forge.modifier_exclusions');
+    exclusions.rows.forEach(row => catalog.exclusions.set(`${row.modifier_a}|${row.modifier_b}`, row.reason));
+  } catch (error) {
+    // Without the catalog (migration not applied) only the format check runs
+    console.warn('⚠️  Modifier catalog unavailable; checking modifier format only:', error instanceof Error ? error.message : error);
+  }
+
+  modifierCatalog = catalog;
+  return catalog;
 }
 
-// Validate revenue codes
-function validateRevenueCodes(revenueCodes: string[]): ValidationIssue[] {
-  const issues: ValidationIssue[] = [];
-  
-  if (!revenueCodes || revenueCodes.length === 0) return issues;
-  
-  for (const code of revenueCodes) {
-    // Revenue codes should be 3 digits
-    if (!/^[0-9]{3}$/.test(code)) {
-      issues.push({
-        type: 'REVENUE_CODE_INVALID',
-        message: `Invalid revenue code format: ${code}. Revenue codes must be 3 digits.`,
-        data: { code }
-      });
-    }
+// Claim lines from service_lines, or one line per distinct code from the flat cpt_codes/units fields
+function getClaimLines(claim: ClaimValidationInput, codes: string[], dateOfService: string): ClaimLine[] {
+  if (claim.service_lines && claim.service_lines.length > 0) {
+    return claim.service_lines.map((line, index) => ({
+      line: index + 1,
+      code: line.code.trim(),
+      units: line.units || 1,
+      date_of_service: line.date_of_service || dateOfService,
+      modifiers: line.modifiers || [],
+      diagnosis_pointers: line.diagnosis_pointers || []
+    }));
   }
-  
-  return issues;
+  return [...new Set(codes)].map((code, index) => ({
+    line: index + 1,
+    code,
+    units: claim.units && claim.units[code] ? claim.units[code] : 1,
+    date_of_service: dateOfService,
+    modifiers: [],
+    diagnosis_pointers: []
+  }));
 }
 
-// Note: AI clinical validation has been moved to the Sanity Check Agent
+// SQL condition for an edit row that applies on the date of service bound to `param`
+const ACTIVE_ON_DOS = (param: string) =>
+  `(effective_date IS NULL OR effective_date <= ${param}::date) AND (deletion_date IS NULL OR deletion_date > ${param}::date)`;
 
-// Check effective dates
-async function validateEffectiveDates(client: PoolClient, claimDate: Date, providerType: string): Promise<ValidationIssue[]> {
-  const issues: ValidationIssue[] = [];
-  
+// Whether any PTP or MUE edit for the provider type is in force on the date of service
+async function hasEditsInForce(client: PoolClient, dateOfService: string, providerType: string, rulesetIds: number[]): Promise<boolean> {
   try {
-    // Check if claim date is before any effective dates (rules not yet in effect)
-    const pastRules = await client.query(`
-      SELECT COUNT(*) as count 
-      FROM (
-        SELECT effective_date FROM claim_forge.ptp_edits WHERE provider_type = $1 AND effective_date > $2
-        UNION
-        SELECT effective_date FROM claim_forge.mue WHERE service_type = $1 AND effective_date > $2
-        UNION  
-        SELECT effective_date FROM claim_forge.aoc WHERE effective_date > $2
-      ) all_dates
-    `, [providerType, claimDate.toISOString().split('T')[0]]);
-    
-    if (parseInt(pastRules.rows[0].count) > 0) {
-      issues.push({
-        type: 'EFFECTIVE_DATE_INVALID',
-        message: 'Some validation rules are not yet in effect for this claim date.',
-        data: { futureRuleCount: pastRules.rows[0].count }
-      });
-    }
+    const activeRules = await client.query(`
+      SELECT
+        EXISTS (SELECT 1 FROM claim_forge.ptp_edits WHERE provider_type = $1 AND ruleset_id = ANY($3::int[]) AND ${ACTIVE_ON_DOS('$2')}) AS has_ptp,
+        EXISTS (SELECT 1 FROM claim_forge.mue WHERE service_type = $1 AND ruleset_id = ANY($3::int[]) AND ${ACTIVE_ON_DOS('$2')}) AS has_mue
+    `, [providerType, dateOfService, rulesetIds]);
+
+    const { has_ptp, has_mue } = activeRules.rows[0];
+    return has_ptp || has_mue;
   } catch (error) {
     // Ignore date validation errors for now
+    return true;
   }
-  
-  return issues;
 }
 
+// -------------------------------
+// Claim edit lookups
+// -------------------------------
+// All edits a claim needs are fetched with three set-based queries (AOC and MUE by code, PTP by
+// ordered code pair) instead of one query per code and per pair.
+
+const NCCI_EDIT_CACHE_SIZE = parseInt(process.env.NCCI_EDIT_CACHE_SIZE || '0', 10);
+const NCCI_EDIT_CACHE_TTL_MS = parseInt(process.env.NCCI_EDIT_CACHE_TTL_MS || '3600000', 10);
+
 /**
- * Validate a claim against CMS/NCCI rules
+ * Optional LRU of edit lookups, misses included. Keys carry the active ruleset ids, so a newly
+ * loaded ruleset is never answered from entries cached for the previous one.
  */
-export async function validateClaim(claim: ClaimValidationInput, { providerType = 'practitioner' } = {}): Promise<ValidationResult> {
-  const client = await getDbClient();
-  const errors: ValidationIssue[] = [];
-  const warnings: ValidationIssue[] = [];
-  const passes: ValidationIssue[] = [];
+class NcciEditCache {
+  private entries = new Map<string, { value: any; expiresAt: number }>();
 
-  try {
-    const cptList = (claim.cpt_codes || []).map(code => ({ code: code.trim() }))
-                                     .filter(c => !!c.code);
-    const icdList = (claim.icd10_codes || []).map(s => s.trim()).filter(Boolean);
-    
-    // Use claim provider type if provided, otherwise use parameter
-    const actualProviderType = claim.provider_type || providerType;
-    
-    // Validate claim date
-    const claimDate = claim.claim_date ? new Date(claim.claim_date) : new Date();
-
-    // 0) Basic format validations
-    const modifierIssues = validateModifiers(claim.modifiers || []);
-    errors.push(...modifierIssues.filter(i => i.type === 'MODIFIER_INVALID'));
-    warnings.push(...modifierIssues.filter(i => i.type === 'MODIFIER_INAPPROPRIATE'));
-    
-    const posIssues = validatePlaceOfService(claim.place_of_service || '');
-    errors.push(...posIssues);
-    
-    const revenueIssues = validateRevenueCodes(claim.revenue_codes || []);
-    errors.push(...revenueIssues);
-    
-    const dateIssues = await validateEffectiveDates(client, claimDate, actualProviderType);
-    warnings.push(...dateIssues);
-    
-    // Note: AI clinical validation is now handled by the Sanity Check Agent
+  constructor(private maxEntries: number, private ttlMs: number) {}
 
-    // 1) ICD sanity (format only)
-    const icdBad = icdList.filter(code => !/^[A-TV-Z][0-9][0-9A-Z](?:\.[0-9A-Z]{1,4})?$/.test(code));
-    if (icdBad.length) {
-      errors.push({ type: 'ICD_FORMAT', message: `Invalid ICD-10-CM format: ${icdBad.join(', ')}`, data: icdBad });
-    } else {
-      passes.push({ type: 'ICD_FORMAT', message: 'ICD-10-CM codes are syntactically valid.' });
+  get<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt < Date.now()) {
+      this.entries.delete(key);
+      return undefined;
     }
+    // Re-insert so Map order tracks recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
 
-        // 2) AOC: ensure add-on codes have a required primary code present
-        for (const c of cptList) {
-          const aocResult = await client.query('SELECT addon_code, primary_code FROM claim_forge.aoc WHERE addon_code = $1', [c.code]);
-      const aocRows = aocResult.rows as Array<{ addon_code: string; primary_code: string }>;
-      if (aocRows.length) {
-        const primaries = new Set(cptList.map(x => x.code));
-        const ok = aocRows.some(r => primaries.has(r.primary_code));
-        if (!ok) {
-          errors.push({
-            type: 'AOC_PRIMARY_MISSING',
-            message: `Add-on code ${c.code} requires an allowed primary code (${[...new Set(aocRows.map(r => r.primary_code))].join(', ')}) on the same claim.`,
-            data: { addon: c.code, requiredPrimaries: [...new Set(aocRows.map(r => r.primary_code))] }
-          });
-        } else {
-          passes.push({ type: 'AOC', message: `Add-on code ${c.code}: primary present.` });
-        }
-      }
+  set(key: string, value: any): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
     }
+  }
 
-        // 3) MUE: check units with actual units from claim
-        for (const c of cptList) {
-          const mueResult = await client.query('SELECT mue_value FROM claim_forge.mue WHERE hcpcs_cpt = $1 AND (service_type IS NULL OR service_type = $2)', [c.code, actualProviderType]);
-      const row = mueResult.rows[0] as { mue_value: number } | undefined;
-      if (row && Number.isFinite(row.mue_value)) {
-        // Use actual units from claim if provided, otherwise default to 1
-        const units = claim.units && claim.units[c.code] ? claim.units[c.code] : 1;
-        if (units > row.mue_value) {
-          errors.push({
-            type: 'MUE_EXCEEDED',
-            message: `CPT ${c.code} units ${units} exceed MUE limit ${row.mue_value} for ${actualProviderType}.`,
-            data: { code: c.code, units, mue: row.mue_value }
-          });
-        } else {
-          passes.push({ type: 'MUE', message: `CPT ${c.code} units=${units} within MUE limit (${row.mue_value}).` });
-        }
-      }
-    }
+  clear(): void {
+    this.entries.clear();
+  }
+}
 
-    // 4) PTP: disallowed pairs unless modifier allows (simplified)
-    const presentCodes = cptList.map(c => c.code);
-    for (let i = 0; i < presentCodes.length; i++) {
-      for (let j = 0; j < presentCodes.length; j++) {
-        if (i === j) continue;
-        const c1 = presentCodes[i], c2 = presentCodes[j];
-            const ptpResult = await client.query(`
-              SELECT modifier_indicator
-              FROM claim_forge.ptp_edits
-              WHERE column1 = $1 AND column2 = $2 AND (provider_type IS NULL OR provider_type = $3)
-            `, [c1, c2, actualProviderType]);
-        
-        const row = ptpResult.rows[0] as { modifier_indicator: string } | undefined;
-        if (!row) continue;
+const ncciEditCache = NCCI_EDIT_CACHE_SIZE > 0 ? new NcciEditCache(NCCI_EDIT_CACHE_SIZE, NCCI_EDIT_CACHE_TTL_MS) : null;
 
-        const indicator = (row.modifier_indicator || '').trim();
-        const modifiers = claim.modifiers || [];
-
-        if (indicator === '0' || indicator === 'N') {
-          errors.push({
-            type: 'PTP_BLOCKED',
-            message: `PTP edit blocks billing ${c1}+${c2} together for ${actualProviderType} (modifier indicator ${indicator}).`,
-            data: { c1, c2, indicator }
-          });
-        } else if (indicator === '1' || indicator === 'Y') {
-          // Check if appropriate bypass modifier present
-          const allowedMods = new Set(['59', 'XE', 'XP', 'XS', 'XU']);
-          const mods = new Set(modifiers.map(m => m.toUpperCase()));
-          const ok = [...allowedMods].some(m => mods.has(m));
-          if (!ok) {
-            errors.push({
-              type: 'PTP_NEEDS_MODIFIER',
-              message: `PTP edit for ${c1}+${c2} requires a bypass modifier (59/X{EPSU}).`,
-              data: { c1, c2, requiredModifiers: ['59','XE','XP','XS','XU'] }
-            });
-          } else {
-            passes.push({ type: 'PTP_BYPASSED', message: `PTP edit for ${c1}+${c2} bypassed by modifier.` });
-          }
-        } else {
-          // Unknown indicator => conservative
-          warnings.push({
-            type: 'PTP_UNKNOWN_INDICATOR',
-            message: `PTP ${c1}+${c2} has unrecognized modifier indicator "${indicator}". Treating as potential conflict.`,
-            data: { c1, c2, indicator }
-          });
-        }
+/**
+ * Drop every cached edit lookup
+ */
+export function clearNcciEditCache(): void {
+  ncciEditCache?.clear();
+}
+
+// Look keys up in the cache and return the ones that still need a query
+function cachedLookups<T>(prefix: string, keys: string[], found: Map<string, T>): string[] {
+  if (!ncciEditCache) return keys;
+  return keys.filter(key => {
+    const value = ncciEditCache.get<T | null>(`${prefix}${key}`);
+    if (value === undefined) return true;
+    if (value !== null) found.set(key, value);
+    return false;
+  });
+}
+
+// Cache query results, remembering misses as null so they are not queried again
+function cacheLookups<T>(prefix: string, keys: string[], found: Map<string, T>): void {
+  if (!ncciEditCache) return;
+  keys.forEach(key => ncciEditCache.set(`${prefix}${key}`, found.has(key) ? found.get(key) : null));
+}
+
+async function loadClaimEdits(
+  client: PoolClient,
+  codes: string[],
+  providerType: string,
+  dateOfService: string,
+  rulesetIds: number[]
+): Promise<NcciClaimEdits> {
+  const edits: NcciClaimEdits = { aoc: new Map(), mue: new Map(), ptp: new Map() };
+  const uniqueCodes = [...new Set(codes)];
+  const pairs = uniqueCodes.flatMap(c1 => uniqueCodes.filter(c2 => c2 !== c1).map(c2 => `${c1}|${c2}`));
+  const prefix = `${rulesetIds.join(',')}:${providerType}:${dateOfService}:`;
+
+  const aocMisses = cachedLookups(`${prefix}aoc:`, uniqueCodes, edits.aoc);
+  if (aocMisses.length > 0) {
+    const result = await client.query(`
+      SELECT addon_code, primary_code FROM claim_forge.aoc
+      WHERE addon_code = ANY($1::text[]) AND ruleset_id = ANY($3::int[]) AND ${ACTIVE_ON_DOS('$2')}
+    `, [aocMisses, dateOfService, rulesetIds]);
+    result.rows.forEach(row => {
+      edits.aoc.set(row.addon_code, [...(edits.aoc.get(row.addon_code) || []), row.primary_code]);
+    });
+    cacheLookups(`${prefix}aoc:`, aocMisses, edits.aoc);
+  }
+
+  const mueMisses = cachedLookups(`${prefix}mue:`, uniqueCodes, edits.mue);
+  if (mueMisses.length > 0) {
+    const result = await client.query(`
+      SELECT DISTINCT ON (hcpcs_cpt) hcpcs_cpt, mue_value, mai, rationale FROM claim_forge.mue
+      WHERE hcpcs_cpt = ANY($1::text[]) AND (service_type IS NULL OR service_type = $2) AND ${ACTIVE_ON_DOS('$3')}
+        AND ruleset_id = ANY($4::int[])
+      ORDER BY hcpcs_cpt, effective_date DESC NULLS LAST
+    `, [mueMisses, providerType, dateOfService, rulesetIds]);
+    result.rows.forEach(row => edits.mue.set(row.hcpcs_cpt, { value: row.mue_value, mai: row.mai, rationale: row.rationale }));
+    cacheLookups(`${prefix}mue:`, mueMisses, edits.mue);
+  }
+
+  const ptpMisses = cachedLookups(`${prefix}ptp:`, pairs, edits.ptp);
+  if (ptpMisses.length > 0) {
+    const result = await client.query(`
+      SELECT DISTINCT ON (p.column1, p.column2) p.column1, p.column2, p.modifier_indicator
+      FROM claim_forge.ptp_edits p
+      JOIN unnest($1::text[], $2::text[]) AS pair(column1, column2)
+        ON p.column1 = pair.column1 AND p.column2 = pair.column2
+      WHERE (p.provider_type IS NULL OR p.provider_type = $3) AND p.ruleset_id = ANY($5::int[])
+        AND (p.effective_date IS NULL OR p.effective_date <= $4::date)
+        AND (p.deletion_date IS NULL OR p.deletion_date > $4::date)
+      ORDER BY p.column1, p.column2, p.effective_date DESC NULLS LAST
+    `, [ptpMisses.map(pair => pair.split('|')[0]), ptpMisses.map(pair => pair.split('|')[1]), providerType, dateOfService, rulesetIds]);
+    result.rows.forEach(row => edits.ptp.set(`${row.column1}|${row.column2}`, row.modifier_indicator || ''));
+    cacheLookups(`${prefix}ptp:`, ptpMisses, edits.ptp);
+  }
+
+  return edits;
+}
+
+// -------------------------------
+// In-memory rule index
+// -------------------------------
+// With NCCI_RULE_INDEX=true the API process keeps the active PTP, MUE and AOC rulesets in compact maps,
+// so claim checks never touch the database. Postgres stays the system of record: every ruleset load sends
+// a NOTIFY, and each process holding an index rebuilds it in the background and swaps it in.
+
+export const NCCI_RULESETS_CHANNEL = 'ncci_rulesets_changed';
+const NCCI_INDEX_PAGE_SIZE = 50000;
+const NCCI_INDEX_RETRY_MS = 5000;
+// Dates are stored as days since 1970-01-01; open-ended ranges use these bounds
+const NO_EFFECTIVE_DATE = -1;
+const NO_DELETION_DATE = 0x7fffffff;
+
+interface NcciCoverage {
+  start: number;
+  end: number;
+}
+
+// Each map value packs one [effective, deletion, value] triple per version of the edit
+interface NcciRuleIndexData {
+  rulesets: NcciRulesetStamp[];
+  ptp: Map<string, number[]>;              // "program|provider|column1|column2" -> [..., modifier indicator char code]
+  mue: Map<string, number[]>;              // "program|service|code" -> [..., position in mueEdits]
+  mueEdits: NcciMueEdit[];                 // Distinct MUE value/MAI/rationale combinations
+  aoc: Map<string, Array<[string, number, number]>>; // add-on code -> [primary, effective, deletion]
+  coverage: Map<string, NcciCoverage>;     // "ptp|program|provider" / "mue|program|service" -> first effective to last deletion day
+  loadedAt: Date;
+  loadMs: number;
+}
+
+export interface NcciRuleIndexStatus {
+  enabled: boolean;
+  loaded: boolean;
+  loaded_at: Date | null;
+  load_ms: number | null;
+  rulesets: NcciRulesetStamp[];
+  entries: { ptp: number; mue: number; aoc: number };
+}
+
+let ncciRuleIndex: NcciRuleIndexData | null = null;
+let ncciRuleIndexReload: Promise<void> | null = null;
+let ncciRuleIndexReloadPending = false;
+let ncciRuleIndexListener: PoolClient | null = null;
+
+const toDay = (date: string) => Math.floor(Date.parse(`${date}T00:00:00Z`) / 86400000);
+
+function widenCoverage(coverage: Map<string, NcciCoverage>, key: string, effective: number, deletion: number): void {
+  const current = coverage.get(key);
+  coverage.set(key, {
+    start: Math.min(current ? current.start : effective, effective),
+    end: Math.max(current ? current.end : deletion, deletion)
+  });
+}
+
+// Page through a ruleset table by id so the whole table is never one result set
+async function scanRulesetRows(client: PoolClient, table: string, columns: string, rulesetIds: number[], onRow: (row: any) => void): Promise<void> {
+  let afterId = 0;
+  while (true) {
+    const result = await client.query(`
+      SELECT id, ${columns},
+        COALESCE(effective_date - DATE '1970-01-01', ${NO_EFFECTIVE_DATE}) AS effective_day,
+        COALESCE(deletion_date - DATE '1970-01-01', ${NO_DELETION_DATE}) AS deletion_day
+      FROM ${table}
+      WHERE ruleset_id = ANY($1::int[]) AND id > $2
+      ORDER BY id
+      LIMIT ${NCCI_INDEX_PAGE_SIZE}
+    `, [rulesetIds, afterId]);
+    if (result.rows.length === 0) return;
+    result.rows.forEach(onRow);
+    afterId = result.rows[result.rows.length - 1].id;
+  }
+}
+
+async function buildNcciRuleIndex(): Promise<NcciRuleIndexData> {
+  const started = Date.now();
+  const client = await pool.connect();
+  try {
+    const activeRulesets = await client.query(`
+      SELECT id, name, version, program, data_type, provider_type
+      FROM claim_forge.ncci_rulesets
+      WHERE status = 'active'
+      ORDER BY data_type, id
+    `);
+    const rulesets: NcciRulesetStamp[] = activeRulesets.rows;
+    const rulesetIds = (dataType: NcciDataType) => rulesets.filter(r => r.data_type === dataType).map(r => r.id);
+    const programs = new Map(rulesets.map(r => [r.id, r.program]));
+    const index: NcciRuleIndexData = {
+      rulesets, ptp: new Map(), mue: new Map(), mueEdits: [], aoc: new Map(), coverage: new Map(), loadedAt: new Date(), loadMs: 0
+    };
+    const mueEditPositions = new Map<string, number>();
+    const push = (map: Map<string, number[]>, key: string, values: number[]) => {
+      const existing = map.get(key);
+      if (existing) existing.push(...values);
+      else map.set(key, values);
+    };
+
+    await scanRulesetRows(client, 'claim_forge.ptp_edits', 'ruleset_id, column1, column2, modifier_indicator, provider_type', rulesetIds('ptp'), row => {
+      const indicator = (row.modifier_indicator || '').trim();
+      const scope = `${programs.get(row.ruleset_id)}|${row.provider_type || ''}`;
+      push(index.ptp, `${scope}|${row.column1}|${row.column2}`,
+        [row.effective_day, row.deletion_day, indicator ? indicator.charCodeAt(0) : 0]);
+      widenCoverage(index.coverage, `ptp|${scope}`, row.effective_day, row.deletion_day);
+    });
+
+    await scanRulesetRows(client, 'claim_forge.mue', 'ruleset_id, hcpcs_cpt, mue_value, mai, rationale, service_type', rulesetIds('mue'), row => {
+      const scope = `${programs.get(row.ruleset_id)}|${row.service_type || ''}`;
+      // Far fewer value/MAI/rationale combinations exist than rows, so rows point at a shared copy
+      const editKey = `${row.mue_value}|${row.mai}|${row.rationale}`;
+      let position = mueEditPositions.get(editKey);
+      if (position === undefined) {
+        position = index.mueEdits.push({ value: row.mue_value, mai: row.mai, rationale: row.rationale }) - 1;
+        mueEditPositions.set(editKey, position);
       }
+      push(index.mue, `${scope}|${row.hcpcs_cpt}`, [row.effective_day, row.deletion_day, position]);
+      widenCoverage(index.coverage, `mue|${scope}`, row.effective_day, row.deletion_day);
+    });
+
+    await scanRulesetRows(client, 'claim_forge.aoc', 'addon_code, primary_code', rulesetIds('aoc'), row => {
+      const primaries = index.aoc.get(row.addon_code) || [];
+      primaries.push([row.primary_code, row.effective_day, row.deletion_day]);
+      index.aoc.set(row.addon_code, primaries);
+    });
+
+    index.loadMs = Date.now() - started;
+    return index;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Rebuild the rule index and swap it in. Validation keeps using the previous index until the new one is
+ * complete; reload requests that arrive mid-build trigger one more build afterwards.
+ */
+export async function reloadNcciRuleIndex(): Promise<void> {
+  if (ncciRuleIndexReload) {
+    ncciRuleIndexReloadPending = true;
+    return ncciRuleIndexReload;
+  }
+
+  ncciRuleIndexReload = (async () => {
+    do {
+      ncciRuleIndexReloadPending = false;
+      const index = await buildNcciRuleIndex();
+      ncciRuleIndex = index;
+      console.log(`✅ NCCI rule index loaded in ${index.loadMs}ms: ${index.ptp.size} PTP pairs, ${index.mue.size} MUE codes, ${index.aoc.size} add-on codes`);
+    } while (ncciRuleIndexReloadPending);
+  })().finally(() => {
+    ncciRuleIndexReload = null;
+  });
+  return ncciRuleIndexReload;
+}
+
+// Hold a connection that LISTENs for ruleset changes, reconnecting if it drops
+async function listenForRulesetChanges(): Promise<void> {
+  try {
+    const client = await pool.connect();
+    ncciRuleIndexListener = client;
+    client.on('notification', message => {
+      if (message.channel !== NCCI_RULESETS_CHANNEL) return;
+      console.log(`🔄 NCCI ruleset ${message.payload} activated; reloading rule index`);
+      reloadNcciRuleIndex().catch(error => console.error('❌ Failed to reload NCCI rule index:', error));
+    });
+    client.on('error', error => {
+      console.error('❌ NCCI rule index listener lost its connection:', error);
+      client.release(error);
+      ncciRuleIndexListener = null;
+      setTimeout(() => {
+        // Rulesets may have changed while disconnected
+        reloadNcciRuleIndex().catch(reloadError => console.error('❌ Failed to reload NCCI rule index:', reloadError));
+        listenForRulesetChanges();
+      }, NCCI_INDEX_RETRY_MS);
+    });
+    await client.query(`LISTEN ${NCCI_RULESETS_CHANNEL}`);
+  } catch (error) {
+    console.error('❌ Failed to listen for NCCI ruleset changes:', error);
+    ncciRuleIndexListener = null;
+    setTimeout(() => listenForRulesetChanges(), NCCI_INDEX_RETRY_MS);
+  }
+}
+
+/**
+ * Load the rule index and keep it in sync with ruleset loads from any process
+ */
+export async function startNcciRuleIndex(): Promise<void> {
+  if (!ncciRuleIndexListener) await listenForRulesetChanges();
+  await reloadNcciRuleIndex();
+}
+
+export function getNcciRuleIndexStatus(): NcciRuleIndexStatus {
+  return {
+    enabled: !!ncciRuleIndexListener || !!ncciRuleIndex,
+    loaded: !!ncciRuleIndex,
+    loaded_at: ncciRuleIndex?.loadedAt || null,
+    load_ms: ncciRuleIndex?.loadMs ?? null,
+    rulesets: ncciRuleIndex?.rulesets || [],
+    entries: {
+      ptp: ncciRuleIndex?.ptp.size || 0,
+      mue: ncciRuleIndex?.mue.size || 0,
+      aoc: ncciRuleIndex?.aoc.size || 0
     }
+  };
+}
 
-    // 5) Policy validation (CPT↔ICD↔Payer): medical necessity and coverage
-    if (icdList.length && cptList.length) {
-      const policyValidationDetails = {
-        cpt_codes: cptList.map(c => c.code),
-        icd10_codes: icdList,
-        provider_type: actualProviderType,
-        claim_date: claimDate.toISOString().split('T')[0],
-        note_summary: claim.note_summary || 'No clinical notes provided',
-        validation_types: ['Medical Necessity', 'Policy Coverage', 'LCD/NCD Research', 'Payer-Specific Rules'],
-        research_questions: [
-          `Are there any Local Coverage Determinations (LCD) or National Coverage Determinations (NCD) that apply to CPT ${cptList.map(c => c.code).join(', ')} with diagnosis ${icdList.join(', ')}?`,
-          `What are the coverage criteria for CPT ${cptList.map(c => c.code).join(', ')} with diagnosis ${icdList.join(', ')}?`,
-          `What documentation requirements exist for CPT ${cptList.map(c => c.code).join(', ')} with ${icdList.join(', ')}?`,
-          `Are there any commercial payer policies that affect coverage for these codes?`,
-          `What are the medical necessity requirements for this CPT/ICD combination?`
-        ]
-      };
-
-      warnings.push({
-        type: 'NEEDS_POLICY_CHECK',
-        message: `Policy validation required for CPT ${cptList.map(c => c.code).join(', ')} with ICD-10 ${icdList.join(', ')}. This requires payer-specific policy research.`,
-        data: policyValidationDetails
-      });
+// Value of the version with the latest effective date that is in force on `day`, as validateClaim's SQL picks it
+function versionOnDay(versions: number[] | undefined, day: number): { effective: number; value: number } | null {
+  let best: { effective: number; value: number } | null = null;
+  for (let i = 0; versions && i < versions.length; i += 3) {
+    const [effective, deletion, value] = [versions[i], versions[i + 1], versions[i + 2]];
+    if (effective <= day && deletion > day && (!best || effective > best.effective)) {
+      best = { effective, value };
     }
+  }
+  return best;
+}
 
-    // Calculate risk score and overall validity
-    const errorCount = errors.length;
-    const warningCount = warnings.length;
-    const riskScore = Math.min(100, (errorCount * 30) + (warningCount * 10));
-    const isValid = errorCount === 0;
+// Same edits as loadClaimEdits, answered from the index. Rows without a provider/service type apply to all.
+function getIndexedClaimEdits(index: NcciRuleIndexData, codes: string[], providerType: string, program: NcciProgram, dateOfService: string): NcciClaimEdits {
+  const edits: NcciClaimEdits = { aoc: new Map(), mue: new Map(), ptp: new Map() };
+  const day = toDay(dateOfService);
+  const uniqueCodes = [...new Set(codes)];
+  const pick = (map: Map<string, number[]>, key: string) => {
+    const specific = versionOnDay(map.get(`${program}|${providerType}|${key}`), day);
+    const general = versionOnDay(map.get(`${program}||${key}`), day);
+    return specific && (!general || specific.effective >= general.effective) ? specific : general;
+  };
+
+  uniqueCodes.forEach(code => {
+    const primaries = (index.aoc.get(code) || [])
+      .filter(([, effective, deletion]) => effective <= day && deletion > day)
+      .map(([primary]) => primary);
+    if (primaries.length > 0) edits.aoc.set(code, primaries);
+
+    const mue = pick(index.mue, code);
+    if (mue) edits.mue.set(code, index.mueEdits[mue.value]);
+
+    uniqueCodes.filter(other => other !== code).forEach(other => {
+      const ptp = pick(index.ptp, `${code}|${other}`);
+      if (ptp) edits.ptp.set(`${code}|${other}`, ptp.value ? String.fromCharCode(ptp.value) : '');
+    });
+  });
 
-    return { errors, warnings, passes, is_valid: isValid, risk_score: riskScore };
+  return edits;
+}
+
+// hasEditsInForce from the index
+function hasIndexedEditsInForce(index: NcciRuleIndexData, dateOfService: string, providerType: string, program: NcciProgram): boolean {
+  const day = toDay(dateOfService);
+  const covered = (key: string) => {
+    const coverage = index.coverage.get(key);
+    return !!coverage && coverage.start <= day && coverage.end > day;
+  };
+  return covered(`ptp|${program}|${providerType}`) || covered(`mue|${program}|${providerType}`);
+}
+
+/**
+ * Validate a claim against CMS/NCCI rules. Edits and reference data are loaded once, then every rule
+ * module in `rules` runs over the same context.
+ */
+export async function validateClaim(
+  claim: ClaimValidationInput,
+  { providerType = 'practitioner', rules = DEFAULT_RULE_MODULES }: { providerType?: string; rules?: RuleModule[] } = {}
+): Promise<ValidationResult> {
+  // A loaded rule index answers every lookup in process; otherwise edits are read from Postgres
+  const index = ncciRuleIndex;
+  const client = index ? null : await getDbClient();
+
+  try {
+    const codes = (claim.cpt_codes || []).map(code => code.trim()).filter(Boolean);
+    const icdCodes = (claim.icd10_codes || []).map(s => s.trim()).filter(Boolean);
+    
+    // Use claim provider type if provided; institutional bills get the hospital (OPPS) edits; otherwise use parameter
+    const actualProviderType = claim.provider_type || (claim.type_of_bill ? 'hospital' : providerType);
+    // Medicaid claims are checked against the Medicaid NCCI edits, everything else against Medicare's
+    const program = claim.program || getNcciProgram(claim.payer, claim.member_plan_type);
+    
+    // Date of service: edits are only applied if active on this date
+    const claimDate = claim.claim_date ? new Date(claim.claim_date) : new Date();
+    const dateOfService = claimDate.toISOString().split('T')[0];
+
+    // Only the active ruleset versions are read; they are returned so callers can record them
+    const rulesets = index
+      ? index.rulesets.filter(r => rulesetAppliesTo(r, actualProviderType, program))
+      : await getActiveRulesets(client!, actualProviderType, program);
+    const rulesetIds = rulesets.map(r => r.id);
+
+    const editsInForce = index
+      ? hasIndexedEditsInForce(index, dateOfService, actualProviderType, program)
+      : await hasEditsInForce(client!, dateOfService, actualProviderType, rulesetIds);
+
+    // Every AOC, MUE and PTP edit for the claim's codes, fetched in one pass
+    const edits = index
+      ? getIndexedClaimEdits(index, codes, actualProviderType, program, dateOfService)
+      : await loadClaimEdits(client!, codes, actualProviderType, dateOfService, rulesetIds);
+
+    // Lines on another date of service are checked against the AOC, MUE and PTP edits in force on that date
+    const lines = getClaimLines(claim, codes, dateOfService);
+    const editsByDate = new Map<string, NcciClaimEdits>();
+    for (const lineDate of new Set(lines.map(line => line.date_of_service))) {
+      const lineCodes = lines.filter(line => line.date_of_service === lineDate).map(line => line.code);
+      if (lineDate === dateOfService && lineCodes.every(code => codes.includes(code))) {
+        editsByDate.set(lineDate, edits);
+        continue;
+      }
+      const lineEdits = index
+        ? getIndexedClaimEdits(index, lineCodes, actualProviderType, program, lineDate)
+        : await loadClaimEdits(client!, lineCodes, actualProviderType, lineDate, rulesetIds);
+      editsByDate.set(lineDate, lineEdits);
+    }
+
+    const issues = await runRules({
+      claim,
+      providerType: actualProviderType,
+      program,
+      dateOfService,
+      codes,
+      icdCodes,
+      lines,
+      perLineModifiers: lines.some(line => line.modifiers.length > 0),
+      edits,
+      editsByDate,
+      modifierCatalog: await getModifierCatalog(),
+      editsInForce
+    }, rules);
+
+    return { ...summarizeRuleIssues(issues, claim.tenant_id), program, rulesets };
   } finally {
-    client.release();
+    client?.release();
   }
 }
 
@@ -0,0 +1,296 @@
+import { ClaimPayload, ClaimServiceLine } from '../types/claim-types';
+import {
+  FhirClaim,
+  FhirClaimItem,
+  FhirClaimResponse,
+  FhirCodeableConcept,
+  FhirCoding,
+  FhirOperationOutcome
+} from '../types/fhir-types';
+import type { EvaluatorDecision } from '../agents/evaluator-agent';
+import { validateClaimPayloadValue } from '../middleware/validation';
+
+// -------------------------------
+// Code systems
+// -------------------------------
+const ICD10_CM_SYSTEMS = ['http://hl7.org/fhir/sid/icd-10-cm', 'http://hl7.org/fhir/sid/icd-10'];
+const PROCEDURE_SYSTEMS = [
+  'http://www.ama-assn.org/go/cpt',
+  'https://bluebutton.cms.gov/resources/codesystem/hcpcs',
+  'http://www.cms.gov/Medicare/Coding/HCPCSReleaseCodeSets'
+];
+const POS_SYSTEMS = ['https://www.cms.gov/Medicare/Coding/place-of-service-codes/Place_of_Service_Code_Set'];
+const REVENUE_SYSTEMS = ['https://www.nubc.org/CodeSystem/RevenueCodes'];
+const ADJUDICATION_SYSTEM = 'http://terminology.hl7.org/CodeSystem/adjudication';
+// Local systems for what FHIR has no code for: the evaluator's decision and the job that produced it
+const DECISION_SYSTEM = 'urn:claim-forge:decision';
+const CLAIM_JOB_SYSTEM = 'urn:claim-forge:claim-job';
+const CLAIM_TYPE_SYSTEM = 'http://terminology.hl7.org/CodeSystem/claim-type';
+
+export type FhirIssue = FhirOperationOutcome['issue'][number];
+
+/**
+ * Code from the first coding in one of `systems`, or from a coding without a system
+ */
+function codeFrom(concept: FhirCodeableConcept | undefined, systems: string[]): string | undefined {
+  const coding = codings(concept).find(c => !c.system || systems.includes(c.system));
+  return typeof coding?.code === 'string' ? coding.code.trim().toUpperCase() || undefined : undefined;
+}
+
+// Codings of a CodeableConcept, skipping anything that is not a Coding object
+const codings = (concept: FhirCodeableConcept | undefined): FhirCoding[] =>
+  (Array.isArray(concept?.coding) ? concept!.coding : []).filter(isObject);
+
+const isObject = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const datePart = (value?: string) => (typeof value === 'string' && value ? value.slice(0, 10) : undefined);
+
+const text = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+
+const invalid = (diagnostics: string, expression: string): FhirIssue => ({ severity: 'error', code: 'invalid', diagnostics, expression: [expression] });
+
+const structure = (diagnostics: string, expression: string): FhirIssue => ({ severity: 'error', code: 'structure', diagnostics, expression: [expression] });
+
+/**
+ * Structure issues for repeating elements that are not arrays of objects, so the mapping below only
+ * sees the shapes FHIR allows
+ */
+function checkStructure(claim: FhirClaim): FhirIssue[] {
+  const issues: FhirIssue[] = [];
+  const checkList = (value: unknown, expression: string, elementCheck: (element: unknown) => boolean = isObject) => {
+    if (value === undefined) return;
+    if (!Array.isArray(value)) {
+      issues.push(structure(`${expression} must be an array`, expression));
+      return;
+    }
+    value.forEach((element, index) => {
+      if (!elementCheck(element)) issues.push(structure(`${expression}[${index}] has the wrong type`, `${expression}[${index}]`));
+    });
+  };
+
+  checkList(claim.identifier, 'Claim.identifier');
+  checkList(claim.diagnosis, 'Claim.diagnosis');
+  checkList(claim.supportingInfo, 'Claim.supportingInfo');
+  checkList(claim.contained, 'Claim.contained');
+  checkList(claim.item, 'Claim.item');
+  if (Array.isArray(claim.item)) {
+    claim.item.forEach((item, index) => {
+      if (!isObject(item)) return;
+      checkList(item.modifier, `Claim.item[${index}].modifier`);
+      checkList(item.diagnosisSequence, `Claim.item[${index}].diagnosisSequence`, Number.isInteger);
+    });
+  }
+  return issues;
+}
+
+// -------------------------------
+// Claim -> ClaimPayload
+// -------------------------------
+/**
+ * ClaimPayload for a FHIR R4 Claim: insurer -> payer, diagnosis (by sequence) -> icd10_codes, items ->
+ * service_lines (diagnosisSequence -> diagnosis_pointers), item location -> place_of_service and state.
+ * Returns the payload after the same validation as JSON claims, or issues with FHIRPath expressions.
+ */
+export function fhirClaimToPayload(resource: unknown): { payload?: ClaimPayload; claim?: FhirClaim; issues: FhirIssue[] } {
+  const claim = resource as FhirClaim;
+  if (!isObject(claim) || claim.resourceType !== 'Claim') {
+    return { issues: [structure('Expected a FHIR R4 Claim resource', 'resourceType')] };
+  }
+
+  const structureIssues = checkStructure(claim);
+  if (structureIssues.length > 0) return { claim, issues: structureIssues };
+
+  const issues: FhirIssue[] = [];
+  const insurer = isObject(claim.insurer) ? claim.insurer : undefined;
+  const payer = text(insurer?.display) || text(insurer?.identifier?.value) || text(insurer?.reference);
+  if (!payer) issues.push({ severity: 'error', code: 'required', diagnostics: 'Claim.insurer needs a display name or identifier', expression: ['Claim.insurer'] });
+
+  // Diagnoses in sequence order; item diagnosisSequence values point at them
+  const diagnoses = [...(claim.diagnosis || [])].sort((a, b) => a.sequence - b.sequence);
+  const diagnosisPosition = new Map<number, number>();
+  const icd10Codes: string[] = [];
+  diagnoses.forEach(diagnosis => {
+    const index = (claim.diagnosis || []).indexOf(diagnosis);
+    const code = codeFrom(diagnosis.diagnosisCodeableConcept, ICD10_CM_SYSTEMS);
+    if (!code) {
+      issues.push(invalid('Diagnosis has no ICD-10-CM code', `Claim.diagnosis[${index}].diagnosisCodeableConcept`));
+      return;
+    }
+    icd10Codes.push(code);
+    diagnosisPosition.set(diagnosis.sequence, icd10Codes.length);
+  });
+
+  const items = [...(claim.item || [])].sort((a, b) => a.sequence - b.sequence);
+  if (items.length === 0) issues.push({ severity: 'error', code: 'required', diagnostics: 'Claim has no items', expression: ['Claim.item'] });
+  const serviceLines = items.map(item => toServiceLine(item, (claim.item || []).indexOf(item), diagnosisPosition, issues));
+
+  const placeOfService = items.map(item => codeFrom(item.locationCodeableConcept, POS_SYSTEMS)).find(Boolean);
+  const facility = (claim.contained || []).find(resource =>
+    resource.resourceType === 'Location' && claim.facility?.reference === `#${resource.id}`);
+  const state = items.map(item => text(item.locationAddress?.state)).find(Boolean) || text(facility?.address?.state);
+
+  const institutional = codings(claim.type).some(coding => coding.code === 'institutional');
+  const typeOfBill = (claim.supportingInfo || [])
+    .find(info => codings(info.category).some(coding => coding.code === 'typeofbill'))?.code;
+  const notes = (claim.supportingInfo || []).map(info => text(info.valueString)).filter(Boolean);
+  const identifier = text(claim.identifier?.[0]?.value);
+  const claimId = identifier || text(claim.id) || 'without id';
+
+  if (issues.length > 0) return { claim, issues };
+
+  const payload: ClaimPayload = {
+    payer: payer!,
+    cpt_codes: [...new Set(serviceLines.map(line => line.code))],
+    service_lines: serviceLines,
+    icd10_codes: icd10Codes,
+    date_of_service: datePart(claim.billablePeriod?.start) || serviceLines.map(line => line.date_of_service).filter(Boolean).sort()[0],
+    note_summary: notes.join(' ') || `Imported from FHIR Claim ${claimId}; no supportingInfo note was sent.`
+  };
+  if (identifier) payload.patient_control_number = identifier;
+  if (placeOfService) payload.place_of_service = placeOfService;
+  if (state) payload.state = state.toUpperCase();
+  if (institutional) {
+    payload.provider_type = 'hospital';
+    const typeOfBillCode = text(codings(typeOfBill)[0]?.code);
+    if (typeOfBillCode) payload.institutional = { type_of_bill: typeOfBillCode };
+  }
+
+  const { value, errors } = validateClaimPayloadValue(payload);
+  if (errors.length > 0) {
+    return {
+      claim,
+      issues: errors.map(error => invalid(error.message, fieldExpression(error.field, items, claim)))
+    };
+  }
+  return { payload: value, claim, issues: [] };
+}
+
+function toServiceLine(item: FhirClaimItem, index: number, diagnosisPosition: Map<number, number>, issues: FhirIssue[]): ClaimServiceLine {
+  const line: ClaimServiceLine = { code: codeFrom(item.productOrService, PROCEDURE_SYSTEMS) || '' };
+  if (!line.code) issues.push(invalid('Item has no CPT/HCPCS code', `Claim.item[${index}].productOrService`));
+
+  const modifiers = (item.modifier || []).map(modifier => codeFrom(modifier, PROCEDURE_SYSTEMS)).filter((m): m is string => !!m);
+  if (modifiers.length > 0) line.modifiers = modifiers;
+  const revenueCode = codeFrom(item.revenue, REVENUE_SYSTEMS);
+  if (revenueCode) line.revenue_code = revenueCode;
+
+  if (item.quantity?.value !== undefined) line.units = item.quantity.value;
+  const dateOfService = datePart(item.servicedDate || item.servicedPeriod?.start);
+  if (dateOfService) line.date_of_service = dateOfService;
+  const charge = item.net?.value ?? (typeof item.unitPrice?.value === 'number' ? item.unitPrice.value * (item.quantity?.value ?? 1) : undefined);
+  if (charge !== undefined) line.charge = Math.round(charge * 100) / 100;
+
+  const pointers = (item.diagnosisSequence || []).map(sequence => diagnosisPosition.get(sequence));
+  if (pointers.some(pointer => pointer === undefined)) {
+    issues.push(invalid('diagnosisSequence refers to a diagnosis the Claim does not list', `Claim.item[${index}].diagnosisSequence`));
+  } else if (pointers.length > 0) {
+    line.diagnosis_pointers = pointers as number[];
+  }
+  return line;
+}
+
+// FHIRPath of the Claim element a payload validation error came from
+function fieldExpression(field: string, items: FhirClaimItem[], claim: FhirClaim): string {
+  const [name, position] = field.split('.');
+  const itemIndex = (claim.item || []).indexOf(items[Number(position)]);
+  switch (name) {
+    case 'service_lines': return itemIndex >= 0 ? `Claim.item[${itemIndex}]` : 'Claim.item';
+    case 'icd10_codes': return 'Claim.diagnosis';
+    case 'payer': return 'Claim.insurer';
+    case 'patient_control_number': return 'Claim.identifier';
+    case 'place_of_service': return 'Claim.item.locationCodeableConcept';
+    case 'state': return 'Claim.item.locationAddress.state';
+    case 'note_summary': return 'Claim.supportingInfo';
+    default: return 'Claim';
+  }
+}
+
+// -------------------------------
+// EvaluatorDecision -> ClaimResponse
+// -------------------------------
+/**
+ * ClaimResponse for a validated Claim. Every item gets the claim-level decision as an adjudication
+ * (plus its submitted amount); blockers and next steps become processNote entries.
+ */
+export function toClaimResponse(claim: FhirClaim, decision: EvaluatorDecision, jobId: string): FhirClaimResponse {
+  const decisionConcept: FhirCodeableConcept = {
+    coding: [{ system: DECISION_SYSTEM, code: decision.overall_status, display: decision.overall_status.replace('_', ' ').toLowerCase() }],
+    text: `Confidence ${decision.confidence}; estimated approval probability ${decision.overall_assessment.estimated_approval_probability}%`
+  };
+
+  const notes = [
+    ...decision.overall_assessment.blockers.map(blocker => `${blocker.severity.toUpperCase()}: ${blocker.reason}`),
+    ...decision.overall_assessment.next_steps
+  ];
+
+  return {
+    ...claimResponseBase(claim, jobId),
+    created: decision.timestamp,
+    // REQUIRES_REVIEW is not a final answer: processing is only partly complete
+    outcome: decision.overall_status === 'REQUIRES_REVIEW' ? 'partial' : 'complete',
+    disposition: decision.overall_assessment.decision_rationale,
+    item: (claim.item || []).map(item => ({
+      itemSequence: item.sequence,
+      adjudication: [
+        ...(item.net?.value !== undefined
+          ? [{ category: { coding: [{ system: ADJUDICATION_SYSTEM, code: 'submitted' }] }, amount: item.net }]
+          : []),
+        { category: { coding: [{ system: DECISION_SYSTEM, code: 'decision' }] }, reason: decisionConcept }
+      ]
+    })),
+    processNote: notes.map((note, index) => ({ number: index + 1, type: 'display' as const, text: note }))
+  };
+}
+
+/**
+ * ClaimResponse for a Claim whose job has not finished yet
+ */
+export function toQueuedClaimResponse(claim: FhirClaim, jobId: string): FhirClaimResponse {
+  return {
+    ...claimResponseBase(claim, jobId),
+    created: new Date().toISOString(),
+    outcome: 'queued',
+    disposition: `Claim validation is running as claim job ${jobId}`
+  };
+}
+
+function claimResponseBase(claim: FhirClaim, jobId: string) {
+  return {
+    resourceType: 'ClaimResponse' as const,
+    id: jobId,
+    identifier: [{ system: CLAIM_JOB_SYSTEM, value: jobId }],
+    status: 'active' as const,
+    type: claim.type,
+    use: claim.use || 'claim',
+    patient: claim.patient,
+    insurer: claim.insurer,
+    request: claim.id ? { reference: `Claim/${claim.id}` } : claim.identifier?.[0] ? { identifier: claim.identifier[0] } : undefined
+  };
+}
+
+/**
+ * Claim rebuilt from a stored ClaimPayload, with the elements a ClaimResponse refers to: type,
+ * insurer, identifier and items in service line order
+ */
+export function payloadToFhirClaim(payload: ClaimPayload): FhirClaim {
+  const claim: FhirClaim = {
+    resourceType: 'Claim',
+    type: { coding: [{ system: CLAIM_TYPE_SYSTEM, code: payload.provider_type === 'hospital' ? 'institutional' : 'professional' }] },
+    use: 'claim',
+    insurer: { display: payload.payer },
+    item: (payload.service_lines || payload.cpt_codes.map(code => ({ code } as ClaimServiceLine))).map((line, index) => ({
+      sequence: index + 1,
+      productOrService: { coding: [{ code: line.code }] },
+      ...(line.charge !== undefined ? { net: { value: line.charge } } : {})
+    }))
+  };
+  if (payload.patient_control_number) claim.identifier = [{ value: payload.patient_control_number }];
+  return claim;
+}
+
+/**
+ * OperationOutcome for request or processing errors
+ */
+export function toOperationOutcome(issues: FhirIssue[]): FhirOperationOutcome {
+  return { resourceType: 'OperationOutcome', issue: issues };
+}
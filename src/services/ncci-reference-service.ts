@@ -0,0 +1,286 @@
+import { Pool } from 'pg';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+// CMS MUE adjudication indicator semantics
+const MAI_DESCRIPTIONS: Record<number, string> = {
+  1: 'Claim line edit: units are limited per line',
+  2: 'Date of service edit (policy): units are limited per day across lines; not appealable',
+  3: 'Date of service edit (clinical): units are limited per day across lines; appealable with documentation'
+};
+
+// CMS PTP modifier indicator semantics
+const MODIFIER_INDICATOR_DESCRIPTIONS: Record<string, string> = {
+  '0': 'Not allowed: no modifier bypasses this edit',
+  '1': 'Allowed: an NCCI-associated modifier that applies to the pair (e.g. 25 with E&M, 59/X{EPSU} or anatomic modifiers with procedures) may bypass this edit',
+  '9': 'Not applicable: the edit was deleted'
+};
+
+// Return DATE columns as YYYY-MM-DD strings so they are not shifted by the server time zone
+const DATE_COLUMNS = `to_char(effective_date, 'YYYY-MM-DD') AS effective_date, to_char(deletion_date, 'YYYY-MM-DD') AS deletion_date`;
+
+// Rows from the requested ruleset version, or from the active versions (of one program) when none is given
+const RULESET_CONDITION = (param: string, programParam?: string) => `ruleset_id IN (
+  SELECT id FROM claim_forge.ncci_rulesets
+  WHERE (${param}::int IS NULL AND status = 'active'${programParam ? ` AND program = ${programParam}` : ''}) OR id = ${param}::int
+)`;
+
+export interface NcciRulesetRecord {
+  id: number;
+  name: string;
+  data_type: 'ptp' | 'mue' | 'aoc';
+  provider_type: string | null;
+  version: number;
+  program: 'medicare' | 'medicaid';
+  status: 'loading' | 'active' | 'superseded' | 'failed';
+  source_kind: 'base' | 'delta' | 'legacy';
+  source_file: string | null;
+  parent_ruleset_id: number | null;
+  row_count: number | null;
+  rows_rejected: number;
+  reject_report: string | null;
+  error_message: string | null;
+  created_at: Date;
+  activated_at: Date | null;
+  superseded_at: Date | null;
+}
+
+export interface NcciRulesetFilters {
+  data_type?: string;
+  provider_type?: string;
+  program?: string;
+  status?: string;
+}
+
+export interface PtpEditRecord {
+  column1: string;
+  column2: string;
+  modifier_indicator: string | null;
+  modifier_indicator_description: string | null;
+  provider_type: string | null;
+  effective_date: string | null;
+  deletion_date: string | null;
+  source_file: string | null;
+  ruleset_id: number | null;
+  loaded_at: Date;
+}
+
+export interface MueRecord {
+  code: string;
+  mue_value: number;
+  mai: number | null;
+  mai_description: string | null;
+  rationale: string | null;
+  service_type: string | null;
+  effective_date: string | null;
+  deletion_date: string | null;
+  source_file: string | null;
+  ruleset_id: number | null;
+  loaded_at: Date;
+}
+
+export interface AocRecord {
+  addon_code: string;
+  primary_code: string;
+  effective_date: string | null;
+  deletion_date: string | null;
+  source_file: string | null;
+  ruleset_id: number | null;
+  loaded_at: Date;
+}
+
+export class NcciReferenceService {
+  private pool: Pool;
+
+  constructor() {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('DATABASE_URL environment variable is required');
+    }
+
+    this.pool = new Pool({
+      connectionString: process.env.DATABASE_URL,
+      ssl: process.env.DATABASE_URL?.includes('localhost') || process.env.DATABASE_URL?.includes('127.0.0.1')
+        ? false
+        : { rejectUnauthorized: false },
+      max: 10,
+      idleTimeoutMillis: 30000,
+      connectionTimeoutMillis: 2000,
+    });
+  }
+
+  /**
+   * Get PTP edits involving a code, or a specific pair in either column order
+   */
+  async getPtpEdits(
+    code1: string,
+    code2?: string,
+    providerType?: string,
+    rulesetId?: number,
+    program: string = 'medicare',
+    limit: number = 500
+  ): Promise<PtpEditRecord[]> {
+    const values: any[] = [code1];
+    let pairCondition = '(column1 = $1 OR column2 = $1)';
+    if (code2) {
+      values.push(code2);
+      pairCondition = '((column1 = $1 AND column2 = $2) OR (column1 = $2 AND column2 = $1))';
+    }
+
+    let providerCondition = '';
+    if (providerType) {
+      values.push(providerType);
+      providerCondition = `AND (provider_type IS NULL OR provider_type = $${values.length})`;
+    }
+
+    values.push(rulesetId ?? null, program);
+    const rulesetCondition = `AND ${RULESET_CONDITION(`$${values.length - 1}`, `$${values.length}`)}`;
+
+    values.push(limit);
+    try {
+      const result = await this.pool.query(`
+        SELECT column1, column2, modifier_indicator, provider_type, ${DATE_COLUMNS}, source_file, ruleset_id, created_at
+        FROM claim_forge.ptp_edits
+        WHERE ${pairCondition} ${providerCondition} ${rulesetCondition}
+        ORDER BY column1, column2, provider_type, effective_date
+        LIMIT $${values.length}
+      `, values);
+
+      return result.rows.map(row => {
+        const indicator = (row.modifier_indicator || '').trim();
+        return {
+          column1: row.column1,
+          column2: row.column2,
+          modifier_indicator: indicator || null,
+          modifier_indicator_description: MODIFIER_INDICATOR_DESCRIPTIONS[indicator] || null,
+          provider_type: row.provider_type,
+          effective_date: row.effective_date,
+          deletion_date: row.deletion_date,
+          source_file: row.source_file,
+          ruleset_id: row.ruleset_id,
+          loaded_at: row.created_at
+        };
+      });
+
+    } catch (error) {
+      console.error('Error getting PTP edits:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get MUE limits for a code, one row per service type
+   */
+  async getMue(code: string, serviceType?: string, rulesetId?: number, program: string = 'medicare'): Promise<MueRecord[]> {
+    const values: any[] = [code, rulesetId ?? null, program];
+    let serviceCondition = '';
+    if (serviceType) {
+      values.push(serviceType);
+      serviceCondition = 'AND (service_type IS NULL OR service_type = $4)';
+    }
+
+    try {
+      const result = await this.pool.query(`
+        SELECT hcpcs_cpt, mue_value, mai, rationale, service_type, ${DATE_COLUMNS}, source_file, ruleset_id, created_at
+        FROM claim_forge.mue
+        WHERE hcpcs_cpt = $1 AND ${RULESET_CONDITION('$2', '$3')} ${serviceCondition}
+        ORDER BY service_type, effective_date
+      `, values);
+
+      return result.rows.map(row => ({
+        code: row.hcpcs_cpt,
+        mue_value: row.mue_value,
+        mai: row.mai,
+        mai_description: MAI_DESCRIPTIONS[row.mai] || null,
+        rationale: row.rationale,
+        service_type: row.service_type,
+        effective_date: row.effective_date,
+        deletion_date: row.deletion_date,
+        source_file: row.source_file,
+        ruleset_id: row.ruleset_id,
+        loaded_at: row.created_at
+      }));
+
+    } catch (error) {
+      console.error('Error getting MUE:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the primary codes an add-on code may be billed with
+   */
+  async getAocPrimaries(addonCode: string, rulesetId?: number): Promise<AocRecord[]> {
+    try {
+      const result = await this.pool.query(`
+        SELECT addon_code, primary_code, ${DATE_COLUMNS}, source_file, ruleset_id, created_at
+        FROM claim_forge.aoc
+        WHERE addon_code = $1 AND ${RULESET_CONDITION('$2')}
+        ORDER BY primary_code, effective_date
+      `, [addonCode, rulesetId ?? null]);
+
+      return result.rows.map(row => ({
+        addon_code: row.addon_code,
+        primary_code: row.primary_code,
+        effective_date: row.effective_date,
+        deletion_date: row.deletion_date,
+        source_file: row.source_file,
+        ruleset_id: row.ruleset_id,
+        loaded_at: row.created_at
+      }));
+
+    } catch (error) {
+      console.error('Error getting AOC primaries:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List ruleset versions, newest first
+   */
+  async listRulesets(filters: NcciRulesetFilters = {}): Promise<NcciRulesetRecord[]> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    if (filters.data_type) {
+      values.push(filters.data_type);
+      conditions.push(`data_type = $${values.length}`);
+    }
+    if (filters.provider_type) {
+      values.push(filters.provider_type);
+      conditions.push(`provider_type = $${values.length}`);
+    }
+    if (filters.program) {
+      values.push(filters.program);
+      conditions.push(`program = $${values.length}`);
+    }
+    if (filters.status) {
+      values.push(filters.status);
+      conditions.push(`status = $${values.length}`);
+    }
+
+    try {
+      const result = await this.pool.query(`
+        SELECT id, name, program, data_type, provider_type, version, status, source_kind, source_file,
+               parent_ruleset_id, row_count, rows_rejected, reject_report, error_message,
+               created_at, activated_at, superseded_at
+        FROM claim_forge.ncci_rulesets
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY program, data_type, provider_type NULLS FIRST, version DESC
+      `, values);
+      return result.rows;
+
+    } catch (error) {
+      console.error('Error listing NCCI rulesets:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Close the database connection pool
+   */
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
@@ -0,0 +1,278 @@
+import fs from 'fs';
+import path from 'path';
+import Joi from 'joi';
+import yaml from 'js-yaml';
+import type { RuleContext, RuleIssue, RuleModule } from './rules-engine';
+
+// -------------------------------
+// Config
+// -------------------------------
+// Payer edits are kept as JSON/YAML files (one or many rules per file) outside the code
+const PAYER_RULES_DIR = path.resolve(process.cwd(), process.env.PAYER_RULES_DIR || 'payer-rules');
+const PAYER_RULE_FILE = /\.(json|ya?ml)$/i;
+// How long loaded rules are used before the directory is checked for changed files again
+const PAYER_RULES_CACHE_TTL_MS = parseInt(process.env.PAYER_RULES_CACHE_TTL_MS || '30000', 10);
+
+// -------------------------------
+// Types
+// -------------------------------
+export interface PayerRuleConditions {
+  codes_all?: string[];    // Every code is on the claim
+  codes_any?: string[];    // At least one code is on the claim
+  icd10_any?: string[];    // A diagnosis starts with one of these (e.g. "M54" matches M54.5)
+  place_of_service?: string[];
+  units_over?: { codes: string[]; units: number }; // Units of these codes, summed over the claim, exceed `units`
+  visits_over?: number;    // The claim's visit_count exceeds this
+}
+
+export interface PayerRuleRequirements {
+  modifiers_any?: string[];  // One of these modifiers is reported
+  modifiers_none?: string[]; // None of these modifiers is reported
+  on_codes?: string[];       // Modifiers are checked on the lines of these codes instead of the whole claim
+}
+
+export interface PayerRule {
+  id: string;
+  description?: string;
+  payers: string[];             // Matched case-insensitively against part of the claim's payer; "*" matches every payer
+  states?: string[];
+  member_plan_types?: string[]; // Matched case-insensitively against part of member_plan_type
+  effective_date?: string;      // First date of service the rule applies to (YYYY-MM-DD)
+  end_date?: string;            // Last date of service the rule applies to (YYYY-MM-DD)
+  severity: 'error' | 'warning';
+  when: PayerRuleConditions;
+  require?: PayerRuleRequirements; // Without requirements the rule fires whenever `when` matches
+  message: string;
+  fix?: string;
+  source?: string;              // File the rule was loaded from
+}
+
+export interface PayerRuleLoadError {
+  file: string;
+  rule?: string;
+  message: string;
+}
+
+interface PayerRuleSet {
+  rules: PayerRule[];
+  errors: PayerRuleLoadError[];
+  signature: string;
+  checkedAt: number;
+}
+
+const codeList = Joi.array().items(Joi.string().trim().uppercase().pattern(/^[A-Z0-9]{5}$/)).min(1);
+const modifierList = Joi.array().items(Joi.string().trim().uppercase().pattern(/^[A-Z0-9]{2}$/)).min(1);
+const isoDate = Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/);
+
+const payerRuleSchema = Joi.object({
+  id: Joi.string().trim().min(1).max(100).required(),
+  description: Joi.string().optional(),
+  payers: Joi.array().items(Joi.string().trim().min(1)).min(1).required(),
+  states: Joi.array().items(Joi.string().trim().uppercase().length(2)).optional(),
+  member_plan_types: Joi.array().items(Joi.string().trim().min(1)).optional(),
+  effective_date: isoDate.optional(),
+  end_date: isoDate.optional(),
+  severity: Joi.string().valid('error', 'warning').default('error'),
+  when: Joi.object({
+    codes_all: codeList.optional(),
+    codes_any: codeList.optional(),
+    icd10_any: Joi.array().items(Joi.string().trim().uppercase().min(3)).min(1).optional(),
+    place_of_service: Joi.array().items(Joi.string().pattern(/^\d{2}$/)).min(1).optional(),
+    units_over: Joi.object({ codes: codeList.required(), units: Joi.number().integer().min(0).required() }).optional(),
+    visits_over: Joi.number().integer().min(0).optional(),
+  }).min(1).required(),
+  require: Joi.object({
+    modifiers_any: modifierList.optional(),
+    modifiers_none: modifierList.optional(),
+    on_codes: codeList.optional(),
+  }).or('modifiers_any', 'modifiers_none').optional(),
+  message: Joi.string().min(1).required(),
+  fix: Joi.string().optional(),
+});
+
+// -------------------------------
+// Loading
+// -------------------------------
+let payerRuleSet: PayerRuleSet | null = null;
+
+// Unquoted codes and modifiers (25, 97140) parse as numbers; list entries are read back as strings
+function stringifyListItems(value: any): any {
+  if (Array.isArray(value)) return value.map(item => typeof item === 'number' ? String(item) : stringifyListItems(item));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, stringifyListItems(item)]));
+  }
+  return value;
+}
+
+// Rule file entries are untyped until validated; the id only names the entry in load errors
+function hasRuleId(entry: unknown): entry is { id: string | number } {
+  const id = (entry as { id?: unknown } | null | undefined)?.id;
+  return typeof id === 'string' || typeof id === 'number';
+}
+
+// File names, sizes and modification times; rules are re-read when any of them change
+function getRulesDirSignature(dir: string): { files: string[]; signature: string } {
+  if (!fs.existsSync(dir)) return { files: [], signature: '' };
+  const files = fs.readdirSync(dir).filter(name => PAYER_RULE_FILE.test(name)).sort();
+  const signature = files.map(name => {
+    const stat = fs.statSync(path.join(dir, name));
+    return `${name}:${stat.size}:${stat.mtimeMs}`;
+  }).join('|');
+  return { files, signature };
+}
+
+function parseRuleFile(filePath: string): unknown[] {
+  const text = fs.readFileSync(filePath, 'utf8');
+  // JSON_SCHEMA keeps unquoted YAML dates as strings
+  const parsed: any = /\.json$/i.test(filePath) ? JSON.parse(text) : yaml.load(text, { schema: yaml.JSON_SCHEMA });
+  if (parsed == null) return [];
+  if (Array.isArray(parsed)) return parsed;
+  if (Array.isArray(parsed.rules)) return parsed.rules;
+  throw new Error('Expected a list of rules or an object with a "rules" list');
+}
+
+/**
+ * Payer rules from every JSON/YAML file in PAYER_RULES_DIR. Invalid rules and files are skipped
+ * and reported in `errors`; a rule id used twice keeps the first rule. Rules from PAYER_RULES_DIR are
+ * cached, and the directory is checked for changed files at most once per PAYER_RULES_CACHE_TTL_MS.
+ */
+export function loadPayerRules(dir: string = PAYER_RULES_DIR): { rules: PayerRule[]; errors: PayerRuleLoadError[] } {
+  const cached = dir === PAYER_RULES_DIR ? payerRuleSet : null;
+  if (cached && Date.now() - cached.checkedAt < PAYER_RULES_CACHE_TTL_MS) {
+    return cached;
+  }
+
+  const { files, signature } = getRulesDirSignature(dir);
+  if (cached && cached.signature === signature) {
+    cached.checkedAt = Date.now();
+    return cached;
+  }
+
+  const rules: PayerRule[] = [];
+  const errors: PayerRuleLoadError[] = [];
+  const ids = new Set<string>();
+
+  for (const file of files) {
+    let entries: unknown[];
+    try {
+      entries = parseRuleFile(path.join(dir, file));
+    } catch (error) {
+      errors.push({ file, message: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+
+    entries.forEach((entry, index) => {
+      const { error, value } = payerRuleSchema.validate(stringifyListItems(entry), { abortEarly: false, convert: true });
+      const ruleName = hasRuleId(entry) && entry.id !== '' ? String(entry.id) : `#${index + 1}`;
+      if (error) {
+        errors.push({ file, rule: ruleName, message: error.details.map(detail => detail.message).join('; ') });
+        return;
+      }
+      if (ids.has(value.id)) {
+        errors.push({ file, rule: ruleName, message: `Duplicate rule id ${value.id}` });
+        return;
+      }
+      ids.add(value.id);
+      rules.push({ ...value, source: file });
+    });
+  }
+
+  if (files.length > 0) {
+    console.log(`📋 Loaded ${rules.length} payer rule(s) from ${files.length} file(s) in ${dir}`);
+  }
+  errors.forEach(error => {
+    console.warn(`⚠️  Payer rule skipped (${error.file}${error.rule ? ` ${error.rule}` : ''}): ${error.message}`);
+  });
+
+  if (dir === PAYER_RULES_DIR) {
+    payerRuleSet = { rules, errors, signature, checkedAt: Date.now() };
+  }
+  return { rules, errors };
+}
+
+// -------------------------------
+// Evaluation
+// -------------------------------
+// "*" matches even when the claim does not send the field
+const includesText = (values: string[], text?: string) =>
+  values.some(value => value === '*' || (!!text && text.toLowerCase().includes(value.toLowerCase())));
+
+// Payer, state, plan type and date range
+function ruleApplies(rule: PayerRule, { claim, dateOfService }: RuleContext): boolean {
+  if (!includesText(rule.payers, claim.payer)) return false;
+  if (rule.states && !(claim.state && rule.states.includes(claim.state.toUpperCase()))) return false;
+  if (rule.member_plan_types && !includesText(rule.member_plan_types, claim.member_plan_type)) return false;
+  if (rule.effective_date && dateOfService < rule.effective_date) return false;
+  if (rule.end_date && dateOfService > rule.end_date) return false;
+  return true;
+}
+
+function conditionsMatch(when: PayerRuleConditions, { claim, codes, icdCodes, lines }: RuleContext): boolean {
+  const present = new Set(codes);
+  if (when.codes_all && !when.codes_all.every(code => present.has(code))) return false;
+  if (when.codes_any && !when.codes_any.some(code => present.has(code))) return false;
+  if (when.icd10_any && !icdCodes.some(icd => when.icd10_any!.some(prefix => icd.toUpperCase().startsWith(prefix)))) return false;
+  if (when.place_of_service && !(claim.place_of_service && when.place_of_service.includes(claim.place_of_service))) return false;
+  if (when.units_over) {
+    const units = lines.filter(line => when.units_over!.codes.includes(line.code)).reduce((sum, line) => sum + line.units, 0);
+    if (units <= when.units_over.units) return false;
+  }
+  if (when.visits_over !== undefined && !((claim.visit_count || 0) > when.visits_over)) return false;
+  return true;
+}
+
+// Requirements that are not met, as messages; empty when the claim complies
+function unmetRequirements(require: PayerRuleRequirements, { claim, codes, lines, perLineModifiers }: RuleContext): string[] {
+  const targets = require.on_codes ? require.on_codes.filter(code => codes.includes(code)) : [null];
+  const modifiersOn = (code: string | null) => (perLineModifiers
+    ? lines.filter(line => code === null || line.code === code).flatMap(line => line.modifiers)
+    : claim.modifiers || []
+  ).map(m => m.trim().toUpperCase());
+
+  const unmet: string[] = [];
+  targets.forEach(code => {
+    const modifiers = modifiersOn(code);
+    const where = code ? ` on ${code}` : '';
+    if (require.modifiers_any && !require.modifiers_any.some(m => modifiers.includes(m))) {
+      unmet.push(`missing modifier ${require.modifiers_any.join('/')}${where}`);
+    }
+    const forbidden = (require.modifiers_none || []).filter(m => modifiers.includes(m));
+    if (forbidden.length > 0) {
+      unmet.push(`modifier ${forbidden.join(', ')} not allowed${where}`);
+    }
+  });
+  return unmet;
+}
+
+/**
+ * Payer-specific edits from PAYER_RULES_DIR, scoped by payer, state, member plan type and date of service
+ */
+export const payerRule: RuleModule = {
+  id: 'payer',
+  description: 'Payer-specific edits loaded from rule files',
+  run(context) {
+    const issues: RuleIssue[] = [];
+
+    for (const rule of loadPayerRules().rules) {
+      if (!ruleApplies(rule, context) || !conditionsMatch(rule.when, context)) continue;
+
+      const unmet = rule.require ? unmetRequirements(rule.require, context) : [];
+      const evidence = { payer_rule_id: rule.id, payer: context.claim.payer, source: rule.source, when: rule.when, require: rule.require, unmet };
+      if (rule.require && unmet.length === 0) {
+        issues.push({ rule_id: 'payer', type: 'PAYER_RULE', severity: 'pass', message: `Payer rule ${rule.id} satisfied.`, evidence });
+        continue;
+      }
+
+      issues.push({
+        rule_id: 'payer',
+        type: 'PAYER_RULE_VIOLATION',
+        severity: rule.severity,
+        message: `${rule.message}${unmet.length ? ` (${unmet.join('; ')})` : ''}`,
+        evidence,
+        fix: rule.fix || rule.description
+      });
+    }
+
+    return issues;
+  }
+};
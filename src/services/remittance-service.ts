@@ -0,0 +1,356 @@
+import { Pool } from 'pg';
+import dotenv from 'dotenv';
+import { RemittanceAdjustment, RemittanceOutcome, X12Remittance } from './x12-835-parser';
+
+// Load environment variables
+dotenv.config();
+
+export type PredictedStatus = 'APPROVED' | 'DENIED' | 'REQUIRES_REVIEW';
+
+export interface RemittanceLineRecord {
+  line_number: number;
+  code: string;
+  code_qualifier: 'HC' | 'NU';
+  modifiers: string[];
+  revenue_code: string | null;
+  charge_amount: number;
+  paid_amount: number;
+  units: number | null;
+  date_of_service: string | null;
+  outcome: RemittanceOutcome;
+  adjustments: RemittanceAdjustment[];
+  remark_codes: string[];
+}
+
+export interface RemittanceRecord {
+  id: string;
+  claim_validation_id: string | null;
+  patient_control_number: string;
+  claim_status_code: string;
+  outcome: RemittanceOutcome;
+  charge_amount: number;
+  paid_amount: number;
+  patient_responsibility: number | null;
+  payer_claim_control_number: string | null;
+  payer: string | null;
+  check_number: string | null;
+  payment_date: string | null;
+  adjustments: RemittanceAdjustment[];
+  remark_codes: string[];
+  source_file: string | null;
+  lines: RemittanceLineRecord[];
+  created_at: Date;
+}
+
+export interface RemittanceIngestResult {
+  stored: number;
+  matched: number;
+  replaced: number;     // Claim payments already stored from an earlier upload of the same 835
+  unmatched: string[];  // CLP01 values with no stored claim validation
+}
+
+export interface PredictionAccuracyFilters {
+  payer?: string;
+  cpt?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface PredictionAccuracyRow {
+  payer: string;
+  cpt: string;
+  lines: number;
+  predicted: Record<PredictedStatus, number>;
+  actual: Record<Exclude<RemittanceOutcome, 'reversed'>, number>;
+  scored: number;           // Lines predicted APPROVED or DENIED
+  correct: number;
+  accuracy: number | null;  // correct / scored, null when nothing was scored
+}
+
+export interface PredictionAccuracyReport {
+  overall: Omit<PredictionAccuracyRow, 'payer' | 'cpt'>;
+  by_payer_cpt: PredictionAccuracyRow[];
+}
+
+/**
+ * Whether a prediction matched the payer: APPROVED is right when the line was paid (in full or adjusted),
+ * DENIED when it was denied. REQUIRES_REVIEW makes no prediction and is not scored.
+ */
+export function predictionCorrect(predicted: PredictedStatus, actual: RemittanceOutcome): boolean | null {
+  if (predicted === 'APPROVED') return actual === 'paid' || actual === 'adjusted';
+  if (predicted === 'DENIED') return actual === 'denied';
+  return null;
+}
+
+function emptyAccuracy(): Omit<PredictionAccuracyRow, 'payer' | 'cpt'> {
+  return {
+    lines: 0,
+    predicted: { APPROVED: 0, DENIED: 0, REQUIRES_REVIEW: 0 },
+    actual: { paid: 0, adjusted: 0, denied: 0 },
+    scored: 0,
+    correct: 0,
+    accuracy: null
+  };
+}
+
+export class RemittanceService {
+  private pool: Pool;
+
+  constructor() {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('DATABASE_URL environment variable is required');
+    }
+
+    this.pool = new Pool({
+      connectionString: process.env.DATABASE_URL,
+      ssl: process.env.DATABASE_URL?.includes('localhost') || process.env.DATABASE_URL?.includes('127.0.0.1')
+        ? false
+        : { rejectUnauthorized: false },
+      max: 10,
+      idleTimeoutMillis: 30000,
+      connectionTimeoutMillis: 2000,
+    });
+  }
+
+  /**
+   * Store 835 claim payments and match each to the newest claim validation for the same payer (N1*PR)
+   * whose imported CLM01 or, failing that, claim_id equals CLP01. Uploading the same 835 again replaces
+   * the payments it stored before.
+   */
+  async ingestRemittances(remittances: X12Remittance[], sourceFile?: string): Promise<RemittanceIngestResult> {
+    const client = await this.pool.connect();
+    const result: RemittanceIngestResult = { stored: 0, matched: 0, replaced: 0, unmatched: [] };
+
+    try {
+      await client.query('BEGIN');
+
+      for (const remittance of remittances) {
+        // CLP01 is only unique per submitter and payer, so another payer's claim with the same number never matches
+        const match = await client.query(`
+          SELECT id FROM claim_forge.claim_validations
+          WHERE (original_claim->>'patient_control_number' = $1 OR claim_id = $1)
+            AND ($2::text IS NULL OR LOWER(TRIM(original_claim->>'payer')) = LOWER(TRIM($2)))
+          ORDER BY (original_claim->>'patient_control_number' = $1) DESC NULLS LAST, created_at DESC
+          LIMIT 1
+        `, [remittance.patient_control_number, remittance.payer || null]);
+        const claimValidationId: string | null = match.rows[0]?.id || null;
+
+        const replaced = await client.query(`
+          DELETE FROM claim_forge.claim_remittances
+          WHERE patient_control_number = $1
+            AND claim_status_code = $2
+            AND COALESCE(payer_claim_control_number, '') = COALESCE($3, '')
+            AND COALESCE(check_number, '') = COALESCE($4, '')
+        `, [
+          remittance.patient_control_number,
+          remittance.claim_status_code,
+          remittance.payer_claim_control_number || null,
+          remittance.check_number || null
+        ]);
+
+        const inserted = await client.query(`
+          INSERT INTO claim_forge.claim_remittances (
+            claim_validation_id, patient_control_number, claim_status_code, outcome,
+            charge_amount, paid_amount, patient_responsibility, payer_claim_control_number,
+            payer, check_number, payment_date, adjustments, remark_codes, source_file
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+          RETURNING id
+        `, [
+          claimValidationId,
+          remittance.patient_control_number,
+          remittance.claim_status_code,
+          remittance.outcome,
+          remittance.charge_amount,
+          remittance.paid_amount,
+          remittance.patient_responsibility ?? null,
+          remittance.payer_claim_control_number || null,
+          remittance.payer || null,
+          remittance.check_number || null,
+          remittance.payment_date || null,
+          JSON.stringify(remittance.adjustments),
+          remittance.remark_codes,
+          sourceFile || null
+        ]);
+        const remittanceId = inserted.rows[0].id;
+
+        for (const [index, line] of remittance.service_lines.entries()) {
+          await client.query(`
+            INSERT INTO claim_forge.claim_remittance_lines (
+              remittance_id, line_number, code, code_qualifier, modifiers, revenue_code, charge_amount, paid_amount,
+              units, date_of_service, line_control_number, outcome, adjustments, remark_codes
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+          `, [
+            remittanceId,
+            index + 1,
+            line.code,
+            line.code_qualifier,
+            line.modifiers || [],
+            line.revenue_code || null,
+            line.charge_amount,
+            line.paid_amount,
+            line.units ?? null,
+            line.date_of_service || null,
+            line.line_control_number || null,
+            line.outcome,
+            JSON.stringify(line.adjustments),
+            line.remark_codes
+          ]);
+        }
+
+        result.stored++;
+        result.replaced += replaced.rowCount || 0;
+        if (claimValidationId) result.matched++;
+        else result.unmatched.push(remittance.patient_control_number);
+      }
+
+      await client.query('COMMIT');
+      console.log(`✅ Stored ${result.stored} remittance(s): ${result.matched} matched, ${result.unmatched.length} unmatched`);
+      return result;
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('❌ Failed to store remittances:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Remittances matched to a claim (by claim_id), oldest payment first
+   */
+  async getClaimRemittances(claimId: string): Promise<RemittanceRecord[]> {
+    const result = await this.pool.query(`
+      SELECT r.*, r.payment_date::text AS payment_date_text,
+        COALESCE(
+          (SELECT json_agg(json_build_object(
+              'line_number', l.line_number, 'code', l.code, 'code_qualifier', l.code_qualifier, 'modifiers', l.modifiers,
+              'revenue_code', l.revenue_code, 'charge_amount', l.charge_amount, 'paid_amount', l.paid_amount,
+              'units', l.units, 'date_of_service', l.date_of_service::text, 'outcome', l.outcome,
+              'adjustments', l.adjustments, 'remark_codes', l.remark_codes
+            ) ORDER BY l.line_number)
+           FROM claim_forge.claim_remittance_lines l WHERE l.remittance_id = r.id),
+          '[]'
+        ) AS lines
+      FROM claim_forge.claim_remittances r
+      JOIN claim_forge.claim_validations v ON v.id = r.claim_validation_id
+      WHERE v.claim_id = $1
+      ORDER BY r.payment_date NULLS LAST, r.created_at
+    `, [claimId]);
+
+    return result.rows.map(row => this.mapRemittance(row));
+  }
+
+  /**
+   * Predicted overall_status against the payer's line outcomes, per payer (of the stored claim) and CPT.
+   * Only the latest non-reversal payment of each claim counts, so a reversed and reprocessed claim is
+   * compared on its final outcome. Revenue-code-only (NU) lines count in `overall` but have no CPT, so
+   * they are left out of `by_payer_cpt`. Claims whose workflow failed made no prediction and are left
+   * out. `from`/`to` filter on the payment date.
+   */
+  async getPredictionAccuracy(filters: PredictionAccuracyFilters): Promise<PredictionAccuracyReport> {
+    const conditions = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    if (filters.payer) {
+      conditions.push(`LOWER(v.original_claim->>'payer') = LOWER($${paramIndex++})`);
+      values.push(filters.payer);
+    }
+    if (filters.cpt) {
+      conditions.push(`l.code_qualifier = 'HC' AND l.code = $${paramIndex++}`);
+      values.push(filters.cpt);
+    }
+    if (filters.from) {
+      conditions.push(`r.payment_date >= $${paramIndex++}`);
+      values.push(filters.from);
+    }
+    if (filters.to) {
+      conditions.push(`r.payment_date < $${paramIndex++}`);
+      values.push(filters.to);
+    }
+
+    const result = await this.pool.query(`
+      WITH latest AS (
+        SELECT DISTINCT ON (claim_validation_id) *
+        FROM claim_forge.claim_remittances
+        WHERE claim_validation_id IS NOT NULL AND outcome <> 'reversed'
+        ORDER BY claim_validation_id, payment_date DESC NULLS LAST, created_at DESC
+      )
+      SELECT v.original_claim->>'payer' AS payer, l.code AS cpt, l.code_qualifier AS qualifier,
+        v.overall_status AS predicted, l.outcome AS actual, COUNT(*)::int AS lines
+      FROM latest r
+      JOIN claim_forge.claim_validations v ON v.id = r.claim_validation_id
+      JOIN claim_forge.claim_remittance_lines l ON l.remittance_id = r.id
+      WHERE l.outcome <> 'reversed' AND NOT (v.metadata ? 'workflow_failure')${conditions.length > 0 ? ' AND ' + conditions.join(' AND ') : ''}
+      GROUP BY 1, 2, 3, 4, 5
+      ORDER BY 1, 2
+    `, values);
+
+    const overall = emptyAccuracy();
+    const rows = new Map<string, PredictionAccuracyRow>();
+    for (const row of result.rows) {
+      const targets = [overall];
+      if (row.qualifier === 'HC') {
+        const key = `${row.payer}\u0000${row.cpt}`;
+        const entry = rows.get(key) || { payer: row.payer, cpt: row.cpt, ...emptyAccuracy() };
+        rows.set(key, entry);
+        targets.push(entry);
+      }
+
+      for (const target of targets) {
+        target.lines += row.lines;
+        target.predicted[row.predicted as PredictedStatus] += row.lines;
+        target.actual[row.actual as keyof PredictionAccuracyRow['actual']] += row.lines;
+        const correct = predictionCorrect(row.predicted, row.actual);
+        if (correct !== null) {
+          target.scored += row.lines;
+          if (correct) target.correct += row.lines;
+        }
+      }
+    }
+
+    const withAccuracy = <T extends Omit<PredictionAccuracyRow, 'payer' | 'cpt'>>(entry: T): T => ({
+      ...entry,
+      accuracy: entry.scored > 0 ? Math.round((entry.correct / entry.scored) * 1000) / 1000 : null
+    });
+    return {
+      overall: withAccuracy(overall),
+      by_payer_cpt: [...rows.values()].map(withAccuracy)
+    };
+  }
+
+  private mapRemittance(row: any): RemittanceRecord {
+    return {
+      id: row.id,
+      claim_validation_id: row.claim_validation_id,
+      patient_control_number: row.patient_control_number,
+      claim_status_code: row.claim_status_code,
+      outcome: row.outcome,
+      charge_amount: Number(row.charge_amount),
+      paid_amount: Number(row.paid_amount),
+      patient_responsibility: row.patient_responsibility === null ? null : Number(row.patient_responsibility),
+      payer_claim_control_number: row.payer_claim_control_number,
+      payer: row.payer,
+      check_number: row.check_number,
+      payment_date: row.payment_date_text,
+      adjustments: row.adjustments,
+      remark_codes: row.remark_codes,
+      source_file: row.source_file,
+      lines: (row.lines as any[]).map(line => ({
+        ...line,
+        charge_amount: Number(line.charge_amount),
+        paid_amount: Number(line.paid_amount),
+        units: line.units === null ? null : Number(line.units)
+      })),
+      created_at: row.created_at
+    };
+  }
+
+  /**
+   * Close the database connection pool
+   */
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
@@ -0,0 +1,164 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import type { RuleIssue, RuleSeverity } from './rules-engine';
+
+// -------------------------------
+// Config
+// -------------------------------
+// Optional JSON/YAML file with weight overrides: { default: {...}, tenants: { <tenant_id>: {...} } }
+const RISK_SCORING_FILE = process.env.RISK_SCORING_FILE ? path.resolve(process.cwd(), process.env.RISK_SCORING_FILE) : null;
+// How long loaded weights are used before the file is checked for changes again
+const RISK_SCORING_CACHE_TTL_MS = parseInt(process.env.RISK_SCORING_CACHE_TTL_MS || '30000', 10);
+
+// -------------------------------
+// Types
+// -------------------------------
+export interface RiskScoringModel {
+  // Points per issue, keyed by "TYPE:severity", issue type or rule id (checked in that order)
+  weights: Record<string, number>;
+  // Points per issue when no key in `weights` matches
+  severity_weights: Record<Exclude<RuleSeverity, 'pass'>, number>;
+  max_score: number;
+}
+
+export interface RiskContribution {
+  rule_id: string;
+  type: string;
+  severity: RuleSeverity;
+  count: number;
+  weight: number; // Points per issue
+  points: number;
+}
+
+export interface RiskBreakdown {
+  model: string;        // "default" or the tenant whose weights were applied
+  total_points: number; // Uncapped sum of contributions; ranks claims beyond max_score
+  contributions: RiskContribution[]; // Highest points first; rules that scored 0 are left out
+}
+
+type RiskScoringOverrides = Partial<Omit<RiskScoringModel, 'severity_weights'>> & {
+  severity_weights?: Partial<RiskScoringModel['severity_weights']>;
+};
+
+// Weights reflect how likely each finding is to deny or cut payment: hard NCCI edits highest,
+// syntax and coverage findings lower, and the policy-research flag (present on most claims) not at all
+const DEFAULT_RISK_MODEL: RiskScoringModel = {
+  weights: {
+    PTP_BLOCKED: 60,
+    PTP_NEEDS_MODIFIER: 40,
+    PTP_UNKNOWN_INDICATOR: 15,
+    AOC_PRIMARY_MISSING: 50,
+    'MUE_EXCEEDED:error': 50,
+    'MUE_EXCEEDED:warning': 20,
+    FREQUENCY_EXCEEDED: 40,
+    FREQUENCY_LIMIT: 5,
+    'PAYER_RULE_VIOLATION:error': 45,
+    'PAYER_RULE_VIOLATION:warning': 15,
+    MODIFIER_INVALID: 25,
+    MODIFIER_INAPPROPRIATE: 15,
+    ICD_FORMAT: 25,
+    DIAGNOSIS_POINTER_INVALID: 20,
+    POS_INVALID: 20,
+    REVENUE_CODE_INVALID: 10,
+    EFFECTIVE_DATE_INVALID: 5,
+    RULE_UNAVAILABLE: 10,
+    NEEDS_POLICY_CHECK: 0
+  },
+  severity_weights: { error: 30, warning: 10 },
+  max_score: 100
+};
+
+// -------------------------------
+// Loading
+// -------------------------------
+let riskScoringConfig: {
+  mtimeMs: number | null; // null while the file does not exist
+  checkedAt: number;
+  default: RiskScoringOverrides;
+  tenants: Record<string, RiskScoringOverrides>;
+} | null = null;
+
+function mergeModel(base: RiskScoringModel, overrides: RiskScoringOverrides = {}): RiskScoringModel {
+  return {
+    weights: { ...base.weights, ...(overrides.weights || {}) },
+    severity_weights: { ...base.severity_weights, ...(overrides.severity_weights || {}) },
+    max_score: overrides.max_score ?? base.max_score
+  };
+}
+
+// Overrides from RISK_SCORING_FILE, checked for changes at most once per RISK_SCORING_CACHE_TTL_MS;
+// a missing or bad file keeps the defaults
+function getRiskScoringConfig(): { default: RiskScoringOverrides; tenants: Record<string, RiskScoringOverrides> } {
+  const empty = { default: {}, tenants: {} };
+  if (!RISK_SCORING_FILE) return empty;
+  if (riskScoringConfig && Date.now() - riskScoringConfig.checkedAt < RISK_SCORING_CACHE_TTL_MS) return riskScoringConfig;
+
+  const mtimeMs = fs.existsSync(RISK_SCORING_FILE) ? fs.statSync(RISK_SCORING_FILE).mtimeMs : null;
+  if (riskScoringConfig && riskScoringConfig.mtimeMs === mtimeMs) {
+    riskScoringConfig.checkedAt = Date.now();
+    return riskScoringConfig;
+  }
+  if (mtimeMs === null) {
+    riskScoringConfig = { mtimeMs, checkedAt: Date.now(), ...empty };
+    return riskScoringConfig;
+  }
+
+  try {
+    const text = fs.readFileSync(RISK_SCORING_FILE, 'utf8');
+    const parsed: any = /\.json$/i.test(RISK_SCORING_FILE) ? JSON.parse(text) : yaml.load(text, { schema: yaml.JSON_SCHEMA });
+    riskScoringConfig = { mtimeMs, checkedAt: Date.now(), default: parsed?.default || {}, tenants: parsed?.tenants || {} };
+    console.log(`📋 Loaded risk scoring weights from ${RISK_SCORING_FILE} (${Object.keys(riskScoringConfig.tenants).length} tenant(s))`);
+  } catch (error) {
+    console.warn(`⚠️  Risk scoring file ${RISK_SCORING_FILE} unreadable; using default weights:`, error instanceof Error ? error.message : error);
+    riskScoringConfig = { mtimeMs, checkedAt: Date.now(), ...empty };
+  }
+  return riskScoringConfig;
+}
+
+/**
+ * Scoring model for a tenant: built-in defaults, then the file's `default` overrides, then the tenant's
+ */
+export function getRiskScoringModel(tenantId?: string): { name: string; model: RiskScoringModel } {
+  const config = getRiskScoringConfig();
+  const base = mergeModel(DEFAULT_RISK_MODEL, config.default);
+  const tenant = tenantId ? config.tenants[tenantId] : undefined;
+  return tenant ? { name: tenantId!, model: mergeModel(base, tenant) } : { name: 'default', model: base };
+}
+
+// -------------------------------
+// Scoring
+// -------------------------------
+function issueWeight(issue: RuleIssue, model: RiskScoringModel): number {
+  if (issue.severity === 'pass') return 0;
+  for (const key of [`${issue.type}:${issue.severity}`, issue.type, issue.rule_id]) {
+    if (model.weights[key] !== undefined) return model.weights[key];
+  }
+  return model.severity_weights[issue.severity];
+}
+
+/**
+ * Weighted risk score (0 to max_score) and the rules that contributed to it
+ */
+export function scoreRuleIssues(issues: RuleIssue[], tenantId?: string): { risk_score: number; risk_breakdown: RiskBreakdown } {
+  const { name, model } = getRiskScoringModel(tenantId);
+  const contributions = new Map<string, RiskContribution>();
+
+  issues.forEach(issue => {
+    const weight = issueWeight(issue, model);
+    if (weight === 0) return;
+    const key = `${issue.rule_id}|${issue.type}|${issue.severity}`;
+    const contribution = contributions.get(key) || { rule_id: issue.rule_id, type: issue.type, severity: issue.severity, count: 0, weight, points: 0 };
+    contribution.count += 1;
+    contribution.points += weight;
+    contributions.set(key, contribution);
+  });
+
+  const sorted = [...contributions.values()].sort((a, b) => b.points - a.points);
+  const totalPoints = sorted.reduce((sum, contribution) => sum + contribution.points, 0);
+
+  return {
+    risk_score: Math.min(model.max_score, totalPoints),
+    risk_breakdown: { model: name, total_points: totalPoints, contributions: sorted }
+  };
+}
@@ -0,0 +1,733 @@
+import fs from 'fs';
+import path from 'path';
+import type { ClaimValidationInput, NcciProgram } from './cms-ncci-validator';
+import { payerRule } from './payer-rules';
+import { RiskBreakdown, scoreRuleIssues } from './risk-scoring';
+
+// -------------------------------
+// Types
+// -------------------------------
+// Every check runs as a rule module over one claim context and reports the same issue shape, so
+// callers (the sanity agent, /api/claims/ncci-check, the evaluator) never reconcile two result formats.
+
+export type RuleSeverity = 'error' | 'warning' | 'pass';
+
+export type RuleIssueType =
+  | 'ICD_FORMAT' | 'REVENUE_CODE_INVALID' | 'POS_INVALID' | 'EFFECTIVE_DATE_INVALID' | 'DIAGNOSIS_POINTER_INVALID'
+  | 'MODIFIER_INVALID' | 'MODIFIER_INAPPROPRIATE'
+  | 'AOC_PRIMARY_MISSING' | 'AOC'
+  | 'MUE_EXCEEDED' | 'MUE'
+  | 'PTP_BLOCKED' | 'PTP_NEEDS_MODIFIER' | 'PTP_UNKNOWN_INDICATOR' | 'PTP_BYPASSED'
+  | 'FREQUENCY_EXCEEDED' | 'FREQUENCY_LIMIT'
+  | 'PAYER_RULE_VIOLATION' | 'PAYER_RULE'
+  | 'NEEDS_POLICY_CHECK'
+  | 'RULE_UNAVAILABLE';
+
+export interface RuleIssue {
+  rule_id: string;       // Module that produced the issue: format, pos, modifiers, aoc, mue, ptp, frequency, payer, policy, ...
+  type: RuleIssueType;
+  severity: RuleSeverity;
+  message: string;
+  evidence?: any;        // Codes, edits and values the finding was based on
+  fix?: string;          // Suggested correction; omitted on passes
+}
+
+// One claim line: a service_lines entry, or one per distinct code for flat cpt_codes/units claims
+export interface ClaimLine {
+  line: number; // 1-based position in service_lines
+  code: string;
+  units: number;
+  date_of_service: string;
+  modifiers: string[];
+  diagnosis_pointers: number[]; // 1-based positions in icd10_codes; empty for flat claims
+}
+
+export interface NcciMueEdit {
+  value: number;
+  mai: number | null; // MUE Adjudication Indicator; null for rows loaded before it was ingested
+  rationale: string | null;
+}
+
+// Edits that apply to one claim's codes on its date of service
+export interface NcciClaimEdits {
+  aoc: Map<string, string[]>;    // add-on code -> allowed primary codes
+  mue: Map<string, NcciMueEdit>; // code -> MUE
+  ptp: Map<string, string>;      // "column1|column2" -> modifier indicator
+}
+
+export interface ModifierCatalogEntry {
+  code: string;
+  category: string;
+  description: string;
+  effective_date: string | null;
+  deletion_date: string | null;
+}
+
+export interface ModifierCatalog {
+  modifiers: Map<string, ModifierCatalogEntry[]>; // code -> versions
+  exclusions: Map<string, string>;                // "A|B" (A < B) -> reason
+  loadedAt: number;
+}
+
+// Everything a rule may look at; edits and reference data are loaded once by validateClaim
+export interface RuleContext {
+  claim: ClaimValidationInput;
+  providerType: string;
+  program: NcciProgram;
+  dateOfService: string;
+  codes: string[];     // CPT/HCPCS codes in claim order
+  icdCodes: string[];
+  lines: ClaimLine[];
+  perLineModifiers: boolean; // Modifiers come from service_lines rather than the claim-level list
+  edits: NcciClaimEdits;     // Edits in force on dateOfService
+  editsByDate: Map<string, NcciClaimEdits>; // Edits in force on each line date of service
+  modifierCatalog: ModifierCatalog;
+  editsInForce: boolean;     // Whether any PTP or MUE edit for the program and provider type covers dateOfService
+}
+
+export interface RuleModule {
+  id: string;
+  description: string;
+  run(context: RuleContext): RuleIssue[] | Promise<RuleIssue[]>;
+}
+
+export interface RuleSummary {
+  errors: RuleIssue[];
+  warnings: RuleIssue[];
+  passes: RuleIssue[];
+  is_valid: boolean;
+  risk_score: number;
+  risk_breakdown: RiskBreakdown;
+}
+
+// -------------------------------
+// Format rules
+// -------------------------------
+const ICD10_CM_FORMAT = /^[A-TV-Z][0-9][0-9A-Z](?:\.[0-9A-Z]{1,4})?$/;
+
+export const formatRule: RuleModule = {
+  id: 'format',
+  description: 'ICD-10-CM, revenue code and diagnosis pointer syntax',
+  run({ icdCodes, claim, lines }) {
+    const issues: RuleIssue[] = [];
+
+    // Revenue codes are 3 digits, or 4 with the UB-04 leading zero
+    for (const code of claim.revenue_codes || []) {
+      if (!/^0?[0-9]{3}$/.test(code)) {
+        issues.push({
+          rule_id: 'format',
+          type: 'REVENUE_CODE_INVALID',
+          severity: 'error',
+          message: `Invalid revenue code format: ${code}. Revenue codes must be 3 digits, or 4 with a leading 0.`,
+          evidence: { code },
+          fix: 'Use a 4-digit revenue code such as 0450'
+        });
+      }
+    }
+
+    const icdBad = icdCodes.filter(code => !ICD10_CM_FORMAT.test(code));
+    if (icdBad.length) {
+      issues.push({
+        rule_id: 'format',
+        type: 'ICD_FORMAT',
+        severity: 'error',
+        message: `Invalid ICD-10-CM format: ${icdBad.join(', ')}`,
+        evidence: { codes: icdBad },
+        fix: 'Verify ICD-10-CM code format'
+      });
+    } else {
+      issues.push({ rule_id: 'format', type: 'ICD_FORMAT', severity: 'pass', message: 'ICD-10-CM codes are syntactically valid.' });
+    }
+
+    // Diagnosis pointers must name a diagnosis on the claim
+    for (const line of lines) {
+      const bad = line.diagnosis_pointers.filter(pointer => !Number.isInteger(pointer) || pointer < 1 || pointer > icdCodes.length);
+      if (bad.length) {
+        issues.push({
+          rule_id: 'format',
+          type: 'DIAGNOSIS_POINTER_INVALID',
+          severity: 'error',
+          message: `Line ${line.line} (${line.code}) points to diagnosis ${bad.join(', ')}, but the claim lists ${icdCodes.length}.`,
+          evidence: { line: line.line, code: line.code, diagnosis_pointers: line.diagnosis_pointers, icd10_count: icdCodes.length },
+          fix: `Point line ${line.line} at diagnoses 1-${icdCodes.length}`
+        });
+      }
+    }
+
+    return issues;
+  }
+};
+
+// Edits are filtered to the date of service; warn when nothing loaded covers that date
+export const effectiveDateRule: RuleModule = {
+  id: 'effective_date',
+  description: 'NCCI edits are loaded for the date of service',
+  run({ editsInForce, program, providerType, dateOfService }) {
+    if (editsInForce) return [];
+    return [{
+      rule_id: 'effective_date',
+      type: 'EFFECTIVE_DATE_INVALID',
+      severity: 'warning',
+      message: `No ${program} ${providerType} PTP or MUE edits are loaded for date of service ${dateOfService}. Load the CMS quarterly files covering this date.`,
+      evidence: { dateOfService, providerType, program },
+      fix: 'Load the CMS quarterly NCCI files covering the date of service'
+    }];
+  }
+};
+
+// -------------------------------
+// Place of service
+// -------------------------------
+// Valid POS codes (simplified list)
+const VALID_POS_CODES = [
+  '01', '02', '03', '04', '05', '06', '07', '08', '09', '10', '11', '12', '13', '14', '15', '16', '17', '18', '19', '20',
+  '21', '22', '23', '24', '25', '26', '31', '32', '33', '34', '41', '42', '49', '50', '51', '52', '53', '54', '55', '56',
+  '57', '58', '59', '60', '61', '62', '65', '71', '72', '81', '82', '99'
+];
+
+export const placeOfServiceRule: RuleModule = {
+  id: 'pos',
+  description: 'Place of service code is a CMS POS code',
+  run({ claim }) {
+    const pos = claim.place_of_service || '';
+    if (!pos || VALID_POS_CODES.includes(pos)) return [];
+    return [{
+      rule_id: 'pos',
+      type: 'POS_INVALID',
+      severity: 'error',
+      message: `Invalid place of service code: ${pos}`,
+      evidence: { pos },
+      fix: 'Use a 2-digit CMS place of service code'
+    }];
+  }
+};
+
+// -------------------------------
+// Modifiers
+// -------------------------------
+const MODIFIER_FORMAT = /^[A-Z0-9]{2}$/;
+
+/**
+ * Check modifier format, modifiers not yet effective or already deleted on the date of service, and
+ * mutually exclusive pairs from the catalog. Exclusions only apply within one claim line. Without
+ * per-line modifiers, the claim-level list is one line only when the claim has a single code;
+ * otherwise modifiers cannot be attributed and exclusions are skipped.
+ */
+export const modifierRule: RuleModule = {
+  id: 'modifiers',
+  description: 'Modifier format, effective dates and mutually exclusive pairs',
+  run({ claim, codes, lines, perLineModifiers, modifierCatalog: catalog, dateOfService }) {
+    const issues: RuleIssue[] = [];
+    const claimModifiers = claim.modifiers || [];
+    const modifierLines = perLineModifiers
+      ? lines.map(line => line.modifiers).filter(list => list.length > 0)
+      : new Set(codes).size <= 1 ? [claimModifiers] : claimModifiers.map(m => [m]);
+    const checked = new Set<string>();
+
+    for (const line of modifierLines) {
+      const modifiers = line.map(m => m.trim().toUpperCase());
+
+      for (const modifier of modifiers) {
+        if (checked.has(modifier)) continue;
+        checked.add(modifier);
+
+        if (!MODIFIER_FORMAT.test(modifier)) {
+          issues.push({
+            rule_id: 'modifiers',
+            type: 'MODIFIER_INVALID',
+            severity: 'error',
+            message: `Invalid modifier format: ${modifier}. Modifiers must be 2 alphanumeric characters.`,
+            evidence: { modifier },
+            fix: 'Use a 2-character CPT or HCPCS Level II modifier'
+          });
+          continue;
+        }
+
+        // Codes missing from the catalog are not flagged; it does not list every HCPCS modifier
+        const versions = catalog.modifiers.get(modifier);
+        if (versions && !versions.some(v => (!v.effective_date || v.effective_date <= dateOfService) && (!v.deletion_date || v.deletion_date > dateOfService))) {
+          issues.push({
+            rule_id: 'modifiers',
+            type: 'MODIFIER_INVALID',
+            severity: 'error',
+            message: `Modifier ${modifier} (${versions[0].description}) is not valid on date of service ${dateOfService}.`,
+            evidence: { modifier, dateOfService, versions },
+            fix: `Remove modifier ${modifier} or use the modifier that replaced it on ${dateOfService}`
+          });
+        }
+      }
+
+      const unique = [...new Set(modifiers)].sort();
+      for (let i = 0; i < unique.length; i++) {
+        for (let j = i + 1; j < unique.length; j++) {
+          const reason = catalog.exclusions.get(`${unique[i]}|${unique[j]}`);
+          if (reason) {
+            issues.push({
+              rule_id: 'modifiers',
+              type: 'MODIFIER_INAPPROPRIATE',
+              severity: 'warning',
+              message: `Modifiers ${unique[i]} and ${unique[j]} cannot be reported on the same line: ${reason}.`,
+              evidence: { modifier: unique[i], conflictingModifiers: [unique[j]], reason },
+              fix: `Keep only one of ${unique[i]} and ${unique[j]} on the line`
+            });
+          }
+        }
+      }
+    }
+
+    return issues;
+  }
+};
+
+/**
+ * Claim codes grouped by the date of service of their lines, each group in claim order
+ */
+function codesByDate(codes: string[], lines: ClaimLine[]): Map<string, string[]> {
+  const groups = new Map<string, string[]>();
+  lines.forEach(line => {
+    const group = groups.get(line.date_of_service) || [];
+    if (!group.includes(line.code)) group.push(line.code);
+    groups.set(line.date_of_service, group);
+  });
+  groups.forEach((group, date) => groups.set(date, codes.filter(code => group.includes(code))));
+  return groups;
+}
+
+// -------------------------------
+// AOC
+// -------------------------------
+// Each add-on line is checked against the AOC edits in force on its own date of service
+export const aocRule: RuleModule = {
+  id: 'aoc',
+  description: 'Add-on codes are billed with an allowed primary code',
+  run({ codes, lines, editsByDate }) {
+    const issues: RuleIssue[] = [];
+    const primaries = new Set(codes);
+    const checked = new Set<string>();
+
+    for (const [dateOfService, dateCodes] of codesByDate(codes, lines)) {
+      for (const code of dateCodes) {
+        const aocPrimaries = [...new Set(editsByDate.get(dateOfService)?.aoc.get(code) || [])];
+        if (!aocPrimaries.length || checked.has(code)) continue;
+        checked.add(code);
+
+        if (!aocPrimaries.some(primary => primaries.has(primary))) {
+          issues.push({
+            rule_id: 'aoc',
+            type: 'AOC_PRIMARY_MISSING',
+            severity: 'error',
+            message: `Add-on code ${code} requires an allowed primary code (${aocPrimaries.join(', ')}) on the same claim.`,
+            evidence: { addon: code, requiredPrimaries: aocPrimaries, date_of_service: dateOfService },
+            fix: `Add one of the primary codes ${aocPrimaries.join(', ')} or remove add-on code ${code}`
+          });
+        } else {
+          issues.push({ rule_id: 'aoc', type: 'AOC', severity: 'pass', message: `Add-on code ${code}: primary present.`, evidence: { addon: code, date_of_service: dateOfService } });
+        }
+      }
+    }
+
+    return issues;
+  }
+};
+
+// -------------------------------
+// MUE
+// -------------------------------
+const MAI_DESCRIPTIONS: Record<number, string> = {
+  1: 'MAI 1: claim line edit; appealable',
+  2: 'MAI 2: policy date of service edit; units above the limit are not paid on appeal',
+  3: 'MAI 3: clinical date of service edit; appealable with medical necessity documentation'
+};
+
+/**
+ * MUE checks per the adjudication indicator. MAI 1 limits the units on each line; MAI 2 and 3 limit
+ * the units for a code summed across all lines on the same date of service. MAI 2 overages are errors;
+ * MAI 1 and 3 overages can be appealed, so they are warnings with `evidence.appealable`. Edits loaded
+ * without an MAI are per-line errors.
+ */
+export const mueRule: RuleModule = {
+  id: 'mue',
+  description: 'Units within the Medically Unlikely Edit for the line or date of service',
+  run({ lines, editsByDate, providerType }) {
+    const issues: RuleIssue[] = [];
+    const groups = new Map<string, { edit: NcciMueEdit; code: string; dateOfService: string; units: number; lines: number[] }>();
+
+    lines.forEach(line => {
+      const edit = editsByDate.get(line.date_of_service)?.mue.get(line.code);
+      if (!edit || !Number.isFinite(edit.value)) return;
+      // Rows without an MAI keep the behavior from before MAIs were loaded: a hard per-line limit
+      const key = edit.mai === 2 || edit.mai === 3 ? `${line.code}|${line.date_of_service}` : `line ${line.line}`;
+      const group = groups.get(key) || { edit, code: line.code, dateOfService: line.date_of_service, units: 0, lines: [] };
+      group.units += line.units;
+      group.lines.push(line.line);
+      groups.set(key, group);
+    });
+
+    groups.forEach(({ edit, code, dateOfService, units, lines: lineNumbers }) => {
+      const { mai } = edit;
+      const appealable = mai === 1 || mai === 3;
+      const scope = mai === 2 || mai === 3 ? `on ${dateOfService} (line${lineNumbers.length > 1 ? 's' : ''} ${lineNumbers.join(', ')})` : `on line ${lineNumbers[0]}`;
+      const evidence = { code, units, mue: edit.value, mai, rationale: edit.rationale, date_of_service: dateOfService, lines: lineNumbers, appealable };
+
+      if (units > edit.value) {
+        const details = [mai ? MAI_DESCRIPTIONS[mai] : null, edit.rationale ? `rationale: ${edit.rationale}` : null].filter(Boolean);
+        issues.push({
+          rule_id: 'mue',
+          type: 'MUE_EXCEEDED',
+          severity: appealable ? 'warning' : 'error',
+          message: `CPT ${code} units ${units} ${scope} exceed MUE limit ${edit.value} for ${providerType}${details.length ? ` (${details.join('; ')})` : ''}.`,
+          evidence,
+          fix: appealable
+            ? `Reduce units to ${edit.value} or submit medical necessity documentation to appeal`
+            : `Reduce units to ${edit.value}; units above the limit are not payable`
+        });
+      } else {
+        issues.push({ rule_id: 'mue', type: 'MUE', severity: 'pass', message: `CPT ${code} units=${units} ${scope} within MUE limit (${edit.value}).`, evidence });
+      }
+    });
+
+    return issues;
+  }
+};
+
+// -------------------------------
+// PTP
+// -------------------------------
+// NCCI-associated modifiers (NCCI Policy Manual, Chapter I) and the code pairs each may bypass a PTP edit on
+const ANATOMIC_MODIFIERS = [
+  'E1', 'E2', 'E3', 'E4',
+  'FA', 'F1', 'F2', 'F3', 'F4', 'F5', 'F6', 'F7', 'F8', 'F9',
+  'TA', 'T1', 'T2', 'T3', 'T4', 'T5', 'T6', 'T7', 'T8', 'T9',
+  'LT', 'RT', 'LC', 'LD', 'LM', 'RC', 'RI'
+];
+const EM_CODE = /^(99[2-4]\d\d|9200[2-9]|9201[0-4])$/;
+const LAB_CODE = /^8\d{4}$/;
+
+interface PtpBypassRule {
+  label: string;
+  modifiers: string[];
+  applies: (c1: string, c2: string, providerType: string) => boolean;
+}
+
+const PTP_BYPASS_RULES: PtpBypassRule[] = [
+  // Separately identifiable E&M, decision for surgery, or unrelated postoperative E&M alongside a procedure
+  { label: '25/57/24', modifiers: ['25', '57', '24'], applies: (c1, c2) => EM_CODE.test(c1) !== EM_CODE.test(c2) },
+  // Multiple outpatient hospital E&M encounters on the same date
+  { label: '27', modifiers: ['27'], applies: (c1, c2, providerType) => providerType === 'hospital' && EM_CODE.test(c1) && EM_CODE.test(c2) },
+  // Distinct procedural service
+  { label: '59/XE/XP/XS/XU', modifiers: ['59', 'XE', 'XP', 'XS', 'XU'], applies: (c1, c2) => !EM_CODE.test(c1) && !EM_CODE.test(c2) },
+  // Procedures on different anatomic sites
+  { label: 'anatomic (E1-E4, FA-F9, TA-T9, LT/RT, LC/LD/LM/RC/RI)', modifiers: ANATOMIC_MODIFIERS, applies: (c1, c2) => !EM_CODE.test(c1) && !EM_CODE.test(c2) },
+  // Staged, related or unrelated procedure during a postoperative period
+  { label: '58/78/79', modifiers: ['58', '78', '79'], applies: (c1, c2) => !EM_CODE.test(c1) && !EM_CODE.test(c2) },
+  // Repeat clinical diagnostic laboratory test
+  { label: '91', modifiers: ['91'], applies: (c1, c2) => LAB_CODE.test(c1) && LAB_CODE.test(c2) }
+];
+
+/**
+ * NCCI-associated modifiers that can bypass a PTP edit on this pair. E&M modifiers only apply when
+ * the pair is an E&M service and a procedure, 27 only to two outpatient hospital E&M services, 59/X{EPSU},
+ * anatomic and postoperative modifiers only to two procedures, and 91 only to two lab tests.
+ */
+export function getPtpBypassModifiers(c1: string, c2: string, providerType: string): string[] {
+  return PTP_BYPASS_RULES.filter(rule => rule.applies(c1, c2, providerType)).flatMap(rule => rule.modifiers);
+}
+
+const NCCI_ASSOCIATED_MODIFIERS = new Set(PTP_BYPASS_RULES.flatMap(rule => rule.modifiers));
+
+/**
+ * Modifier that bypasses a PTP edit with indicator 1, or null. `modifiersFor` returns the modifiers
+ * on the lines for a code. An anatomic modifier only counts when the two codes' lines name different
+ * sites; with claim-level modifiers the sites cannot be told apart, so any anatomic modifier counts.
+ */
+function findPtpBypass(
+  c1: string,
+  c2: string,
+  providerType: string,
+  modifiersFor: (code: string) => string[],
+  perLine: boolean
+): string | null {
+  const allowed = new Set(getPtpBypassModifiers(c1, c2, providerType));
+  const mods1 = modifiersFor(c1);
+  const mods2 = modifiersFor(c2);
+
+  for (const modifier of [...mods2, ...mods1]) {
+    if (!allowed.has(modifier)) continue;
+    if (!ANATOMIC_MODIFIERS.includes(modifier) || !perLine) return modifier;
+
+    const sites1 = mods1.filter(m => ANATOMIC_MODIFIERS.includes(m));
+    const sites2 = mods2.filter(m => ANATOMIC_MODIFIERS.includes(m));
+    if (sites1.length > 0 && sites2.length > 0 && !sites1.some(site => sites2.includes(site))) return modifier;
+  }
+  return null;
+}
+
+// "97140" for claim-level modifiers, "97140 (line 2)" when modifiers are reported per line
+function describeTarget(code: string, linesFor: ((code: string) => number[]) | null): string {
+  const lineNumbers = linesFor ? linesFor(code) : [];
+  if (lineNumbers.length === 0) return code;
+  return `${code} (line${lineNumbers.length > 1 ? 's' : ''} ${lineNumbers.join(', ')})`;
+}
+
+// Disallowed pairs on the same date of service unless an NCCI-associated modifier that applies to the pair is present
+export const ptpRule: RuleModule = {
+  id: 'ptp',
+  description: 'Procedure-to-procedure edits and NCCI-associated modifier bypasses',
+  run({ claim, codes, lines, perLineModifiers, editsByDate, providerType }) {
+    const issues: RuleIssue[] = [];
+    const modifiersFor = (code: string) => (perLineModifiers
+      ? lines.filter(line => line.code === code).flatMap(line => line.modifiers)
+      : claim.modifiers || []
+    ).map(m => m.trim().toUpperCase());
+    // Line numbers of each code, so a modifier fix can name the line it belongs on
+    const linesFor = (code: string) => lines.filter(line => line.code === code).map(line => line.line);
+
+    // PTP edits apply to two codes billed on the same date of service, using the edits in force that day
+    const paired = new Set<string>();
+    for (const [dateOfService, dateCodes] of codesByDate(codes, lines)) {
+      const ptpEdits = editsByDate.get(dateOfService)?.ptp;
+      for (let i = 0; i < dateCodes.length; i++) {
+        for (let j = 0; j < dateCodes.length; j++) {
+          if (i === j) continue;
+          const c1 = dateCodes[i], c2 = dateCodes[j];
+          const modifierIndicator = ptpEdits?.get(`${c1}|${c2}`);
+          if (modifierIndicator === undefined || paired.has(`${c1}|${c2}`)) continue;
+          paired.add(`${c1}|${c2}`);
+
+          const indicator = modifierIndicator.trim();
+          // Indicator 9: the edit was deleted retroactively and never applies
+          if (indicator === '9') continue;
+
+          if (indicator === '0' || indicator === 'N') {
+            issues.push({
+              rule_id: 'ptp',
+              type: 'PTP_BLOCKED',
+              severity: 'error',
+              message: `PTP edit blocks billing ${c1}+${c2} together for ${providerType} (modifier indicator ${indicator}).`,
+              evidence: { c1, c2, indicator },
+              fix: `Remove column 2 code ${c2}; no modifier bypasses this edit`
+            });
+          } else if (indicator === '1' || indicator === 'Y') {
+            const bypass = findPtpBypass(c1, c2, providerType, modifiersFor, perLineModifiers);
+            if (!bypass) {
+              const requiredModifiers = getPtpBypassModifiers(c1, c2, providerType);
+              const labels = PTP_BYPASS_RULES.filter(rule => rule.applies(c1, c2, providerType)).map(rule => rule.label);
+              // NCCI-associated modifiers on the claim that do not apply to this kind of pair, e.g. 59 on an E&M pair
+              const inapplicable = [...new Set([...modifiersFor(c1), ...modifiersFor(c2)])]
+                .filter(m => NCCI_ASSOCIATED_MODIFIERS.has(m) && !requiredModifiers.includes(m));
+              issues.push({
+                rule_id: 'ptp',
+                type: 'PTP_NEEDS_MODIFIER',
+                severity: 'error',
+                message: (labels.length
+                  ? `PTP edit for ${c1}+${c2} requires an NCCI-associated modifier: ${labels.join(', ')}.`
+                  : `PTP edit for ${c1}+${c2} cannot be bypassed: no NCCI-associated modifier applies to this pair.`)
+                  + (inapplicable.length ? ` ${inapplicable.join(', ')} does not apply to this pair.` : ''),
+                evidence: { c1, c2, indicator, c1_lines: linesFor(c1), c2_lines: linesFor(c2), requiredModifiers, inapplicableModifiers: inapplicable },
+                // E&M modifiers go on the E&M line, the others on the column 2 code
+                fix: labels.length
+                  ? `Add ${labels.join(' or ')} to ${describeTarget(EM_CODE.test(c1) && !EM_CODE.test(c2) ? c1 : c2, perLineModifiers ? linesFor : null)} if the documentation supports a separate service; otherwise remove ${c2}`
+                  : `Remove column 2 code ${c2}`
+              });
+            } else {
+              issues.push({
+                rule_id: 'ptp',
+                type: 'PTP_BYPASSED',
+                severity: 'pass',
+                message: `PTP edit for ${c1}+${c2} bypassed by modifier ${bypass}.`,
+                evidence: { c1, c2, indicator, c1_lines: linesFor(c1), c2_lines: linesFor(c2), modifier: bypass }
+              });
+            }
+          } else {
+            // Unknown indicator => conservative
+            issues.push({
+              rule_id: 'ptp',
+              type: 'PTP_UNKNOWN_INDICATOR',
+              severity: 'warning',
+              message: `PTP ${c1}+${c2} has unrecognized modifier indicator "${indicator}". Treating as potential conflict.`,
+              evidence: { c1, c2, indicator },
+              fix: 'Review the CMS PTP edit for this pair'
+            });
+          }
+        }
+      }
+    }
+
+    return issues;
+  }
+};
+
+// -------------------------------
+// Frequency
+// -------------------------------
+interface FrequencyLimit {
+  per_day?: number;
+  per_year?: number;
+}
+
+let frequencyLimits: Map<string, FrequencyLimit> | null = null;
+
+// Per-day and annual limits from the static reference file (src/data/cms-ncci-2025.json)
+function getFrequencyLimits(): Map<string, FrequencyLimit> {
+  if (frequencyLimits) return frequencyLimits;
+
+  frequencyLimits = new Map();
+  try {
+    const data = JSON.parse(fs.readFileSync(path.join(__dirname, '../data/cms-ncci-2025.json'), 'utf8'));
+    Object.entries<any>(data.cpt_codes || {}).forEach(([code, rule]) => {
+      const limits = rule.bundling_rules?.frequency_limits;
+      if (limits) frequencyLimits!.set(code, { per_day: limits.per_day, per_year: limits.per_year });
+    });
+  } catch (error) {
+    console.warn('⚠️  Frequency limits unavailable:', error instanceof Error ? error.message : error);
+  }
+  return frequencyLimits;
+}
+
+/**
+ * Units per code and date of service above the per-day limit, and a reminder for codes with an annual
+ * limit (claim history is not available here, so it cannot be counted)
+ */
+export const frequencyRule: RuleModule = {
+  id: 'frequency',
+  description: 'Per-day and annual frequency limits',
+  run({ lines }) {
+    const issues: RuleIssue[] = [];
+    const limits = getFrequencyLimits();
+    const perDay = new Map<string, { code: string; dateOfService: string; units: number }>();
+
+    lines.forEach(line => {
+      const key = `${line.code}|${line.date_of_service}`;
+      const total = perDay.get(key) || { code: line.code, dateOfService: line.date_of_service, units: 0 };
+      total.units += line.units;
+      perDay.set(key, total);
+    });
+
+    perDay.forEach(({ code, dateOfService, units }) => {
+      const limit = limits.get(code)?.per_day;
+      if (limit && units > limit) {
+        issues.push({
+          rule_id: 'frequency',
+          type: 'FREQUENCY_EXCEEDED',
+          severity: 'error',
+          message: `CPT ${code} billed ${units} times on ${dateOfService}; limited to ${limit} per day.`,
+          evidence: { code, date_of_service: dateOfService, units, per_day: limit },
+          fix: 'Remove duplicate services for the same day'
+        });
+      }
+    });
+
+    new Set(lines.map(line => line.code)).forEach(code => {
+      const limit = limits.get(code)?.per_year;
+      if (limit) {
+        issues.push({
+          rule_id: 'frequency',
+          type: 'FREQUENCY_LIMIT',
+          severity: 'warning',
+          message: `CPT ${code} is limited to ${limit} per year.`,
+          evidence: { code, per_year: limit },
+          fix: 'Verify the annual frequency limit is not exceeded'
+        });
+      }
+    });
+
+    return issues;
+  }
+};
+
+// -------------------------------
+// Policy
+// -------------------------------
+// CPT↔ICD↔payer medical necessity and coverage cannot be decided from the NCCI tables; hand it to research
+export const policyRule: RuleModule = {
+  id: 'policy',
+  description: 'Flags CPT/ICD combinations for payer policy research',
+  run({ codes, icdCodes, providerType, program, dateOfService, claim }) {
+    if (!icdCodes.length || !codes.length) return [];
+
+    const cpts = codes.join(', ');
+    const icds = icdCodes.join(', ');
+    return [{
+      rule_id: 'policy',
+      type: 'NEEDS_POLICY_CHECK',
+      severity: 'warning',
+      message: `Policy validation required for CPT ${cpts} with ICD-10 ${icds}. This requires payer-specific policy research.`,
+      evidence: {
+        cpt_codes: codes,
+        icd10_codes: icdCodes,
+        provider_type: providerType,
+        program,
+        claim_date: dateOfService,
+        note_summary: claim.note_summary || 'No clinical notes provided',
+        validation_types: ['Medical Necessity', 'Policy Coverage', 'LCD/NCD Research', 'Payer-Specific Rules'],
+        research_questions: [
+          `Are there any Local Coverage Determinations (LCD) or National Coverage Determinations (NCD) that apply to CPT ${cpts} with diagnosis ${icds}?`,
+          `What are the coverage criteria for CPT ${cpts} with diagnosis ${icds}?`,
+          `What documentation requirements exist for CPT ${cpts} with ${icds}?`,
+          `Are there any commercial payer policies that affect coverage for these codes?`,
+          `What are the medical necessity requirements for this CPT/ICD combination?`
+        ]
+      },
+      fix: 'Verify payer-specific policy requirements'
+    }];
+  }
+};
+
+// -------------------------------
+// Engine
+// -------------------------------
+export const DEFAULT_RULE_MODULES: RuleModule[] = [
+  modifierRule,
+  placeOfServiceRule,
+  effectiveDateRule,
+  formatRule,
+  aocRule,
+  mueRule,
+  ptpRule,
+  frequencyRule,
+  payerRule,
+  policyRule
+];
+
+/**
+ * Run rule modules in order. A module that throws is reported as a RULE_UNAVAILABLE warning so one
+ * broken rule does not fail the whole check.
+ */
+export async function runRules(context: RuleContext, modules: RuleModule[] = DEFAULT_RULE_MODULES): Promise<RuleIssue[]> {
+  const issues: RuleIssue[] = [];
+
+  for (const module of modules) {
+    try {
+      issues.push(...await module.run(context));
+    } catch (error) {
+      console.error(`❌ Rule module ${module.id} failed:`, error);
+      issues.push({
+        rule_id: module.id,
+        type: 'RULE_UNAVAILABLE',
+        severity: 'warning',
+        message: `Rule ${module.id} (${module.description}) could not be evaluated.`,
+        evidence: { error: error instanceof Error ? error.message : String(error) },
+        fix: 'Review this check manually'
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Split issues by severity and score them with the tenant's weights (see risk-scoring.ts)
+ */
+export function summarizeRuleIssues(issues: RuleIssue[], tenantId?: string): RuleSummary {
+  const errors = issues.filter(issue => issue.severity === 'error');
+  const warnings = issues.filter(issue => issue.severity === 'warning');
+  const passes = issues.filter(issue => issue.severity === 'pass');
+
+  return {
+    errors,
+    warnings,
+    passes,
+    is_valid: errors.length === 0,
+    ...scoreRuleIssues(issues, tenantId)
+  };
+}
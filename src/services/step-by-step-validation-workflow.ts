@@ -26,6 +26,15 @@ export interface ValidationStepResult {
   escalation_reason?: string;
 }
 
+export interface ValidationWorkflowOptions {
+  claimId?: string;
+  onClaimValidationCreated?: (claimValidationId: string) => Promise<void> | void;
+  // Rethrow workflow errors instead of returning a DENIED failure result, so a background job fails
+  throwOnFailure?: boolean;
+  // Reuse the record already stored for claimId (a retried job), dropping the earlier attempt's steps
+  reuseClaimValidation?: boolean;
+}
+
 export class StepByStepValidationWorkflow {
   private sanityCheckAgent: SanityCheckAgent;
   private plannerAgent: PlannerAgent;
@@ -67,9 +76,9 @@ export class StepByStepValidationWorkflow {
   /**
    * Execute the complete validation workflow with step-by-step storage
    */
-  async validateClaim(payload: ClaimPayload): Promise<EvaluatorDecision> {
+  async validateClaim(payload: ClaimPayload, options: ValidationWorkflowOptions = {}): Promise<EvaluatorDecision> {
     const startTime = Date.now();
-    const claimId = `CLM-${Date.now()}`;
+    const claimId = options.claimId || `CLM-${Date.now()}`;
     let claimValidationId: string | null = null;
     const stepResults: ValidationStepResult[] = [];
 
@@ -80,7 +89,10 @@ export class StepByStepValidationWorkflow {
       console.log(`📊 ICD-10 Codes: ${payload.icd10_codes.join(', ')}`);
 
       // Initialize claim validation record
-      claimValidationId = await this.initializeClaimValidation(claimId, payload);
+      claimValidationId = await this.initializeClaimValidation(claimId, payload, options.reuseClaimValidation);
+      if (options.onClaimValidationCreated) {
+        await options.onClaimValidationCreated(claimValidationId);
+      }
 
       // Step 1: Sanity Check
       const sanityStepResult = await this.executeSanityCheckStep(
@@ -106,7 +118,7 @@ export class StepByStepValidationWorkflow {
 
       if (plannerStepResult.status === 'failed') {
         console.log('❌ Planner step failed - stopping workflow');
-        return await this.createFailureResult(claimId, stepResults, startTime);
+        throw new Error(`Planner step failed: ${plannerStepResult.errors?.join('; ') || 'Unknown error'}`);
       }
 
       // Step 3: Research + Review Agent (per question)
@@ -121,7 +133,8 @@ export class StepByStepValidationWorkflow {
       const evaluatorStepResult = await this.executeEvaluatorStep(
         claimValidationId,
         plannerStepResult.output_data.questions,
-        stepResults.length + 1
+        stepResults.length + 1,
+        payload
       );
       stepResults.push(evaluatorStepResult);
 
@@ -144,6 +157,11 @@ export class StepByStepValidationWorkflow {
       // Store error information
       if (claimValidationId) {
         await this.storeErrorStep(claimValidationId, 'workflow_error', error, stepResults.length + 1);
+        await this.markWorkflowFailure(claimValidationId, error);
+      }
+
+      if (options.throwOnFailure) {
+        throw error;
       }
 
       const failureResult = await this.createFailureResult(claimId, stepResults, startTime, error);
@@ -157,7 +175,7 @@ export class StepByStepValidationWorkflow {
   /**
    * Initialize claim validation record
    */
-  private async initializeClaimValidation(claimId: string, payload: ClaimPayload): Promise<string> {
+  private async initializeClaimValidation(claimId: string, payload: ClaimPayload, reuseExisting: boolean = false): Promise<string> {
     const stepStartTime = Date.now();
     
     try {
@@ -186,6 +204,15 @@ export class StepByStepValidationWorkflow {
         }
       };
 
+      // A retried job restarts on the record its earlier attempt created
+      const existingId = reuseExisting
+        ? await this.claimStorageService.resetClaimValidation(claimId, payload, initialResult)
+        : null;
+      if (existingId) {
+        console.log(`♻️ Reusing claim validation record ${existingId} for ${claimId}`);
+        return existingId;
+      }
+
       let claimValidationId: string;
       try {
         claimValidationId = await this.claimStorageService.storeClaimValidation(
@@ -280,6 +307,17 @@ export class StepByStepValidationWorkflow {
       // Store detailed sanity check results
       await this.claimStorageService.storeSanityCheckResults(claimValidationId, sanityResult);
 
+      // Record which NCCI ruleset versions the decision was based on, and the weighted risk score for work queues
+      const { rulesets, risk_score, risk_breakdown } = sanityResult.cms_ncci_validation;
+      if (rulesets || risk_breakdown) {
+        await this.claimStorageService.updateClaimValidation(claimValidationId, {
+          metadata: {
+            ...(rulesets ? { ncci_rulesets: rulesets } : {}),
+            ...(risk_breakdown ? { risk_score, risk_breakdown } : {})
+          }
+        });
+      }
+
       return stepResult;
 
     } catch (error) {
@@ -605,7 +643,8 @@ export class StepByStepValidationWorkflow {
   private async executeEvaluatorStep(
     claimValidationId: string,
     questions: ValidationQuestion[],
-    stepOrder: number
+    stepOrder: number,
+    payload?: ClaimPayload
   ): Promise<ValidationStepResult> {
     const stepStartTime = Date.now();
     console.log(`\n🎯 STEP ${stepOrder}: EVALUATOR AGENT`);
@@ -616,7 +655,8 @@ export class StepByStepValidationWorkflow {
         claimValidationId,
         this.finalReviewerResults, // Use the stored reviewer results
         questions,
-        stepStartTime
+        stepStartTime,
+        payload
       );
       
       const stepEndTime = Date.now();
@@ -784,6 +824,24 @@ export class StepByStepValidationWorkflow {
     }
   }
 
+  /**
+   * Flag the claim validation record as a workflow failure, so reports don't read its status as a decision
+   */
+  private async markWorkflowFailure(claimValidationId: string, error: any): Promise<void> {
+    try {
+      await this.claimStorageService.updateClaimValidation(claimValidationId, {
+        metadata: {
+          workflow_failure: {
+            error: error instanceof Error ? error.message : 'Unknown error',
+            failed_at: new Date().toISOString()
+          }
+        }
+      });
+    } catch (storageError) {
+      console.error('❌ Failed to mark workflow failure:', storageError);
+    }
+  }
+
   /**
    * Create failure result
    */
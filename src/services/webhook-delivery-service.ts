@@ -0,0 +1,534 @@
+import { Pool } from 'pg';
+import axios from 'axios';
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+// Retry policy: exponential backoff (base * 2^(attempt-1)) capped at WEBHOOK_RETRY_MAX_MS
+const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6', 10);
+const WEBHOOK_RETRY_BASE_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '2000', 10);
+const WEBHOOK_RETRY_MAX_MS = parseInt(process.env.WEBHOOK_RETRY_MAX_MS || '300000', 10);
+const WEBHOOK_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10);
+// An attempt holds its delivery for the request timeout plus a margin, so no other process sends it meanwhile
+const WEBHOOK_LEASE_MS = WEBHOOK_TIMEOUT_MS + 30000;
+const WEBHOOK_SWEEP_INTERVAL_MS = parseInt(process.env.WEBHOOK_SWEEP_INTERVAL_MS || '30000', 10);
+
+// Callback hosts: optional allow-list (exact host or subdomain); private addresses only for local development
+const WEBHOOK_ALLOWED_HOSTS = (process.env.WEBHOOK_ALLOWED_HOSTS || '')
+  .split(',')
+  .map(host => host.trim().toLowerCase())
+  .filter(Boolean);
+const WEBHOOK_ALLOW_PRIVATE_HOSTS = process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS === 'true';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-ClaimForge-Signature';
+
+export interface WebhookDeliveryRecord {
+  id: string;
+  claim_id: string;
+  event_type: string;
+  callback_url: string;
+  payload: any;
+  status: 'pending' | 'delivered' | 'dead_lettered';
+  attempt_count: number;
+  next_attempt_at?: Date;
+  last_error?: string;
+  delivered_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+  attempts?: WebhookDeliveryAttemptRecord[];
+}
+
+export interface WebhookDeliveryAttemptRecord {
+  id: string;
+  delivery_id: string;
+  attempt_number: number;
+  response_status?: number;
+  response_body?: string;
+  error_message?: string;
+  duration_ms: number;
+  success: boolean;
+  attempted_at: Date;
+}
+
+export interface WebhookDeadLetterRecord {
+  id: string;
+  delivery_id: string;
+  claim_id: string;
+  callback_url: string;
+  payload: any;
+  attempt_count: number;
+  last_error?: string;
+  requeued_at?: Date;
+  created_at: Date;
+}
+
+/**
+ * Compute the signature header value for a webhook body.
+ * Receivers recompute HMAC-SHA256(secret, `${t}.${body}`) and compare it with v1.
+ */
+export function signWebhookPayload(body: string, timestamp: number, secret: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Delay before the attempt that follows attempt number `attemptNumber`
+ */
+export function getRetryDelayMs(attemptNumber: number): number {
+  return Math.min(WEBHOOK_RETRY_MAX_MS, WEBHOOK_RETRY_BASE_MS * Math.pow(2, Math.max(0, attemptNumber - 1)));
+}
+
+/**
+ * Network errors, timeouts, 408, 429 and 5xx are worth retrying; other responses are permanent failures
+ */
+export function isRetryableStatus(status?: number): boolean {
+  if (status === undefined) return true;
+  return status === 408 || status === 429 || status >= 500;
+}
+
+// Loopback, private, link-local, CGNAT, multicast and reserved ranges a callback must never reach
+const BLOCKED_ADDRESSES = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, 'ipv6'));
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not publicly routable
+ */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Why a callback_url may not be used, or null when it may: it must be http(s), on the allow-list when one
+ * is configured, and not name a loopback or private host. Hostnames are checked again when they resolve.
+ */
+export function checkCallbackUrl(callbackUrl: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(callbackUrl);
+  } catch {
+    return 'callback_url is not a valid URL';
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return 'callback_url must use http or https';
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (WEBHOOK_ALLOWED_HOSTS.length > 0 && !WEBHOOK_ALLOWED_HOSTS.some(allowed => host === allowed || host.endsWith(`.${allowed}`))) {
+    return `callback_url host ${host} is not in WEBHOOK_ALLOWED_HOSTS`;
+  }
+  if (!WEBHOOK_ALLOW_PRIVATE_HOSTS && (host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host))) {
+    return `callback_url host ${host} is a private or loopback address`;
+  }
+  return null;
+}
+
+type LookupCallback = Parameters<net.LookupFunction>[2];
+
+// DNS lookup that refuses private addresses, so a public hostname cannot be pointed at an internal one
+const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+  // Single address, or every address when the agent asks for options.all
+  const onLookup: LookupCallback = (error, address, family) => {
+    if (error || WEBHOOK_ALLOW_PRIVATE_HOSTS) {
+      callback(error, address, family);
+      return;
+    }
+    const addresses = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+    const blocked = addresses.find(isPrivateAddress);
+    if (blocked) {
+      callback(new Error(`callback_url host ${hostname} resolves to private address ${blocked}`), address, family);
+      return;
+    }
+    callback(null, address, family);
+  };
+  dns.lookup(hostname, options, onLookup);
+};
+
+const webhookHttpAgent = new http.Agent({ lookup: guardedLookup } as http.AgentOptions);
+const webhookHttpsAgent = new https.Agent({ lookup: guardedLookup } as https.AgentOptions);
+
+export class WebhookDeliveryService {
+  private pool: Pool;
+
+  constructor() {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('DATABASE_URL environment variable is required');
+    }
+
+    this.pool = new Pool({
+      connectionString: process.env.DATABASE_URL,
+      ssl: process.env.DATABASE_URL?.includes('localhost') || process.env.DATABASE_URL?.includes('127.0.0.1')
+        ? false
+        : { rejectUnauthorized: false },
+      max: 10,
+      idleTimeoutMillis: 30000,
+      connectionTimeoutMillis: 2000,
+    });
+  }
+
+  /**
+   * Record a delivery and start delivering it in the background
+   */
+  async enqueue(claimId: string, callbackUrl: string, eventType: string, payload: any): Promise<WebhookDeliveryRecord> {
+    const result = await this.pool.query(`
+      INSERT INTO claim_forge.webhook_deliveries (claim_id, event_type, callback_url, payload, next_attempt_at)
+      VALUES ($1, $2, $3, $4, NOW())
+      RETURNING *
+    `, [claimId, eventType, callbackUrl, JSON.stringify(payload)]);
+
+    const delivery = this.mapDelivery(result.rows[0]);
+    console.log(`📬 Webhook ${delivery.id} queued for claim ${claimId} -> ${callbackUrl}`);
+    this.scheduleDelivery(delivery.id, 0);
+    return delivery;
+  }
+
+  /**
+   * Make one delivery attempt and schedule a retry or dead-letter the delivery on failure. The delivery is
+   * claimed with a lease first; if it is not due, already delivered or held by another attempt, nothing is sent.
+   */
+  async attemptDelivery(deliveryId: string): Promise<void> {
+    const deliveryResult = await this.pool.query(`
+      UPDATE claim_forge.webhook_deliveries
+      SET lease_expires_at = NOW() + $2 * INTERVAL '1 millisecond'
+      WHERE id = $1
+        AND status = 'pending'
+        AND (next_attempt_at IS NULL OR next_attempt_at <= NOW() + INTERVAL '1 second')
+        AND (lease_expires_at IS NULL OR lease_expires_at < NOW())
+      RETURNING *
+    `, [deliveryId, WEBHOOK_LEASE_MS]);
+    if (deliveryResult.rows.length === 0) return;
+
+    const delivery = this.mapDelivery(deliveryResult.rows[0]);
+    const attemptNumber = delivery.attempt_count + 1;
+    const secret = process.env.WEBHOOK_SIGNING_SECRET;
+    if (!secret) {
+      // Never send unsigned results; park the delivery so it can be requeued once a secret is configured
+      await this.recordAttempt(delivery.id, attemptNumber, { error_message: 'WEBHOOK_SIGNING_SECRET is not configured', duration_ms: 0 });
+      await this.deadLetter(delivery, attemptNumber, 'WEBHOOK_SIGNING_SECRET is not configured');
+      return;
+    }
+
+    // Checked again at send time: the allow-list may have changed since the claim was submitted
+    const urlProblem = checkCallbackUrl(delivery.callback_url);
+    if (urlProblem) {
+      await this.recordAttempt(delivery.id, attemptNumber, { error_message: urlProblem, duration_ms: 0 });
+      await this.deadLetter(delivery, attemptNumber, urlProblem);
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startTime = Date.now();
+    let responseStatus: number | undefined;
+    let responseBody: string | undefined;
+    let errorMessage: string | undefined;
+
+    try {
+      const response = await axios.post(delivery.callback_url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'ClaimForge-Webhooks/1.0',
+          'X-ClaimForge-Event': delivery.event_type,
+          'X-ClaimForge-Delivery': delivery.id,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, timestamp, secret)
+        },
+        timeout: WEBHOOK_TIMEOUT_MS,
+        maxRedirects: 0,
+        httpAgent: webhookHttpAgent,
+        httpsAgent: webhookHttpsAgent,
+        proxy: false,
+        transformRequest: [(data: string) => data],
+        validateStatus: () => true
+      });
+      responseStatus = response.status;
+      responseBody = typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
+      if (response.status < 200 || response.status >= 300) {
+        errorMessage = `Callback responded with HTTP ${response.status}`;
+      }
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    const success = !errorMessage;
+    await this.recordAttempt(delivery.id, attemptNumber, {
+      response_status: responseStatus,
+      response_body: responseBody,
+      error_message: errorMessage,
+      duration_ms: Date.now() - startTime,
+      success
+    });
+
+    if (success) {
+      await this.pool.query(`
+        UPDATE claim_forge.webhook_deliveries
+        SET status = 'delivered', attempt_count = $1, delivered_at = NOW(), next_attempt_at = NULL, last_error = NULL,
+            lease_expires_at = NULL
+        WHERE id = $2
+      `, [attemptNumber, delivery.id]);
+      console.log(`✅ Webhook ${delivery.id} delivered on attempt ${attemptNumber}`);
+      return;
+    }
+
+    if (!isRetryableStatus(responseStatus) || attemptNumber >= WEBHOOK_MAX_ATTEMPTS) {
+      await this.deadLetter(delivery, attemptNumber, errorMessage);
+      return;
+    }
+
+    const delayMs = getRetryDelayMs(attemptNumber);
+    await this.pool.query(`
+      UPDATE claim_forge.webhook_deliveries
+      SET attempt_count = $1, last_error = $2, next_attempt_at = NOW() + ($3::int * INTERVAL '1 millisecond'),
+          lease_expires_at = NULL
+      WHERE id = $4
+    `, [attemptNumber, errorMessage, delayMs, delivery.id]);
+    console.log(`🔄 Webhook ${delivery.id} attempt ${attemptNumber} failed (${errorMessage}), retrying in ${delayMs}ms`);
+    this.scheduleDelivery(delivery.id, delayMs);
+  }
+
+  /**
+   * Reschedule deliveries that were still pending when the previous process stopped
+   */
+  async resumePendingDeliveries(): Promise<number> {
+    const result = await this.pool.query(`
+      SELECT id, next_attempt_at FROM claim_forge.webhook_deliveries
+      WHERE status = 'pending'
+      ORDER BY next_attempt_at
+    `);
+
+    result.rows.forEach(row => {
+      const dueIn = row.next_attempt_at ? new Date(row.next_attempt_at).getTime() - Date.now() : 0;
+      this.scheduleDelivery(row.id, Math.max(0, dueIn));
+    });
+
+    if (result.rows.length > 0) {
+      console.log(`📬 Resumed ${result.rows.length} pending webhook deliveries`);
+    }
+    return result.rows.length;
+  }
+
+  /**
+   * Attempt pending deliveries that are due and not held by another attempt, e.g. retries whose
+   * timer lived in a process that has since stopped
+   */
+  async sweepDueDeliveries(): Promise<number> {
+    const result = await this.pool.query(`
+      SELECT id FROM claim_forge.webhook_deliveries
+      WHERE status = 'pending'
+        AND (next_attempt_at IS NULL OR next_attempt_at <= NOW())
+        AND (lease_expires_at IS NULL OR lease_expires_at < NOW())
+      ORDER BY next_attempt_at
+      LIMIT 100
+    `);
+    for (const row of result.rows) {
+      await this.attemptDelivery(row.id);
+    }
+    return result.rows.length;
+  }
+
+  /**
+   * Resume pending deliveries at startup, then sweep for due deliveries every WEBHOOK_SWEEP_INTERVAL_MS
+   */
+  startDeliveryRecovery(): void {
+    this.resumePendingDeliveries().catch(error => {
+      console.error('❌ Failed to resume pending webhook deliveries:', error);
+    });
+    let sweeping = false;
+    setInterval(() => {
+      if (sweeping) return;
+      sweeping = true;
+      this.sweepDueDeliveries()
+        .catch(error => console.error('❌ Webhook delivery sweep failed:', error))
+        .finally(() => { sweeping = false; });
+    }, WEBHOOK_SWEEP_INTERVAL_MS).unref();
+  }
+
+  /**
+   * Get deliveries and their attempt log for a claim
+   */
+  async getDeliveriesForClaim(claimId: string): Promise<WebhookDeliveryRecord[]> {
+    const deliveries = await this.pool.query(`
+      SELECT * FROM claim_forge.webhook_deliveries
+      WHERE claim_id = $1
+      ORDER BY created_at
+    `, [claimId]);
+
+    if (deliveries.rows.length === 0) return [];
+
+    const attempts = await this.pool.query(`
+      SELECT * FROM claim_forge.webhook_delivery_attempts
+      WHERE delivery_id = ANY($1)
+      ORDER BY attempted_at
+    `, [deliveries.rows.map(row => row.id)]);
+
+    return deliveries.rows.map(row => ({
+      ...this.mapDelivery(row),
+      attempts: attempts.rows
+        .filter(attempt => attempt.delivery_id === row.id)
+        .map(attempt => ({
+          id: attempt.id,
+          delivery_id: attempt.delivery_id,
+          attempt_number: attempt.attempt_number,
+          response_status: attempt.response_status ?? undefined,
+          response_body: attempt.response_body ?? undefined,
+          error_message: attempt.error_message ?? undefined,
+          duration_ms: attempt.duration_ms,
+          success: attempt.success,
+          attempted_at: attempt.attempted_at
+        }))
+    }));
+  }
+
+  /**
+   * List dead-lettered deliveries, newest first
+   */
+  async listDeadLetters(limit: number = 50): Promise<WebhookDeadLetterRecord[]> {
+    const result = await this.pool.query(`
+      SELECT * FROM claim_forge.webhook_dead_letters
+      ORDER BY created_at DESC
+      LIMIT $1
+    `, [limit]);
+
+    return result.rows.map(row => ({
+      id: row.id,
+      delivery_id: row.delivery_id,
+      claim_id: row.claim_id,
+      callback_url: row.callback_url,
+      payload: row.payload,
+      attempt_count: row.attempt_count,
+      last_error: row.last_error ?? undefined,
+      requeued_at: row.requeued_at ?? undefined,
+      created_at: row.created_at
+    }));
+  }
+
+  /**
+   * Put a dead-lettered delivery back into the retry loop with a fresh attempt budget
+   */
+  async requeueDeadLetter(deadLetterId: string): Promise<WebhookDeliveryRecord | null> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      const deadLetter = await client.query(`
+        UPDATE claim_forge.webhook_dead_letters SET requeued_at = NOW()
+        WHERE id = $1
+        RETURNING delivery_id
+      `, [deadLetterId]);
+
+      if (deadLetter.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const delivery = await client.query(`
+        UPDATE claim_forge.webhook_deliveries
+        SET status = 'pending', attempt_count = 0, next_attempt_at = NOW(), lease_expires_at = NULL
+        WHERE id = $1
+        RETURNING *
+      `, [deadLetter.rows[0].delivery_id]);
+
+      await client.query('COMMIT');
+
+      const record = this.mapDelivery(delivery.rows[0]);
+      this.scheduleDelivery(record.id, 0);
+      return record;
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error requeueing webhook dead letter:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private scheduleDelivery(deliveryId: string, delayMs: number): void {
+    const timer = setTimeout(() => {
+      this.attemptDelivery(deliveryId).catch(error => {
+        console.error(`❌ Webhook ${deliveryId} delivery attempt crashed:`, error);
+      });
+    }, delayMs);
+    timer.unref();
+  }
+
+  private async recordAttempt(deliveryId: string, attemptNumber: number, attempt: Partial<WebhookDeliveryAttemptRecord>): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO claim_forge.webhook_delivery_attempts (
+        delivery_id, attempt_number, response_status, response_body, error_message, duration_ms, success
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `, [
+      deliveryId,
+      attemptNumber,
+      attempt.response_status ?? null,
+      attempt.response_body ? attempt.response_body.substring(0, 2000) : null,
+      attempt.error_message ?? null,
+      attempt.duration_ms ?? 0,
+      attempt.success ?? false
+    ]);
+  }
+
+  private async deadLetter(delivery: WebhookDeliveryRecord, attemptCount: number, lastError?: string): Promise<void> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query(`
+        UPDATE claim_forge.webhook_deliveries
+        SET status = 'dead_lettered', attempt_count = $1, last_error = $2, next_attempt_at = NULL, lease_expires_at = NULL
+        WHERE id = $3
+      `, [attemptCount, lastError, delivery.id]);
+      await client.query(`
+        INSERT INTO claim_forge.webhook_dead_letters (delivery_id, claim_id, callback_url, payload, attempt_count, last_error)
+        VALUES ($1, $2, $3, $4, $5, $6)
+      `, [delivery.id, delivery.claim_id, delivery.callback_url, JSON.stringify(delivery.payload), attemptCount, lastError]);
+      await client.query('COMMIT');
+      console.log(`☠️  Webhook ${delivery.id} dead-lettered after ${attemptCount} attempts: ${lastError}`);
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error dead-lettering webhook delivery:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private mapDelivery(row: any): WebhookDeliveryRecord {
+    return {
+      id: row.id,
+      claim_id: row.claim_id,
+      event_type: row.event_type,
+      callback_url: row.callback_url,
+      payload: row.payload,
+      status: row.status,
+      attempt_count: row.attempt_count,
+      next_attempt_at: row.next_attempt_at ?? undefined,
+      last_error: row.last_error ?? undefined,
+      delivered_at: row.delivered_at ?? undefined,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+
+  /**
+   * Close the database connection pool
+   */
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
@@ -0,0 +1,366 @@
+import {
+  X12Delimiters,
+  X12ParseError,
+  X12Segment,
+  parseX12Date,
+  tokenizeX12,
+  x12Components,
+  x12Element,
+  x12ElementRef
+} from './x12-parser';
+
+// -------------------------------
+// Types
+// -------------------------------
+export type RemittanceOutcome = 'paid' | 'denied' | 'adjusted' | 'reversed';
+
+export interface RemittanceAdjustment {
+  group_code: string;  // CAS01: CO, PR, OA, PI or CR
+  reason_code: string; // CARC
+  amount: number;
+  quantity?: number;
+}
+
+export interface RemittanceServiceLine {
+  code: string;              // SVC01 procedure code, or the revenue code for NU lines
+  code_qualifier: 'HC' | 'NU'; // SVC01-1: HC for CPT/HCPCS, NU for a revenue code without one
+  modifiers?: string[];
+  revenue_code?: string;     // SVC04, or SVC01 for NU lines
+  charge_amount: number;
+  paid_amount: number;
+  units?: number;            // SVC05 units paid
+  date_of_service?: string;  // DTM*472 / DTM*150
+  line_control_number?: string; // REF*6R
+  outcome: RemittanceOutcome;
+  adjustments: RemittanceAdjustment[];
+  remark_codes: string[];    // RARC from LQ*HE
+  segment: number;           // Position of the SVC segment
+}
+
+export interface X12Remittance {
+  patient_control_number: string;        // CLP01, the CLM01 of the 837 the payer adjudicated
+  claim_status_code: string;             // CLP02
+  outcome: RemittanceOutcome;
+  charge_amount: number;                 // CLP03
+  paid_amount: number;                   // CLP04
+  patient_responsibility?: number;       // CLP05
+  payer_claim_control_number?: string;   // CLP07
+  payer?: string;                        // N1*PR
+  check_number?: string;                 // TRN02 check or EFT trace number
+  payment_date?: string;                 // BPR16
+  adjustments: RemittanceAdjustment[];   // Claim-level CAS
+  remark_codes: string[];                // RARC from MOA / MIA
+  service_lines: RemittanceServiceLine[];
+  segment: number;                       // Position of the CLP segment
+}
+
+export interface X12RemittanceImportResult {
+  remittances: X12Remittance[];
+  errors: X12ParseError[];
+}
+
+// Implementation guide of the 835 health care claim payment/advice
+const X12_835_VERSION = '005010X221A1';
+
+// CLP02 claim status codes
+const CLAIM_STATUS_CODES = new Set(['1', '2', '3', '4', '19', '20', '21', '22', '23', '25']);
+const DENIED_STATUS = '4';
+const REVERSAL_STATUS = '22';
+
+const ADJUSTMENT_GROUPS = new Set(['CO', 'PR', 'OA', 'PI', 'CR']);
+// CO-45 (charge exceeds the fee schedule) is on almost every paid claim and does not mean the payer cut the claim
+const FEE_SCHEDULE_REASON = '45';
+
+// Remark code positions: MOA03-MOA07 (outpatient) and MIA05, MIA20-MIA24 (inpatient)
+const REMARK_ELEMENTS: Record<string, number[]> = {
+  MOA: [3, 4, 5, 6, 7],
+  MIA: [5, 20, 21, 22, 23, 24]
+};
+
+interface RemittanceDraft extends Omit<X12Remittance, 'outcome'> {
+  errors: X12ParseError[];
+}
+
+type FailFn = (message: string, index?: number) => void;
+
+// -------------------------------
+// Outcome
+// -------------------------------
+/**
+ * Payer outcome of a claim or line: reversed (CLP02 22), denied (CLP02 4, or nothing paid and nothing
+ * left to the patient), adjusted (paid, but cut by adjustments other than CO-45 and patient
+ * responsibility) or paid.
+ */
+export function classifyRemittanceOutcome(
+  claimStatusCode: string,
+  paidAmount: number,
+  adjustments: RemittanceAdjustment[]
+): RemittanceOutcome {
+  if (claimStatusCode === REVERSAL_STATUS) return 'reversed';
+  if (claimStatusCode === DENIED_STATUS) return 'denied';
+
+  const patientResponsibility = adjustments
+    .filter(adjustment => adjustment.group_code === 'PR')
+    .reduce((total, adjustment) => total + adjustment.amount, 0);
+  if (paidAmount <= 0 && patientResponsibility <= 0) return 'denied';
+
+  const reduced = adjustments.some(adjustment =>
+    adjustment.amount > 0 &&
+    adjustment.group_code !== 'PR' &&
+    !(adjustment.group_code === 'CO' && adjustment.reason_code === FEE_SCHEDULE_REASON));
+  return reduced ? 'adjusted' : 'paid';
+}
+
+// -------------------------------
+// Parsing
+// -------------------------------
+/**
+ * Claim payments from an 835 (005010X221A1) interchange, one remittance per CLP loop. Payment date and
+ * check number come from BPR/TRN, the payer from N1*PR, CARC adjustments from CAS, remark codes from
+ * MOA/MIA (claim) and LQ*HE (line) and service lines from SVC. A claim with any parse error is left out
+ * of `remittances`; its errors carry the segment position and CLP01.
+ */
+export function parse835(text: string): X12RemittanceImportResult {
+  const { segments, delimiters, errors } = tokenizeX12(text);
+  const remittances: X12Remittance[] = [];
+  if (!delimiters) return { remittances, errors };
+
+  // Loop 1000A / header context, carried into each claim of the transaction
+  let payer: string | undefined;
+  let checkNumber: string | undefined;
+  let paymentDate: string | undefined;
+  let claim: RemittanceDraft | null = null;
+  let line: RemittanceServiceLine | null = null;
+
+  const finishClaim = () => {
+    if (claim) {
+      if (claim.errors.length === 0) {
+        const { errors: _errors, ...remittance } = claim;
+        // Payers put most adjustments on the lines; the claim is cut if any of its lines is
+        const adjustments = [...claim.adjustments, ...claim.service_lines.flatMap(serviceLine => serviceLine.adjustments)];
+        remittances.push({
+          ...remittance,
+          outcome: classifyRemittanceOutcome(claim.claim_status_code, claim.paid_amount, adjustments)
+        });
+      }
+      errors.push(...claim.errors);
+    }
+    claim = null;
+    line = null;
+  };
+
+  for (const segment of segments) {
+    const fail: FailFn = (message, index) => {
+      const error: X12ParseError = {
+        segment: segment.position,
+        segment_id: segment.id,
+        ...(index !== undefined ? { element: x12ElementRef(segment, index) } : {}),
+        message
+      };
+      if (claim) {
+        claim.errors.push({ ...error, claim_id: claim.patient_control_number });
+      } else {
+        errors.push(error);
+      }
+    };
+
+    switch (segment.id) {
+      case 'GS':
+      case 'ST': {
+        const version = x12Element(segment, segment.id === 'GS' ? 8 : 3);
+        if (segment.id === 'ST' && x12Element(segment, 1) !== '835') {
+          fail(`Transaction set ${x12Element(segment, 1)} is not an 835 remittance`, 1);
+        } else if (version && version !== X12_835_VERSION) {
+          fail(`Implementation guide ${version} is not supported; expected ${X12_835_VERSION} (835)`, segment.id === 'GS' ? 8 : 3);
+        }
+        if (segment.id === 'ST') {
+          finishClaim();
+          payer = checkNumber = paymentDate = undefined;
+        }
+        break;
+      }
+
+      case 'BPR': {
+        const value = x12Element(segment, 16);
+        const date = value ? parseX12Date(value) : null;
+        if (value && !date) fail(`Payment date "${value}" is not a D8 date`, 16);
+        paymentDate = date || undefined;
+        break;
+      }
+
+      case 'TRN':
+        checkNumber = x12Element(segment, 2) || undefined;
+        break;
+
+      case 'N1':
+        if (x12Element(segment, 1) === 'PR') payer = x12Element(segment, 2) || undefined;
+        break;
+
+      case 'CLP': {
+        finishClaim();
+        claim = {
+          patient_control_number: x12Element(segment, 1),
+          claim_status_code: x12Element(segment, 2),
+          charge_amount: 0,
+          paid_amount: 0,
+          payer,
+          check_number: checkNumber,
+          payment_date: paymentDate,
+          adjustments: [],
+          remark_codes: [],
+          service_lines: [],
+          segment: segment.position,
+          errors: []
+        };
+        if (!claim.patient_control_number) fail('CLP01 patient control number is missing', 1);
+        if (!CLAIM_STATUS_CODES.has(claim.claim_status_code)) {
+          fail(`Claim status code "${claim.claim_status_code}" is not a CLP02 status`, 2);
+        }
+        claim.charge_amount = parseAmount(segment, 3, fail, true) ?? 0;
+        claim.paid_amount = parseAmount(segment, 4, fail, true) ?? 0;
+        const patientResponsibility = parseAmount(segment, 5, fail);
+        if (patientResponsibility !== undefined) claim.patient_responsibility = patientResponsibility;
+        const payerClaimControlNumber = x12Element(segment, 7);
+        if (payerClaimControlNumber) claim.payer_claim_control_number = payerClaimControlNumber;
+        break;
+      }
+
+      case 'CAS': {
+        if (!claim) {
+          fail('CAS adjustment outside a claim');
+          break;
+        }
+        const adjustments = parseAdjustments(segment, fail);
+        (line ? line.adjustments : claim.adjustments).push(...adjustments);
+        break;
+      }
+
+      case 'MOA':
+      case 'MIA':
+        if (claim) {
+          REMARK_ELEMENTS[segment.id]
+            .map(index => x12Element(segment, index))
+            .filter(Boolean)
+            .forEach(code => claim!.remark_codes.push(code));
+        }
+        break;
+
+      case 'SVC': {
+        if (!claim) {
+          fail('SVC service line outside a claim');
+          break;
+        }
+        line = parseServiceLine(segment, delimiters, fail);
+        claim.service_lines.push(line);
+        break;
+      }
+
+      case 'DTM': {
+        if (!line) break;
+        const qualifier = x12Element(segment, 1);
+        if (qualifier === '472' || qualifier === '150') {
+          const date = parseX12Date(x12Element(segment, 2));
+          if (!date) fail(`Service date "${x12Element(segment, 2)}" is not a D8 date`, 2);
+          else line.date_of_service = date;
+        }
+        break;
+      }
+
+      case 'REF':
+        if (line && x12Element(segment, 1) === '6R') line.line_control_number = x12Element(segment, 2) || undefined;
+        break;
+
+      case 'LQ':
+        if (line && x12Element(segment, 1) === 'HE' && x12Element(segment, 2)) line.remark_codes.push(x12Element(segment, 2));
+        break;
+
+      case 'LX':
+      case 'PLB':
+      case 'SE':
+      case 'GE':
+      case 'IEA':
+        finishClaim();
+        break;
+    }
+  }
+  finishClaim();
+
+  // Lines take the claim's reversal or denial; otherwise their own paid amount and adjustments decide
+  remittances.forEach(remittance => remittance.service_lines.forEach(serviceLine => {
+    serviceLine.outcome = classifyRemittanceOutcome(remittance.claim_status_code, serviceLine.paid_amount, serviceLine.adjustments);
+  }));
+
+  if (remittances.length === 0 && errors.length === 0) {
+    errors.push({ segment: 0, message: 'Interchange contains no CLP claim payments' });
+  }
+  return { remittances, errors };
+}
+
+// Dollar amount; negative on reversals
+function parseAmount(segment: X12Segment, index: number, fail: FailFn, required = false): number | undefined {
+  const value = x12Element(segment, index);
+  if (!value) {
+    if (required) fail(`${x12ElementRef(segment, index)} amount is missing`, index);
+    return undefined;
+  }
+  if (isNaN(Number(value))) {
+    fail(`Amount "${value}" is not a number`, index);
+    return undefined;
+  }
+  return Number(value);
+}
+
+// CAS01 group code, then up to six reason / amount / quantity triples
+function parseAdjustments(segment: X12Segment, fail: FailFn): RemittanceAdjustment[] {
+  const groupCode = x12Element(segment, 1);
+  if (!ADJUSTMENT_GROUPS.has(groupCode)) {
+    fail(`Adjustment group "${groupCode}" is not CO, PR, OA, PI or CR`, 1);
+    return [];
+  }
+
+  const adjustments: RemittanceAdjustment[] = [];
+  for (let index = 2; index < segment.elements.length; index += 3) {
+    const reasonCode = x12Element(segment, index);
+    if (!reasonCode) continue;
+    const amount = parseAmount(segment, index + 1, fail, true);
+    if (amount === undefined) continue;
+    const quantity = x12Element(segment, index + 2);
+    adjustments.push(quantity && !isNaN(Number(quantity))
+      ? { group_code: groupCode, reason_code: reasonCode, amount, quantity: Number(quantity) }
+      : { group_code: groupCode, reason_code: reasonCode, amount });
+  }
+  if (adjustments.length === 0) fail('CAS segment has no adjustment reason codes', 2);
+  return adjustments;
+}
+
+// SVC: HC:code:modifiers or NU:revenue code, charge, paid, revenue code, units paid
+function parseServiceLine(segment: X12Segment, delimiters: X12Delimiters, fail: FailFn): RemittanceServiceLine {
+  const [qualifier, code, ...rest] = x12Components(x12Element(segment, 1), delimiters);
+  if (qualifier !== 'HC' && qualifier !== 'NU') {
+    fail(`Procedure qualifier "${qualifier}" is not HC (CPT/HCPCS) or NU (revenue code)`, 1);
+  }
+  if (!code) fail('Service line has no procedure code', 1);
+
+  const line: RemittanceServiceLine = {
+    code: (code || '').toUpperCase(),
+    code_qualifier: qualifier === 'NU' ? 'NU' : 'HC',
+    charge_amount: parseAmount(segment, 2, fail, true) ?? 0,
+    paid_amount: parseAmount(segment, 3, fail, true) ?? 0,
+    outcome: 'paid', // Set once the claim status is known
+    adjustments: [],
+    remark_codes: [],
+    segment: segment.position
+  };
+
+  const modifiers = rest.slice(0, 4).filter(Boolean).map(modifier => modifier.toUpperCase());
+  if (modifiers.length > 0) line.modifiers = modifiers;
+  const revenueCode = qualifier === 'NU' ? code : x12Element(segment, 4);
+  if (revenueCode) line.revenue_code = revenueCode;
+
+  const units = x12Element(segment, 5);
+  if (units) {
+    if (isNaN(Number(units))) fail(`Units paid "${units}" is not a number`, 5);
+    else line.units = Number(units);
+  }
+  return line;
+}
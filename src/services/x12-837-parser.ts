@@ -0,0 +1,440 @@
+import { ClaimPayload, ClaimServiceLine, InstitutionalClaimInfo } from '../types/claim-types';
+import {
+  X12Delimiters,
+  X12ParseError,
+  X12Segment,
+  formatX12Diagnosis,
+  parseX12Date,
+  tokenizeX12,
+  x12Components,
+  x12Element,
+  x12ElementRef
+} from './x12-parser';
+
+// -------------------------------
+// Types
+// -------------------------------
+export type X12ClaimKind = '837P' | '837I';
+
+export interface X12ImportedClaim {
+  claim_id: string; // CLM01 (patient control number)
+  segment: number;  // Position of the CLM segment
+  payload: ClaimPayload;
+}
+
+export interface X12ClaimImportResult {
+  kind: X12ClaimKind;
+  claims: X12ImportedClaim[];
+  errors: X12ParseError[];
+}
+
+// Implementation guides (GS08 / ST03) of 837 professional and institutional claims
+const X12_837_VERSIONS: Record<X12ClaimKind, string> = {
+  '837P': '005010X222A1',
+  '837I': '005010X223A2'
+};
+
+// SBR09 claim filing indicator -> member_plan_type
+const CLAIM_FILING_PLAN_TYPES: Record<string, string> = {
+  '12': 'PPO',
+  '13': 'POS',
+  '14': 'EPO',
+  '16': 'Medicare Advantage HMO',
+  HM: 'HMO',
+  MA: 'Medicare Part A',
+  MB: 'Medicare Part B',
+  MC: 'Medicaid',
+  CH: 'TRICARE',
+  VA: 'Veterans Affairs',
+  WC: "Workers' Compensation",
+  CI: 'Commercial',
+  BL: 'Blue Cross/Blue Shield'
+};
+
+// HI qualifiers for ICD-10-CM diagnoses: principal (ABK) and other (ABF)
+const DIAGNOSIS_QUALIFIERS = new Set(['ABK', 'ABF']);
+// HI qualifier for occurrence codes (837I)
+const OCCURRENCE_QUALIFIER = 'BH';
+
+interface ClaimDraft {
+  claim_id: string;
+  segment: number;
+  payer: string;
+  member_plan_type?: string;
+  state?: string;
+  place_of_service?: string;
+  date_of_service?: string;
+  statement_date?: string; // 837I statement period start (DTP*434)
+  institutional?: InstitutionalClaimInfo;
+  icd10_codes: string[];
+  revenue_codes: string[]; // Every SV201, including lines without a HCPCS code
+  notes: string[];
+  lines: ClaimServiceLine[];
+  errors: X12ParseError[];
+}
+
+type FailFn = (message: string, index?: number) => void;
+
+// -------------------------------
+// Parsing
+// -------------------------------
+/**
+ * Whether an interchange holds professional or institutional claims, from its first GS08 or ST03;
+ * professional when neither names a known implementation guide
+ */
+export function detect837Kind(text: string): X12ClaimKind {
+  const { segments } = tokenizeX12(text);
+  for (const segment of segments) {
+    const version = segment.id === 'GS' ? x12Element(segment, 8) : segment.id === 'ST' ? x12Element(segment, 3) : '';
+    const kind = (Object.keys(X12_837_VERSIONS) as X12ClaimKind[]).find(k => X12_837_VERSIONS[k] === version);
+    if (kind) return kind;
+  }
+  return '837P';
+}
+
+/**
+ * Claims from an 837P (005010X222A1) interchange, one ClaimPayload per CLM loop. Payer comes from
+ * NM1*PR, diagnoses from HI, service lines from SV1, POS from CLM05 and dates of service from DTP*472.
+ * A claim with any parse error is left out of `claims`; its errors carry the segment position.
+ */
+export function parse837P(text: string): X12ClaimImportResult {
+  return parse837(text, '837P');
+}
+
+/**
+ * Claims from an 837I (005010X223A2) interchange. As parse837P, except that lines come from SV2
+ * (revenue code and HCPCS), CLM05 gives the type of bill, CL1 the admission type, source and patient
+ * status, and HI BH the occurrence codes. Claims are checked against the hospital edits.
+ */
+export function parse837I(text: string): X12ClaimImportResult {
+  return parse837(text, '837I');
+}
+
+function parse837(text: string, kind: X12ClaimKind): X12ClaimImportResult {
+  const { segments, delimiters, errors } = tokenizeX12(text);
+  const claims: X12ImportedClaim[] = [];
+  if (!delimiters) return { kind, claims, errors };
+
+  // Loop 2000B/2000C context, carried into each claim under it
+  let payer = '';
+  let planType: string | undefined;
+  let subscriberState: string | undefined;
+  let patientState: string | undefined;
+  let entity = '';
+  let claim: ClaimDraft | null = null;
+  let line: ClaimServiceLine | null = null;
+
+  const finishClaim = () => {
+    if (claim) {
+      const imported = buildClaim(claim, kind);
+      if (imported) claims.push(imported);
+      errors.push(...claim.errors);
+    }
+    claim = null;
+    line = null;
+  };
+
+  for (const segment of segments) {
+    const fail: FailFn = (message, index) => {
+      const error: X12ParseError = {
+        segment: segment.position,
+        segment_id: segment.id,
+        ...(index !== undefined ? { element: x12ElementRef(segment, index) } : {}),
+        message
+      };
+      if (claim) {
+        claim.errors.push({ ...error, claim_id: claim.claim_id });
+      } else {
+        errors.push(error);
+      }
+    };
+
+    switch (segment.id) {
+      case 'GS':
+      case 'ST': {
+        const version = x12Element(segment, segment.id === 'GS' ? 8 : 3);
+        if (segment.id === 'ST' && x12Element(segment, 1) !== '837') {
+          fail(`Transaction set ${x12Element(segment, 1)} is not an 837 claim`, 1);
+        } else if (version && version !== X12_837_VERSIONS[kind]) {
+          fail(`Implementation guide ${version} is not supported; expected ${X12_837_VERSIONS[kind]} (${kind})`, segment.id === 'GS' ? 8 : 3);
+        }
+        if (segment.id === 'ST') {
+          finishClaim();
+          payer = '';
+          planType = subscriberState = patientState = undefined;
+        }
+        break;
+      }
+
+      case 'HL': {
+        finishClaim();
+        const level = x12Element(segment, 3);
+        if (level === '20' || level === '22') {
+          payer = '';
+          planType = subscriberState = undefined;
+        }
+        patientState = undefined;
+        break;
+      }
+
+      case 'SBR':
+        planType = CLAIM_FILING_PLAN_TYPES[x12Element(segment, 9)] || planType;
+        break;
+
+      case 'NM1':
+        entity = x12Element(segment, 1);
+        if (entity === 'PR' && !claim) payer = x12Element(segment, 3);
+        break;
+
+      case 'N4':
+        if (entity === 'IL') subscriberState = x12Element(segment, 2).toUpperCase() || undefined;
+        if (entity === 'QC') patientState = x12Element(segment, 2).toUpperCase() || undefined;
+        break;
+
+      case 'CLM': {
+        finishClaim();
+        const claimId = x12Element(segment, 1);
+        const facility = x12Components(x12Element(segment, 5), delimiters);
+        claim = {
+          claim_id: claimId,
+          segment: segment.position,
+          payer,
+          member_plan_type: planType,
+          state: patientState || subscriberState,
+          icd10_codes: [],
+          revenue_codes: [],
+          notes: [],
+          lines: [],
+          errors: []
+        };
+        if (!claimId) fail('CLM01 patient control number is missing', 1);
+        if (!payer) fail('No payer: the subscriber loop has no NM1*PR segment');
+
+        if (kind === '837P') {
+          // CLM05: place of service : B : frequency
+          claim.place_of_service = facility[0] || undefined;
+          if (!/^\d{2}$/.test(facility[0] || '')) fail(`CLM05 place of service "${facility[0] || ''}" is not a 2-digit code`, 5);
+        } else {
+          // CLM05: facility type : A : frequency; the type of bill is 0 + facility type + frequency
+          if (!/^\d{2}$/.test(facility[0] || '') || !/^\d$/.test(facility[2] || '')) {
+            fail(`CLM05 "${x12Element(segment, 5)}" does not give a facility type and claim frequency`, 5);
+          } else {
+            claim.institutional = { type_of_bill: `0${facility[0]}${facility[2]}` };
+          }
+        }
+        break;
+      }
+
+      case 'DTP': {
+        if (!claim) break;
+        const qualifier = x12Element(segment, 1);
+        const format = x12Element(segment, 2);
+        const value = x12Element(segment, 3);
+
+        if (qualifier === '472') {
+          // Service date (2300 in 837P, 2400 in both)
+          const date = parseX12Date(value);
+          if (!date || !['D8', 'RD8'].includes(format)) {
+            fail(`Service date "${value}" is not a D8/RD8 date`, 3);
+          } else if (line) {
+            line.date_of_service = date;
+          } else {
+            claim.date_of_service = date;
+          }
+        } else if (qualifier === '434' && !line) {
+          // 837I statement period; its first day is the claim's date of service unless lines give their own
+          const date = parseX12Date(value);
+          if (!date) fail(`Statement dates "${value}" are not a D8/RD8 date`, 3);
+          else claim.statement_date = date;
+        } else if (qualifier === '435' && claim.institutional) {
+          // 837I admission date, D8 or DT (date and hour)
+          const date = parseX12Date(value.slice(0, 8));
+          if (!date) fail(`Admission date "${value}" is not a D8/DT date`, 3);
+          else claim.institutional.admission_date = date;
+        }
+        break;
+      }
+
+      case 'CL1':
+        if (claim && claim.institutional) {
+          const [admissionType, admissionSource, patientStatus] = [1, 2, 3].map(index => x12Element(segment, index));
+          if (admissionType) claim.institutional.admission_type = admissionType;
+          if (admissionSource) claim.institutional.admission_source = admissionSource;
+          if (patientStatus) claim.institutional.patient_status = patientStatus;
+        }
+        break;
+
+      case 'HI': {
+        if (!claim) break;
+        for (let index = 1; index < segment.elements.length; index++) {
+          const [qualifier, code, dateFormat, date] = x12Components(x12Element(segment, index), delimiters);
+          if (!qualifier) continue;
+          if (DIAGNOSIS_QUALIFIERS.has(qualifier)) {
+            if (!code) fail(`${qualifier} diagnosis has no code`, index);
+            else claim.icd10_codes.push(formatX12Diagnosis(code));
+          } else if (qualifier === OCCURRENCE_QUALIFIER && claim.institutional) {
+            const occurrenceDate = date ? parseX12Date(date) : null;
+            if (!code || (date && (!occurrenceDate || dateFormat !== 'D8'))) {
+              fail(`Occurrence code "${x12Element(segment, index)}" needs a code and a D8 date`, index);
+              continue;
+            }
+            const occurrences = claim.institutional.occurrence_codes || (claim.institutional.occurrence_codes = []);
+            occurrences.push(occurrenceDate ? { code, date: occurrenceDate } : { code });
+          }
+        }
+        break;
+      }
+
+      case 'NTE':
+        if (claim && x12Element(segment, 2)) claim.notes.push(x12Element(segment, 2));
+        break;
+
+      case 'LX':
+        line = null;
+        break;
+
+      case 'SV1':
+      case 'SV2': {
+        const expected = kind === '837P' ? 'SV1' : 'SV2';
+        if (segment.id !== expected) {
+          fail(`${segment.id} service lines do not belong in an ${kind} claim`);
+          break;
+        }
+        if (!claim) {
+          fail(`${segment.id} service line outside a claim`);
+          break;
+        }
+        if (kind === '837P') {
+          line = parseProfessionalLine(segment, delimiters, fail);
+          claim.lines.push(line);
+        } else {
+          const { revenueCode, serviceLine } = parseInstitutionalLine(segment, delimiters, fail);
+          if (revenueCode) claim.revenue_codes.push(revenueCode);
+          // Revenue-only lines (no HCPCS) are listed in revenue_codes but have no code to check edits on
+          line = serviceLine;
+          if (serviceLine) claim.lines.push(serviceLine);
+        }
+        break;
+      }
+
+      case 'SE':
+      case 'GE':
+      case 'IEA':
+        finishClaim();
+        break;
+    }
+  }
+  finishClaim();
+
+  if (claims.length === 0 && errors.length === 0) {
+    errors.push({ segment: 0, message: 'Interchange contains no CLM claims' });
+  }
+  return { kind, claims, errors };
+}
+
+// Whole units of at least 1 with unit basis UN (SV103/SV104 and SV204/SV205)
+function parseUnits(segment: X12Segment, basisIndex: number, fail: FailFn): number | undefined {
+  const basis = x12Element(segment, basisIndex);
+  const value = x12Element(segment, basisIndex + 1);
+  const units = Number(value);
+  if (basis !== 'UN') {
+    fail(`Unit basis "${basis}" is not supported; expected UN (units)`, basisIndex);
+  } else if (!Number.isInteger(units) || units < 1) {
+    fail(`Units "${value}" must be a whole number of at least 1`, basisIndex + 1);
+  } else {
+    return units;
+  }
+  return undefined;
+}
+
+// HC:code:modifier1-4 (SV101 and SV202)
+function parseProcedure(segment: X12Segment, index: number, delimiters: X12Delimiters, fail: FailFn): Pick<ClaimServiceLine, 'code' | 'modifiers'> {
+  const [qualifier, code, ...rest] = x12Components(x12Element(segment, index), delimiters);
+  const modifiers = rest.slice(0, 4).filter(Boolean).map(modifier => modifier.toUpperCase());
+  if (qualifier !== 'HC') fail(`Procedure qualifier "${qualifier}" is not HC (CPT/HCPCS)`, index);
+  if (!code) fail('Service line has no procedure code', index);
+  return modifiers.length > 0 ? { code: (code || '').toUpperCase(), modifiers } : { code: (code || '').toUpperCase() };
+}
+
+function parseCharge(segment: X12Segment, index: number, fail: FailFn): number | undefined {
+  const charge = x12Element(segment, index);
+  if (!charge) return undefined;
+  if (isNaN(Number(charge))) {
+    fail(`Charge "${charge}" is not a number`, index);
+    return undefined;
+  }
+  return Number(charge);
+}
+
+// SV1: HC:code:modifiers, charge, unit basis, units, POS, -, diagnosis pointers
+function parseProfessionalLine(segment: X12Segment, delimiters: X12Delimiters, fail: FailFn): ClaimServiceLine {
+  const line: ClaimServiceLine = parseProcedure(segment, 1, delimiters, fail);
+
+  const charge = parseCharge(segment, 2, fail);
+  if (charge !== undefined) line.charge = charge;
+  const units = parseUnits(segment, 3, fail);
+  if (units !== undefined) line.units = units;
+
+  const pointers = x12Components(x12Element(segment, 7), delimiters).filter(Boolean).map(Number);
+  if (pointers.some(pointer => !Number.isInteger(pointer) || pointer < 1)) {
+    fail(`Diagnosis pointers "${x12Element(segment, 7)}" must be positions in HI`, 7);
+  } else if (pointers.length > 0) {
+    line.diagnosis_pointers = pointers;
+  }
+  return line;
+}
+
+// SV2: revenue code, HC:code:modifiers (optional), charge, unit basis, units
+function parseInstitutionalLine(
+  segment: X12Segment,
+  delimiters: X12Delimiters,
+  fail: FailFn
+): { revenueCode?: string; serviceLine: ClaimServiceLine | null } {
+  const revenueCode = x12Element(segment, 1);
+  if (!/^0?\d{3}$/.test(revenueCode)) {
+    fail(`Revenue code "${revenueCode}" is not a 4-digit UB-04 revenue code`, 1);
+  }
+
+  const charge = parseCharge(segment, 3, fail);
+  const units = parseUnits(segment, 4, fail);
+  if (!x12Element(segment, 2)) return { revenueCode, serviceLine: null };
+
+  const line: ClaimServiceLine = { ...parseProcedure(segment, 2, delimiters, fail), revenue_code: revenueCode };
+  if (charge !== undefined) line.charge = charge;
+  if (units !== undefined) line.units = units;
+  return { revenueCode, serviceLine: line };
+}
+
+function buildClaim(draft: ClaimDraft, kind: X12ClaimKind): X12ImportedClaim | null {
+  if (draft.lines.length === 0) {
+    draft.errors.push({
+      segment: draft.segment,
+      segment_id: 'CLM',
+      claim_id: draft.claim_id,
+      message: kind === '837P' ? 'Claim has no SV1 service lines' : 'Claim has no SV2 service lines with a HCPCS code'
+    });
+  }
+  if (draft.errors.length > 0) return null;
+
+  const lineDates = draft.lines.map(line => line.date_of_service).filter((date): date is string => !!date).sort();
+  const payload: ClaimPayload = {
+    payer: draft.payer,
+    patient_control_number: draft.claim_id,
+    cpt_codes: [...new Set(draft.lines.map(line => line.code))],
+    service_lines: draft.lines,
+    icd10_codes: draft.icd10_codes,
+    date_of_service: draft.date_of_service || lineDates[0] || draft.statement_date,
+    // 837 carries clinical detail only in NTE notes; without one the sanity check sees thin documentation
+    note_summary: draft.notes.join(' ') || `Imported from ${kind} claim ${draft.claim_id}; no claim note (NTE) was sent.`
+  };
+  if (draft.place_of_service) payload.place_of_service = draft.place_of_service;
+  if (draft.institutional) {
+    payload.provider_type = 'hospital';
+    payload.institutional = draft.institutional;
+    payload.revenue_codes = [...new Set(draft.revenue_codes)];
+  }
+  if (draft.member_plan_type) payload.member_plan_type = draft.member_plan_type;
+  if (draft.state) payload.state = draft.state;
+
+  return { claim_id: draft.claim_id, segment: draft.segment, payload };
+}
@@ -0,0 +1,93 @@
+// -------------------------------
+// Types
+// -------------------------------
+export interface X12Delimiters {
+  element: string;    // ISA position 4, usually "*"
+  component: string;  // ISA16, usually ":"
+  repetition: string; // ISA11 in 5010, usually "^"
+  segment: string;    // Character after ISA16, usually "~"
+}
+
+export interface X12Segment {
+  id: string;
+  elements: string[]; // elements[1] is the segment's 01 element; elements[0] is the id
+  position: number;   // 1-based position of the segment in the interchange
+}
+
+export interface X12ParseError {
+  segment: number;     // 1-based segment position; 0 when the interchange itself is unreadable
+  segment_id?: string;
+  element?: string;    // Element reference, e.g. "CLM05" or "SV104"
+  claim_id?: string;   // CLM01 of the claim the error belongs to
+  message: string;
+}
+
+// -------------------------------
+// Tokenizing
+// -------------------------------
+const ISA_LENGTH = 106;
+
+/**
+ * Split an X12 interchange into segments using the delimiters declared in its ISA header
+ */
+export function tokenizeX12(text: string): { segments: X12Segment[]; delimiters?: X12Delimiters; errors: X12ParseError[] } {
+  const body = (text || '').replace(/^\uFEFF/, '').replace(/^\s+/, '');
+  if (!body.startsWith('ISA') || body.length < ISA_LENGTH) {
+    return { segments: [], errors: [{ segment: 0, message: 'Not an X12 interchange: expected a 106-character ISA header' }] };
+  }
+
+  const delimiters: X12Delimiters = {
+    element: body[3],
+    repetition: body[82],
+    component: body[104],
+    segment: body[105]
+  };
+
+  const segments: X12Segment[] = [];
+  body.split(delimiters.segment).forEach(raw => {
+    // Segment terminators are often followed by a line break
+    const segment = raw.replace(/^[\r\n]+|[\r\n]+$/g, '');
+    if (!segment.trim()) return;
+    const elements = segment.split(delimiters.element);
+    segments.push({ id: elements[0].trim().toUpperCase(), elements, position: segments.length + 1 });
+  });
+
+  const errors: X12ParseError[] = [];
+  if (!segments.some(segment => segment.id === 'IEA')) {
+    errors.push({ segment: segments.length, segment_id: segments[segments.length - 1]?.id, message: 'Interchange has no IEA trailer; the file may be truncated' });
+  }
+  return { segments, delimiters, errors };
+}
+
+// -------------------------------
+// Element helpers
+// -------------------------------
+// Element value by X12 number (1-based), trimmed; '' when absent
+export const x12Element = (segment: X12Segment, index: number): string => (segment.elements[index] || '').trim();
+
+// Components of a composite element, e.g. "HC:97140:59" -> ["HC", "97140", "59"]
+export const x12Components = (value: string, delimiters: X12Delimiters): string[] =>
+  value.split(delimiters.component).map(component => component.trim());
+
+// "SV104" for the fourth element of an SV1 segment
+export const x12ElementRef = (segment: X12Segment, index: number): string => `${segment.id}${String(index).padStart(2, '0')}`;
+
+/**
+ * CCYYMMDD (D8) or CCYYMMDD-CCYYMMDD (RD8, first date) as YYYY-MM-DD; null when malformed
+ */
+export function parseX12Date(value: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:-\d{8})?$/.exec(value.trim());
+  if (!match) return null;
+  const [, year, month, day] = match;
+  const date = new Date(`${year}-${month}-${day}T00:00:00Z`);
+  if (isNaN(date.getTime()) || date.getUTCDate() !== Number(day)) return null;
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * ICD-10 codes are sent without the decimal point (M545); the payload format uses M54.5
+ */
+export function formatX12Diagnosis(code: string): string {
+  const value = code.trim().toUpperCase().replace('.', '');
+  return value.length > 3 ? `${value.slice(0, 3)}.${value.slice(3)}` : value;
+}
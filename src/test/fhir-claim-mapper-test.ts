@@ -0,0 +1,116 @@
+import { fhirClaimToPayload, FhirIssue } from '../services/fhir-claim-mapper';
+
+const ICD10 = 'http://hl7.org/fhir/sid/icd-10-cm';
+const CPT = 'http://www.ama-assn.org/go/cpt';
+
+function diagnosis(sequence: number, code: string) {
+  return { sequence, diagnosisCodeableConcept: { coding: [{ system: ICD10, code }] } };
+}
+
+function item(sequence: number, code: string | undefined, diagnosisSequence: unknown, quantity: number = 1) {
+  return {
+    sequence,
+    productOrService: { coding: code ? [{ system: CPT, code }] : [] },
+    diagnosisSequence,
+    servicedDate: '2025-03-03',
+    quantity: { value: quantity },
+    net: { value: 60, currency: 'USD' }
+  };
+}
+
+// Diagnoses and items listed out of sequence order, as FHIR allows
+function claim(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    resourceType: 'Claim',
+    status: 'active',
+    use: 'claim',
+    identifier: [{ value: 'PCN-100' }],
+    insurer: { display: 'Aetna' },
+    diagnosis: [diagnosis(3, 'M54.16'), diagnosis(1, 'M54.5')],
+    item: [item(2, '98940', [3]), item(1, '97140', [1, 3])],
+    supportingInfo: [{ sequence: 1, category: { coding: [{ code: 'info' }] }, valueString: 'Low back pain after lifting' }],
+    ...overrides
+  };
+}
+
+function expressions(issues: FhirIssue[]): string {
+  return issues.map(issue => `${issue.code}:${issue.expression?.join('|')}`).join(', ');
+}
+
+async function testFhirClaimMapper() {
+  console.log('🧪 Testing FHIR Claim Mapper...\n');
+
+  try {
+    // Test 1: diagnosisSequence -> diagnosis_pointers
+    console.log('1. Testing diagnosisSequence mapping...');
+    const { payload, issues } = fhirClaimToPayload(claim());
+    if (!payload) throw new Error(`Claim should map: ${expressions(issues)}`);
+    console.log('   Payload:', JSON.stringify({ icd10_codes: payload.icd10_codes, service_lines: payload.service_lines }));
+    if (payload.icd10_codes.join(',') !== 'M54.5,M54.16') {
+      throw new Error(`Diagnoses should follow their sequence: ${payload.icd10_codes}`);
+    }
+    const [first, second] = payload.service_lines || [];
+    if (first?.code !== '97140' || first.diagnosis_pointers?.join(',') !== '1,2'
+      || second?.code !== '98940' || second.diagnosis_pointers?.join(',') !== '2') {
+      throw new Error(`Pointers should give positions in icd10_codes: ${JSON.stringify(payload.service_lines)}`);
+    }
+    if (payload.payer !== 'Aetna' || payload.patient_control_number !== 'PCN-100' || payload.note_summary !== 'Low back pain after lifting') {
+      throw new Error(`Unexpected claim fields: ${JSON.stringify(payload)}`);
+    }
+    console.log('   ✅ Diagnosis sequences 1 and 3 become pointers 1 and 2; items follow their sequence');
+
+    // Test 2: Issue expressions point at the Claim array index
+    console.log('\n2. Testing issue expressions...');
+    const unknown = fhirClaimToPayload(claim({ item: [item(2, '98940', [4]), item(1, undefined, [1])] }));
+    console.log('   Issues:', expressions(unknown.issues));
+    if (unknown.payload || expressions(unknown.issues) !== 'invalid:Claim.item[1].productOrService, invalid:Claim.item[0].diagnosisSequence') {
+      throw new Error(`Unexpected issues: ${expressions(unknown.issues)}`);
+    }
+    const units = fhirClaimToPayload(claim({ item: [item(2, '98940', [3], 0), item(1, '97140', [1])] }));
+    if (units.payload || expressions(units.issues) !== 'invalid:Claim.item[0]') {
+      throw new Error(`A validation error on the second service line is item[0] of the Claim: ${expressions(units.issues)}`);
+    }
+    const noInsurer = fhirClaimToPayload(claim({ insurer: undefined }));
+    if (expressions(noInsurer.issues) !== 'required:Claim.insurer') {
+      throw new Error(`Missing insurer should be required: ${expressions(noInsurer.issues)}`);
+    }
+    console.log('   ✅ Unknown sequence, missing code and bad units point at the Claim element they came from');
+
+    // Test 3: Malformed elements are structure issues, not exceptions
+    console.log('\n3. Testing malformed Claims...');
+    const malformed: Array<[Record<string, unknown>, string]> = [
+      [{ item: {} }, 'structure:Claim.item'],
+      [{ supportingInfo: ['x'] }, 'structure:Claim.supportingInfo[0]'],
+      [{ item: [item(1, '97140', ['1'])] }, 'structure:Claim.item[0].diagnosisSequence[0]'],
+      [{ diagnosis: 'M54.5' }, 'structure:Claim.diagnosis']
+    ];
+    malformed.forEach(([overrides, expected]) => {
+      const result = fhirClaimToPayload(claim(overrides));
+      if (result.payload || expressions(result.issues) !== expected) {
+        throw new Error(`${JSON.stringify(overrides)} should give ${expected}: ${expressions(result.issues)}`);
+      }
+    });
+    const noCategory = fhirClaimToPayload(claim({ supportingInfo: [{ valueString: 'x' }] }));
+    if (noCategory.payload?.note_summary !== 'x') {
+      throw new Error(`supportingInfo without a category should still give a note: ${expressions(noCategory.issues)}`);
+    }
+    const notClaim = fhirClaimToPayload({ resourceType: 'Patient' });
+    if (expressions(notClaim.issues) !== 'structure:resourceType' || expressions(fhirClaimToPayload(null).issues) !== 'structure:resourceType') {
+      throw new Error('Only Claim resources should map');
+    }
+    console.log('   ✅ Non-array and wrongly typed elements are reported with their expression');
+
+    console.log('\n✅ FHIR claim mapper test completed successfully!');
+
+  } catch (error) {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  }
+}
+
+// Run the test
+if (require.main === module) {
+  testFhirClaimMapper();
+}
+
+export { testFhirClaimMapper };
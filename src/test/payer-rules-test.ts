@@ -0,0 +1,144 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ClaimLine, RuleContext, RuleIssue } from '../services/rules-engine';
+
+const RULES_YAML = `
+- id: aetna-97140-with-cmt
+  payers: [Aetna]
+  states: [NY, NJ]
+  effective_date: 2024-01-01
+  end_date: 2025-12-31
+  severity: error
+  when:
+    codes_all: [97140]
+    codes_any: [98940, 98941, 98942]
+  require:
+    modifiers_any: [59, XS]
+    on_codes: [97140]
+  message: Aetna denies 97140 billed with CMT without modifier 59 or XS
+- id: any-payer-therapy-visits
+  payers: ['*']
+  severity: warning
+  when:
+    visits_over: 12
+  message: Therapy visits above 12 need a progress note
+`;
+
+const RULES_JSON = JSON.stringify({
+  rules: [
+    { id: 'bad-rule', payers: ['Cigna'], when: { codes_any: ['971'] }, message: 'Invalid code' },
+    { id: 'aetna-97140-with-cmt', payers: ['Aetna'], when: { codes_any: ['97140'] }, message: 'Duplicate id' },
+    { id: 'uhc-units', payers: ['United'], severity: 'warning', when: { units_over: { codes: ['97110'], units: 4 } }, message: 'Over 4 units of 97110' }
+  ]
+});
+
+function line(lineNumber: number, code: string, units: number = 1, modifiers: string[] = []): ClaimLine {
+  return { line: lineNumber, code, units, date_of_service: '2025-03-03', modifiers, diagnosis_pointers: [] };
+}
+
+// Offline rule context with just what the payer rule module reads
+function context(claim: Partial<RuleContext['claim']>, lines: ClaimLine[], dateOfService: string = '2025-03-03'): RuleContext {
+  const codes = [...new Set(lines.map(l => l.code))];
+  return {
+    claim: { cpt_codes: codes, icd10_codes: [], ...claim },
+    providerType: 'practitioner',
+    program: 'medicare',
+    dateOfService,
+    codes,
+    icdCodes: [],
+    lines,
+    perLineModifiers: true,
+    edits: { aoc: new Map(), mue: new Map(), ptp: new Map() },
+    editsByDate: new Map(),
+    modifierCatalog: { modifiers: new Map(), exclusions: new Map(), loadedAt: Date.now() },
+    editsInForce: true
+  };
+}
+
+function ruleIds(issues: RuleIssue[], type: string): string[] {
+  return issues.filter(issue => issue.type === type).map(issue => issue.evidence.payer_rule_id).sort();
+}
+
+async function testPayerRules() {
+  console.log('🧪 Testing Payer Rules...\n');
+
+  const rulesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'payer-rules-'));
+  fs.writeFileSync(path.join(rulesDir, 'aetna.yaml'), RULES_YAML);
+  fs.writeFileSync(path.join(rulesDir, 'more.json'), RULES_JSON);
+  // The rules directory is read when the module loads
+  process.env.PAYER_RULES_DIR = rulesDir;
+  const { loadPayerRules, payerRule } = await import('../services/payer-rules');
+
+  try {
+    // Test 1: Loading keeps valid rules and reports the rest
+    console.log('1. Testing rule loading...');
+    const { rules, errors } = loadPayerRules();
+    console.log('   Loaded:', rules.map(rule => rule.id).join(', '));
+    if (rules.map(rule => rule.id).sort().join(',') !== 'aetna-97140-with-cmt,any-payer-therapy-visits,uhc-units') {
+      throw new Error(`Unexpected rules: ${rules.map(rule => rule.id).join(', ')}`);
+    }
+    if (rules[0].when.codes_all?.[0] !== '97140' || rules[0].require?.modifiers_any?.[0] !== '59') {
+      throw new Error('Unquoted YAML codes and modifiers should load as strings');
+    }
+    if (errors.map(error => error.rule).sort().join(',') !== 'aetna-97140-with-cmt,bad-rule') {
+      throw new Error(`Invalid and duplicate rules should be reported: ${JSON.stringify(errors)}`);
+    }
+    console.log('   ✅ Invalid code and duplicate id skipped with errors');
+
+    // Test 2: Requirements on the codes' lines
+    console.log('\n2. Testing requirements...');
+    const claim = { payer: 'Aetna Better Health', state: 'NY' };
+    const missing = await payerRule.run(context(claim, [line(1, '98940', 1, ['XS']), line(2, '97140')]));
+    if (ruleIds(missing, 'PAYER_RULE_VIOLATION').join(',') !== 'aetna-97140-with-cmt') {
+      throw new Error(`XS on the CMT line instead of 97140 should violate the rule: ${JSON.stringify(missing)}`);
+    }
+    const met = await payerRule.run(context(claim, [line(1, '98940'), line(2, '97140', 1, ['XS'])]));
+    if (ruleIds(met, 'PAYER_RULE').join(',') !== 'aetna-97140-with-cmt' || ruleIds(met, 'PAYER_RULE_VIOLATION').length !== 0) {
+      throw new Error(`XS on 97140 should satisfy the rule: ${JSON.stringify(met)}`);
+    }
+    console.log('   ✅ Violation with XS on the wrong line, pass with XS on 97140');
+
+    // Test 3: Payer, state and date scoping
+    console.log('\n3. Testing scoping...');
+    const lines = [line(1, '98940'), line(2, '97140')];
+    const outOfScope = [
+      ['other payer', await payerRule.run(context({ payer: 'Cigna', state: 'NY' }, lines))],
+      ['other state', await payerRule.run(context({ payer: 'Aetna', state: 'CA' }, lines))],
+      ['after end_date', await payerRule.run(context({ payer: 'Aetna', state: 'NY' }, lines, '2026-01-02'))],
+      ['before effective_date', await payerRule.run(context({ payer: 'Aetna', state: 'NY' }, lines, '2023-12-31'))]
+    ] as const;
+    outOfScope.forEach(([label, issues]) => {
+      if (issues.length !== 0) throw new Error(`Rule should not apply for ${label}: ${JSON.stringify(issues)}`);
+    });
+    console.log('   ✅ Other payer, other state and dates outside the range are skipped');
+
+    // Test 4: Conditions and the "*" payer
+    console.log('\n4. Testing conditions and "*"...');
+    const noPayer = await payerRule.run(context({ visit_count: 13 }, [line(1, '97110')]));
+    if (ruleIds(noPayer, 'PAYER_RULE_VIOLATION').join(',') !== 'any-payer-therapy-visits') {
+      throw new Error(`"*" should match a claim without a payer: ${JSON.stringify(noPayer)}`);
+    }
+    const units = await payerRule.run(context({ payer: 'UnitedHealthcare' }, [line(1, '97110', 3), line(2, '97110', 2)]));
+    const underUnits = await payerRule.run(context({ payer: 'UnitedHealthcare' }, [line(1, '97110', 4)]));
+    if (ruleIds(units, 'PAYER_RULE_VIOLATION').join(',') !== 'uhc-units' || underUnits.length !== 0) {
+      throw new Error('units_over should sum units across lines and only fire above the limit');
+    }
+    console.log('   ✅ "*" matches without a payer; units_over sums 3 + 2 units over a limit of 4');
+
+    console.log('\n✅ Payer rules test completed successfully!');
+
+  } catch (error) {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  } finally {
+    fs.rmSync(rulesDir, { recursive: true, force: true });
+  }
+}
+
+// Run the test
+if (require.main === module) {
+  testPayerRules();
+}
+
+export { testPayerRules };
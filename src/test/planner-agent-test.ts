@@ -368,11 +368,11 @@ const testCases: TestCase[] = [
         is_valid: false,
         risk_score: 80,
         errors: [
-          { type: 'ICD_FORMAT', message: 'Invalid CPT code', data: {} },
-          { type: 'ICD_FORMAT', message: 'Invalid ICD code', data: {} }
+          { rule_id: 'format', type: 'ICD_FORMAT', severity: 'error', message: 'Invalid CPT code', evidence: {} },
+          { rule_id: 'format', type: 'ICD_FORMAT', severity: 'error', message: 'Invalid ICD code', evidence: {} }
         ],
         warnings: [
-          { type: 'NEEDS_POLICY_CHECK', message: 'Unknown payer', data: {} }
+          { rule_id: 'policy', type: 'NEEDS_POLICY_CHECK', severity: 'warning', message: 'Unknown payer', evidence: {} }
         ],
         passes: []
       }
@@ -530,11 +530,11 @@ const testCases: TestCase[] = [
         risk_score: 25,
         errors: [],
         warnings: [
-          { type: 'NEEDS_POLICY_CHECK', message: 'Potential bundling issues', data: {} }
+          { rule_id: 'policy', type: 'NEEDS_POLICY_CHECK', severity: 'warning', message: 'Potential bundling issues', evidence: {} }
         ],
         passes: [
-          { type: 'ICD_FORMAT', message: 'Code formats valid', data: {} },
-          { type: 'MODIFIER_INAPPROPRIATE', message: 'Modifiers appropriate', data: {} }
+          { rule_id: 'format', type: 'ICD_FORMAT', severity: 'pass', message: 'Code formats valid', evidence: {} },
+          { rule_id: 'modifiers', type: 'MODIFIER_INAPPROPRIATE', severity: 'pass', message: 'Modifiers appropriate', evidence: {} }
         ]
       }
     },
@@ -0,0 +1,91 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { RuleIssue } from '../services/rules-engine';
+
+const ISSUES: RuleIssue[] = [
+  { rule_id: 'ptp', type: 'PTP_BLOCKED', severity: 'error', message: 'PTP edit blocks 20610+97140' },
+  { rule_id: 'mue', type: 'MUE_EXCEEDED', severity: 'warning', message: 'MAI 3 overage' },
+  { rule_id: 'mue', type: 'MUE_EXCEEDED', severity: 'warning', message: 'MAI 3 overage on another date' },
+  { rule_id: 'policy', type: 'NEEDS_POLICY_CHECK', severity: 'warning', message: 'Payer policy not researched' },
+  { rule_id: 'ptp', type: 'PTP_BYPASSED', severity: 'pass', message: 'Bypassed by 59' }
+];
+
+const WEIGHTS_YAML = `
+default:
+  weights:
+    'MUE_EXCEEDED:warning': 25
+tenants:
+  clinic-a:
+    weights:
+      PTP_BLOCKED: 10
+    max_score: 50
+`;
+
+async function testRiskScoring() {
+  console.log('🧪 Testing Risk Scoring...\n');
+
+  const weightsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'risk-scoring-'));
+  fs.writeFileSync(path.join(weightsDir, 'weights.yaml'), WEIGHTS_YAML);
+  // The weights file is read from the environment when the module loads
+  process.env.RISK_SCORING_FILE = path.join(weightsDir, 'weights.yaml');
+  const { scoreRuleIssues } = await import('../services/risk-scoring');
+
+  try {
+    // Test 1: Breakdown with the file's default overrides
+    console.log('1. Testing default breakdown...');
+    const { risk_score, risk_breakdown } = scoreRuleIssues(ISSUES);
+    console.log('   Contributions:', risk_breakdown.contributions.map(c => `${c.type}:${c.severity} ${c.count}x${c.weight}`).join(', '));
+    const [first, second] = risk_breakdown.contributions;
+    if (risk_breakdown.model !== 'default' || risk_breakdown.contributions.length !== 2) {
+      throw new Error('Passes and zero-weight findings should be left out of the breakdown');
+    }
+    if (first.type !== 'PTP_BLOCKED' || first.points !== 60 || second.type !== 'MUE_EXCEEDED' || second.count !== 2 || second.points !== 50) {
+      throw new Error(`Unexpected contributions: ${JSON.stringify(risk_breakdown.contributions)}`);
+    }
+    if (risk_breakdown.total_points !== 110 || risk_score !== 100) {
+      throw new Error(`Score should cap at 100 with 110 points: ${risk_score} / ${risk_breakdown.total_points}`);
+    }
+    console.log('   ✅ 60 + 2 x 25 = 110 points, highest first, score capped at 100');
+
+    // Test 2: Tenant weights over the defaults
+    console.log('\n2. Testing tenant weights...');
+    const tenant = scoreRuleIssues(ISSUES, 'clinic-a');
+    if (tenant.risk_breakdown.model !== 'clinic-a' || tenant.risk_breakdown.total_points !== 60 || tenant.risk_score !== 50) {
+      throw new Error(`Unexpected tenant score: ${JSON.stringify(tenant)}`);
+    }
+    if (tenant.risk_breakdown.contributions[0].type !== 'MUE_EXCEEDED') {
+      throw new Error('MUE overages should outrank the tenant\'s lighter PTP weight');
+    }
+    const unknownTenant = scoreRuleIssues(ISSUES, 'clinic-b');
+    if (unknownTenant.risk_breakdown.model !== 'default' || unknownTenant.risk_score !== 100) {
+      throw new Error('A tenant without weights should use the default model');
+    }
+    console.log('   ✅ clinic-a scores 10 + 50 = 60 points, capped at its max of 50');
+
+    // Test 3: Severity fallback for issue types without a weight
+    console.log('\n3. Testing severity fallback...');
+    const fallback = scoreRuleIssues([
+      { rule_id: 'custom', type: 'CUSTOM_CHECK' as RuleIssue['type'], severity: 'warning', message: 'Custom rule warning' }
+    ]);
+    if (fallback.risk_score !== 10 || fallback.risk_breakdown.contributions[0].weight !== 10) {
+      throw new Error(`Unknown warnings should weigh 10 points: ${JSON.stringify(fallback)}`);
+    }
+    console.log('   ✅ An unknown warning falls back to the warning weight');
+
+    console.log('\n✅ Risk scoring test completed successfully!');
+
+  } catch (error) {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  } finally {
+    fs.rmSync(weightsDir, { recursive: true, force: true });
+  }
+}
+
+// Run the test
+if (require.main === module) {
+  testRiskScoring();
+}
+
+export { testRiskScoring };
@@ -0,0 +1,135 @@
+import { ClaimLine, NcciClaimEdits, NcciMueEdit, RuleContext, RuleIssue, mueRule, ptpRule, runRules } from '../services/rules-engine';
+
+const DATE_OF_SERVICE = '2025-03-03';
+
+function edits(mue: Array<[string, NcciMueEdit]> = [], ptp: Array<[string, string]> = []): NcciClaimEdits {
+  return { aoc: new Map(), mue: new Map(mue), ptp: new Map(ptp) };
+}
+
+function line(lineNumber: number, code: string, units: number, modifiers: string[] = [], dateOfService: string = DATE_OF_SERVICE): ClaimLine {
+  return { line: lineNumber, code, units, date_of_service: dateOfService, modifiers, diagnosis_pointers: [] };
+}
+
+// Offline rule context: edits are given directly instead of being loaded from Postgres
+function context(lines: ClaimLine[], claimEdits: NcciClaimEdits, claimModifiers?: string[]): RuleContext {
+  const codes = [...new Set(lines.map(l => l.code))];
+  return {
+    claim: { cpt_codes: codes, icd10_codes: [], modifiers: claimModifiers },
+    providerType: 'practitioner',
+    program: 'medicare',
+    dateOfService: DATE_OF_SERVICE,
+    codes,
+    icdCodes: [],
+    lines,
+    perLineModifiers: !claimModifiers,
+    edits: claimEdits,
+    editsByDate: new Map([[DATE_OF_SERVICE, claimEdits]]),
+    modifierCatalog: { modifiers: new Map(), exclusions: new Map(), loadedAt: Date.now() },
+    editsInForce: true
+  };
+}
+
+function only(issues: RuleIssue[], type: string): RuleIssue[] {
+  return issues.filter(issue => issue.type === type);
+}
+
+async function testRulesEngine() {
+  console.log('🧪 Testing Rules Engine (MUE and PTP)...\n');
+
+  try {
+    // Test 1: MAI 1 limits each line on its own
+    console.log('1. Testing MAI 1 per-line limits...');
+    const mai1 = edits([['97110', { value: 4, mai: 1, rationale: 'Clinical' }]]);
+    const perLine = await runRules(context([line(1, '97110', 3), line(2, '97110', 3)], mai1), [mueRule]);
+    if (only(perLine, 'MUE_EXCEEDED').length !== 0 || only(perLine, 'MUE').length !== 2) {
+      throw new Error(`MAI 1 lines under the limit should pass separately: ${JSON.stringify(perLine)}`);
+    }
+    const overLine = await runRules(context([line(1, '97110', 5)], mai1), [mueRule]);
+    const mai1Issue = only(overLine, 'MUE_EXCEEDED')[0];
+    if (!mai1Issue || mai1Issue.severity !== 'warning' || !mai1Issue.evidence.appealable) {
+      throw new Error(`MAI 1 overage should be an appealable warning: ${JSON.stringify(overLine)}`);
+    }
+    console.log('   ✅ Lines of 3 + 3 units pass a limit of 4; one line of 5 is an appealable warning');
+
+    // Test 2: MAI 2 and 3 sum the units of all lines on the same date
+    console.log('\n2. Testing MAI 2/3 date-of-service totals...');
+    const mai2 = edits([['20610', { value: 2, mai: 2, rationale: 'Anatomic' }]]);
+    const policy = await runRules(context([line(1, '20610', 1, ['RT']), line(2, '20610', 1, ['LT']), line(3, '20610', 1)], mai2), [mueRule]);
+    const mai2Issues = only(policy, 'MUE_EXCEEDED');
+    if (mai2Issues.length !== 1 || mai2Issues[0].severity !== 'error' || mai2Issues[0].evidence.units !== 3
+      || mai2Issues[0].evidence.lines.join(',') !== '1,2,3') {
+      throw new Error(`MAI 2 should be one error for 3 units over lines 1-3: ${JSON.stringify(policy)}`);
+    }
+    const mai3 = edits([['20610', { value: 2, mai: 3, rationale: 'Clinical' }]]);
+    const clinical = await runRules(context([line(1, '20610', 2), line(2, '20610', 1)], mai3), [mueRule]);
+    const mai3Issues = only(clinical, 'MUE_EXCEEDED');
+    if (mai3Issues.length !== 1 || mai3Issues[0].severity !== 'warning' || !mai3Issues[0].evidence.appealable) {
+      throw new Error(`MAI 3 overage should be one appealable warning: ${JSON.stringify(clinical)}`);
+    }
+    const otherDayContext = context([line(1, '20610', 2), line(2, '20610', 1, [], '2025-03-04')], mai2);
+    otherDayContext.editsByDate.set('2025-03-04', mai2);
+    const otherDay = await runRules(otherDayContext, [mueRule]);
+    if (only(otherDay, 'MUE_EXCEEDED').length !== 0) {
+      throw new Error('MAI 2 units on another date of service should not be added together');
+    }
+    console.log('   ✅ MAI 2 sums to an error, MAI 3 to an appealable warning, each per date of service');
+
+    // Test 3: PTP indicator 1 needs an applicable bypass modifier on the right line
+    console.log('\n3. Testing PTP modifier bypasses...');
+    const ptp = edits([], [['20610|97140', '1']]);
+    const missing = await runRules(context([line(1, '20610', 1), line(2, '97140', 1)], ptp), [ptpRule]);
+    if (only(missing, 'PTP_NEEDS_MODIFIER').length !== 1 || !only(missing, 'PTP_NEEDS_MODIFIER')[0].fix?.includes('97140 (line 2)')) {
+      throw new Error(`Missing modifier should name line 2: ${JSON.stringify(missing)}`);
+    }
+    const bypassed = await runRules(context([line(1, '20610', 1), line(2, '97140', 1, ['59'])], ptp), [ptpRule]);
+    if (only(bypassed, 'PTP_BYPASSED')[0]?.evidence.modifier !== '59') {
+      throw new Error(`Modifier 59 should bypass the edit: ${JSON.stringify(bypassed)}`);
+    }
+    const emModifier = await runRules(context([line(1, '99213', 1, ['59']), line(2, '20610', 1)], edits([], [['20610|99213', '1']])), [ptpRule]);
+    const emIssue = only(emModifier, 'PTP_NEEDS_MODIFIER')[0];
+    if (!emIssue || !emIssue.evidence.inapplicableModifiers.includes('59')) {
+      throw new Error(`59 does not bypass an E&M pair: ${JSON.stringify(emModifier)}`);
+    }
+    const sameSite = await runRules(context([line(1, '20610', 1, ['RT']), line(2, '97140', 1, ['RT'])], ptp), [ptpRule]);
+    const otherSite = await runRules(context([line(1, '20610', 1, ['RT']), line(2, '97140', 1, ['LT'])], ptp), [ptpRule]);
+    if (only(sameSite, 'PTP_NEEDS_MODIFIER').length !== 1 || only(otherSite, 'PTP_BYPASSED').length !== 1) {
+      throw new Error('Anatomic modifiers should only bypass the edit when the lines name different sites');
+    }
+    console.log('   ✅ 59 bypasses two procedures, not an E&M pair; RT/LT only bypasses different sites');
+
+    // Test 4: PTP indicators 0 and 9
+    console.log('\n4. Testing PTP indicators 0 and 9...');
+    const blocked = await runRules(context([line(1, '20610', 1), line(2, '97140', 1, ['59'])], edits([], [['20610|97140', '0']])), [ptpRule]);
+    if (only(blocked, 'PTP_BLOCKED').length !== 1) {
+      throw new Error(`Indicator 0 should block the pair even with a modifier: ${JSON.stringify(blocked)}`);
+    }
+    const deleted = await runRules(context([line(1, '20610', 1), line(2, '97140', 1)], edits([], [['20610|97140', '9']])), [ptpRule]);
+    if (deleted.length !== 0) {
+      throw new Error(`Indicator 9 should never apply: ${JSON.stringify(deleted)}`);
+    }
+    console.log('   ✅ Indicator 0 blocks the pair; indicator 9 is ignored');
+
+    // Test 5: PTP edits only pair codes on the same date of service
+    console.log('\n5. Testing PTP pairs across dates of service...');
+    const splitContext = context([line(1, '20610', 1), line(2, '97140', 1, [], '2025-03-04')], ptp);
+    splitContext.editsByDate.set('2025-03-04', ptp);
+    const split = await runRules(splitContext, [ptpRule]);
+    if (split.length !== 0) {
+      throw new Error(`Codes on different dates should not be paired: ${JSON.stringify(split)}`);
+    }
+    console.log('   ✅ Codes billed on different dates are not paired');
+
+    console.log('\n✅ Rules engine test completed successfully!');
+
+  } catch (error) {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  }
+}
+
+// Run the test
+if (require.main === module) {
+  testRulesEngine();
+}
+
+export { testRulesEngine };
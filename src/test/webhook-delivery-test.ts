@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+import { signWebhookPayload, getRetryDelayMs, isRetryableStatus, isPrivateAddress, checkCallbackUrl } from '../services/webhook-delivery-service';
+
+async function testWebhookDelivery() {
+  console.log('🧪 Testing Webhook Delivery Helpers...\n');
+
+  try {
+    // Test 1: Signature matches an independently computed HMAC
+    console.log('1. Testing HMAC signature...');
+    const body = JSON.stringify({ event: 'claim.validation.completed', claim_id: 'TEST-WEBHOOK-001' });
+    const timestamp = 1760000000;
+    const signature = signWebhookPayload(body, timestamp, 'test-secret');
+    const expected = crypto.createHmac('sha256', 'test-secret').update(`${timestamp}.${body}`).digest('hex');
+
+    if (signature !== `t=${timestamp},v1=${expected}`) {
+      throw new Error(`Unexpected signature: ${signature}`);
+    }
+    if (signWebhookPayload(body + ' ', timestamp, 'test-secret') === signature) {
+      throw new Error('Signature did not change when the body changed');
+    }
+    console.log('   ✅ Signature:', signature);
+
+    // Test 2: Backoff doubles and is capped
+    console.log('\n2. Testing exponential backoff...');
+    const delays = [1, 2, 3, 4].map(getRetryDelayMs);
+    console.log('   Delays (ms):', delays.join(', '));
+    for (let i = 1; i < delays.length; i++) {
+      if (delays[i] !== Math.min(delays[i - 1] * 2, getRetryDelayMs(100))) {
+        throw new Error(`Backoff did not double between attempts ${i} and ${i + 1}`);
+      }
+    }
+    if (getRetryDelayMs(100) !== getRetryDelayMs(200)) {
+      throw new Error('Backoff is not capped');
+    }
+    console.log('   ✅ Backoff doubles and caps at', getRetryDelayMs(100), 'ms');
+
+    // Test 3: Retryable responses
+    console.log('\n3. Testing retryable status classification...');
+    const cases: Array<[number | undefined, boolean]> = [
+      [undefined, true], [408, true], [429, true], [500, true], [503, true],
+      [400, false], [401, false], [404, false], [410, false]
+    ];
+    cases.forEach(([status, retryable]) => {
+      if (isRetryableStatus(status) !== retryable) {
+        throw new Error(`Status ${status} should${retryable ? '' : ' not'} be retryable`);
+      }
+    });
+    console.log('   ✅ Network errors, 408, 429 and 5xx retry; other 4xx dead-letter immediately');
+
+    // Test 4: Private and reserved addresses
+    console.log('\n4. Testing private address detection...');
+    const addresses: Array<[string, boolean]> = [
+      ['127.0.0.1', true], ['10.1.2.3', true], ['172.20.0.1', true], ['192.168.1.1', true], ['169.254.169.254', true],
+      ['100.64.0.1', true], ['0.0.0.0', true], ['::1', true], ['fd00::1', true], ['fe80::1', true], ['::ffff:127.0.0.1', true],
+      ['8.8.8.8', false], ['172.32.0.1', false], ['2606:4700::1111', false], ['example.com', false]
+    ];
+    addresses.forEach(([address, blocked]) => {
+      if (isPrivateAddress(address) !== blocked) {
+        throw new Error(`${address} should${blocked ? '' : ' not'} be treated as private`);
+      }
+    });
+    console.log('   ✅ Loopback, private, link-local and mapped IPv4 addresses are blocked');
+
+    // Test 5: callback_url checks
+    console.log('\n5. Testing callback_url checks...');
+    const urls: Array<[string, boolean]> = [
+      ['https://hooks.example.com/claims', true], ['http://203.0.113.10:8080/cb', true],
+      ['http://localhost:3000/cb', false], ['http://127.0.0.1/cb', false], ['http://[::1]/cb', false],
+      ['http://169.254.169.254/latest/meta-data', false], ['ftp://example.com/cb', false], ['not a url', false]
+    ];
+    urls.forEach(([url, allowed]) => {
+      const problem = checkCallbackUrl(url);
+      if ((problem === null) !== allowed) {
+        throw new Error(`${url} should${allowed ? '' : ' not'} be allowed (${problem})`);
+      }
+    });
+    console.log('   ✅ Only public http(s) callback hosts are accepted');
+
+    console.log('\n✅ Webhook delivery test completed successfully!');
+
+  } catch (error) {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  }
+}
+
+// Run the test
+if (require.main === module) {
+  testWebhookDelivery();
+}
+
+export { testWebhookDelivery };
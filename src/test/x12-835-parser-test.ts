@@ -0,0 +1,148 @@
+import { parse835, RemittanceOutcome, X12Remittance } from '../services/x12-835-parser';
+import { PredictedStatus, predictionCorrect } from '../services/remittance-service';
+
+// ISA with fixed-width fields: 106 characters including the segment terminator
+const ISA = 'ISA*00*          *00*          *ZZ*AETNA          *ZZ*CLINIC         *251020*1200*^*00501*000000001*0*P*:';
+
+const REMITTANCE_SEGMENTS = [
+  ISA,
+  'GS*HP*AETNA*CLINIC*20251020*1200*1*X*005010X221A1',
+  'ST*835*0001*005010X221A1',
+  'BPR*I*680*C*ACH*CCP*01*999999999*DA*123456*1512345678**01*999988880*DA*98765*20250310',
+  'TRN*1*EFT-7781*1512345678',
+  'N1*PR*AETNA',
+  'N1*PE*BILLING CLINIC*XX*1234567893',
+  'LX*1',
+  // Contractual (CO-45) write-off only
+  'CLP*PCN-1*1*100*80**12*AET-1',
+  'SVC*HC:97140:59*100*80**1',
+  'DTM*472*20250303',
+  'CAS*CO*45*20',
+  // Nothing paid, the allowed amount went to the deductible
+  'CLP*PCN-2*1*100*0*30*12*AET-2',
+  'SVC*HC:97110*100*0**1',
+  'CAS*PR*1*30',
+  'CAS*CO*45*70',
+  // Denied by status code
+  'CLP*PCN-3*4*100*0*0*12*AET-3',
+  'SVC*HC:98940*100*0**1',
+  'CAS*CO*50*100',
+  // Nothing paid and nothing to the patient
+  'CLP*PCN-4*1*100*0**12*AET-4',
+  'SVC*HC:97140*100*0**1',
+  'CAS*CO*50*100',
+  // Reversal of an earlier payment
+  'CLP*PCN-5*22*-100*-80**12*AET-5',
+  'SVC*HC:97140*-100*-80**1',
+  'CAS*CO*45*-20',
+  // Hospital claim: a revenue-code (NU) line cut by CO-97 and a HCPCS line
+  'CLP*PCN-6*1*500*300**13*AET-6',
+  'SVC*NU:0450*200*100**1',
+  'CAS*CO*97*100',
+  'SVC*HC:99284*300*200*0450*1',
+  'CLP*PCN-7*1*100*100**12*AET-7',
+  'SVC*ZZ:97140*100*100**1',
+  'SE*1*0001',
+  'GE*1*1',
+  'IEA*1*000000001'
+];
+
+function byClaim(remittances: X12Remittance[], patientControlNumber: string): X12Remittance {
+  const remittance = remittances.find(r => r.patient_control_number === patientControlNumber);
+  if (!remittance) throw new Error(`${patientControlNumber} was not imported`);
+  return remittance;
+}
+
+async function testRemittanceParser() {
+  console.log('🧪 Testing X12 835 Remittance Parser...\n');
+
+  try {
+    const text = REMITTANCE_SEGMENTS.join('~\n') + '~';
+    const { remittances, errors } = parse835(text);
+
+    // Test 1: CLP/CAS/SVC outcome classification
+    console.log('1. Testing outcome classification...');
+    console.log('   Outcomes:', remittances.map(r => `${r.patient_control_number}=${r.outcome}`).join(', '));
+    const expected: Array<[string, string, string]> = [
+      ['PCN-1', 'paid', 'CO-45 only is paid'],
+      ['PCN-2', 'paid', 'zero pay with patient responsibility is paid'],
+      ['PCN-3', 'denied', 'CLP02 4 is denied'],
+      ['PCN-4', 'denied', 'zero pay without patient responsibility is denied'],
+      ['PCN-5', 'reversed', 'CLP02 22 is reversed'],
+      ['PCN-6', 'adjusted', 'a CO-97 line cut adjusts the claim']
+    ];
+    expected.forEach(([patientControlNumber, outcome, label]) => {
+      const remittance = byClaim(remittances, patientControlNumber);
+      if (remittance.outcome !== outcome || remittance.service_lines[0].outcome !== outcome) {
+        throw new Error(`${label}: got ${remittance.outcome} / ${remittance.service_lines[0].outcome}`);
+      }
+    });
+    console.log('   ✅ CO-45 only and PR-only zero pay are paid; CLP02 4 and unpaid claims denied; CLP02 22 reversed');
+
+    // Test 2: Header context and line detail
+    console.log('\n2. Testing header and line fields...');
+    const first = byClaim(remittances, 'PCN-1');
+    const firstLine = first.service_lines[0];
+    if (first.payer !== 'AETNA' || first.check_number !== 'EFT-7781' || first.payment_date !== '2025-03-10'
+      || first.payer_claim_control_number !== 'AET-1') {
+      throw new Error(`Unexpected claim fields: ${JSON.stringify(first)}`);
+    }
+    if (firstLine.code !== '97140' || firstLine.modifiers?.join(',') !== '59' || firstLine.date_of_service !== '2025-03-03'
+      || firstLine.adjustments[0]?.reason_code !== '45' || firstLine.adjustments[0].amount !== 20) {
+      throw new Error(`Unexpected service line: ${JSON.stringify(firstLine)}`);
+    }
+    console.log('   ✅ N1*PR payer, TRN trace number, BPR16 date, SVC modifiers, DTM date and CAS adjustments');
+
+    // Test 3: Revenue-code (NU) lines
+    console.log('\n3. Testing NU service lines...');
+    const [revenueLine, procedureLine] = byClaim(remittances, 'PCN-6').service_lines;
+    if (revenueLine.code_qualifier !== 'NU' || revenueLine.code !== '0450' || revenueLine.revenue_code !== '0450'
+      || revenueLine.outcome !== 'adjusted') {
+      throw new Error(`Unexpected NU line: ${JSON.stringify(revenueLine)}`);
+    }
+    if (procedureLine.code_qualifier !== 'HC' || procedureLine.code !== '99284' || procedureLine.revenue_code !== '0450'
+      || procedureLine.outcome !== 'paid') {
+      throw new Error(`Unexpected HC line: ${JSON.stringify(procedureLine)}`);
+    }
+    console.log('   ✅ NU:0450 keeps its qualifier; the HCPCS line takes SVC04 as its revenue code');
+
+    // Test 4: Claims with parse errors are left out
+    console.log('\n4. Testing parse errors...');
+    console.log('   Errors:', JSON.stringify(errors));
+    if (remittances.some(r => r.patient_control_number === 'PCN-7')
+      || !errors.some(error => error.claim_id === 'PCN-7' && error.element === 'SVC01' && error.segment_id === 'SVC')) {
+      throw new Error('A bad SVC01 qualifier should leave PCN-7 out with an error');
+    }
+    console.log('   ✅ PCN-7 left out with an SVC01 error');
+
+    // Test 5: Prediction accuracy scoring
+    console.log('\n5. Testing prediction scoring...');
+    const cases: Array<[PredictedStatus, RemittanceOutcome, boolean | null]> = [
+      ['APPROVED', 'paid', true],
+      ['APPROVED', 'adjusted', true],
+      ['APPROVED', 'denied', false],
+      ['DENIED', 'denied', true],
+      ['DENIED', 'paid', false],
+      ['REQUIRES_REVIEW', 'denied', null]
+    ];
+    cases.forEach(([predicted, actual, correct]) => {
+      if (predictionCorrect(predicted, actual) !== correct) {
+        throw new Error(`${predicted} against ${actual} should score ${correct}`);
+      }
+    });
+    console.log('   ✅ APPROVED matches paid or adjusted, DENIED matches denied, REQUIRES_REVIEW is not scored');
+
+    console.log('\n✅ X12 835 remittance parser test completed successfully!');
+
+  } catch (error) {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  }
+}
+
+// Run the test
+if (require.main === module) {
+  testRemittanceParser();
+}
+
+export { testRemittanceParser };
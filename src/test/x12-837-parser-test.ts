@@ -0,0 +1,213 @@
+import { detect837Kind, parse837I, parse837P } from '../services/x12-837-parser';
+
+// ISA with fixed-width fields: 106 characters including the segment terminator
+const ISA = 'ISA*00*          *00*          *ZZ*SUBMITTER      *ZZ*RECEIVER       *251020*1200*^*00501*000000001*0*P*:';
+
+function interchange(version: string, segments: string[]): string {
+  return [
+    ISA,
+    `GS*HC*SUBMITTER*RECEIVER*20251020*1200*1*X*${version}`,
+    `ST*837*0001*${version}`,
+    ...segments,
+    'SE*1*0001',
+    'GE*1*1',
+    'IEA*1*000000001'
+  ].join('~\n') + '~';
+}
+
+// 1-based position of a segment in the interchange, as reported in parse errors
+function positionOf(text: string, segment: string): number {
+  return text.split('~\n').indexOf(segment) + 1;
+}
+
+const PROFESSIONAL_SEGMENTS = [
+  'HL*1**20*1',
+  'NM1*85*2*BILLING CLINIC*****XX*1234567893',
+  'HL*2*1*22*0',
+  'SBR*P*18*******CI',
+  'NM1*IL*1*DOE*JANE****MI*W123456789',
+  'N4*ALBANY*NY*12207',
+  'NM1*PR*2*AETNA*****PI*60054',
+  'CLM*PCN-001*150***11:B:1*Y*A*Y*Y',
+  'HI*ABK:M545*ABF:M5416',
+  'NTE*ADD*Low back pain after lifting; manipulation and soft tissue work',
+  'LX*1',
+  'SV1*HC:97140:59*60*UN*2***1:2',
+  'DTP*472*D8*20250303',
+  'LX*2',
+  'SV1*HC:98940*90*UN*1***1',
+  'DTP*472*D8*20250304',
+  'CLM*PCN-002*100***1:B:1*Y*A*Y*Y',
+  'HI*ABK:M545',
+  'LX*1',
+  'SV1*HC:97110*100*UN*0***1',
+  'SV2*0450*HC:99284*400*UN*1'
+];
+
+const INSTITUTIONAL_SEGMENTS = [
+  'HL*1**20*1',
+  'NM1*85*2*GENERAL HOSPITAL*****XX*1234567893',
+  'HL*2*1*22*0',
+  'SBR*P*18*******MB',
+  'NM1*IL*1*ROE*RICHARD****MI*1EG4TE5MK73',
+  'N4*TRENTON*NJ*08608',
+  'NM1*PR*2*MEDICARE*****PI*12202',
+  'CLM*INST-001*500***13:A:1**A*Y*Y',
+  'DTP*434*RD8*20250301-20250303',
+  'DTP*435*DT*202503010830',
+  'CL1*1*7*01',
+  'HI*ABK:R079',
+  'HI*BH:11:D8:20250228',
+  'LX*1',
+  'SV2*0450*HC:99284:25*400*UN*1',
+  'LX*2',
+  'SV2*0300**100*UN*1',
+  'CLM*INST-002*200***13:A**A*Y*Y',
+  'HI*ABK:R079',
+  'LX*1',
+  'SV1*HC:99213*200*UN*1***1'
+];
+
+async function testX12ClaimParser() {
+  console.log('🧪 Testing X12 837 Claim Parser...\n');
+
+  try {
+    const text = interchange('005010X222A1', PROFESSIONAL_SEGMENTS);
+    const result = parse837P(text);
+
+    // Test 1: HI diagnoses and SV1 service lines
+    console.log('1. Testing 837P HI and SV1 parsing...');
+    if (result.claims.length !== 1 || result.claims[0].claim_id !== 'PCN-001') {
+      throw new Error(`Expected only PCN-001 to import: ${JSON.stringify(result.claims.map(claim => claim.claim_id))}`);
+    }
+    const payload = result.claims[0].payload;
+    console.log('   Payload:', JSON.stringify({ payer: payload.payer, icd10_codes: payload.icd10_codes, service_lines: payload.service_lines }));
+    if (payload.icd10_codes.join(',') !== 'M54.5,M54.16') {
+      throw new Error(`HI ABK/ABF should give M54.5 and M54.16: ${payload.icd10_codes}`);
+    }
+    const [first, second] = payload.service_lines || [];
+    if (first?.code !== '97140' || first.modifiers?.join(',') !== '59' || first.charge !== 60 || first.units !== 2
+      || first.diagnosis_pointers?.join(',') !== '1,2' || first.date_of_service !== '2025-03-03') {
+      throw new Error(`Unexpected first SV1 line: ${JSON.stringify(first)}`);
+    }
+    if (second?.code !== '98940' || second.date_of_service !== '2025-03-04' || second.diagnosis_pointers?.join(',') !== '1') {
+      throw new Error(`Unexpected second SV1 line: ${JSON.stringify(second)}`);
+    }
+    console.log('   ✅ Diagnoses formatted with a decimal point; SV1 code, modifiers, charge, units, pointers and dates kept');
+
+    // Test 2: Claim-level fields
+    console.log('\n2. Testing claim fields...');
+    const expected = {
+      payer: 'AETNA',
+      patient_control_number: 'PCN-001',
+      place_of_service: '11',
+      member_plan_type: 'Commercial',
+      state: 'NY',
+      date_of_service: '2025-03-03'
+    };
+    Object.entries(expected).forEach(([field, value]) => {
+      if ((payload as any)[field] !== value) {
+        throw new Error(`${field} should be ${value}, got ${(payload as any)[field]}`);
+      }
+    });
+    if (payload.cpt_codes.join(',') !== '97140,98940' || !payload.note_summary.startsWith('Low back pain')) {
+      throw new Error(`Unexpected cpt_codes or note: ${JSON.stringify(payload)}`);
+    }
+    console.log('   ✅ NM1*PR payer, CLM05 place of service, SBR09 plan type, N4 state and the earliest line date');
+
+    // Test 3: Errors carry their segment position and element
+    console.log('\n3. Testing segment-position errors...');
+    console.log('   Errors:', JSON.stringify(result.errors));
+    const expectErrors: Array<[string, string | undefined]> = [
+      ['CLM*PCN-002*100***1:B:1*Y*A*Y*Y', 'CLM05'],
+      ['SV1*HC:97110*100*UN*0***1', 'SV104'],
+      ['SV2*0450*HC:99284*400*UN*1', undefined]
+    ];
+    expectErrors.forEach(([segment, element]) => {
+      const error = result.errors.find(e => e.segment === positionOf(text, segment));
+      if (!error || error.element !== element || error.claim_id !== 'PCN-002' || error.segment_id !== segment.split('*')[0]) {
+        throw new Error(`Expected a PCN-002 error at segment ${positionOf(text, segment)} (${element}): ${JSON.stringify(result.errors)}`);
+      }
+    });
+    console.log('   ✅ Bad CLM05, zero SV104 units and an SV2 line are reported at their segments for PCN-002');
+
+    // Test 4: Interchange-level errors
+    console.log('\n4. Testing interchange errors...');
+    const truncated = parse837P(text.slice(0, text.indexOf('SE*1*0001')));
+    if (!truncated.errors.some(error => error.message.includes('no IEA trailer') && error.claim_id === undefined)) {
+      throw new Error(`A truncated file should be reported: ${JSON.stringify(truncated.errors)}`);
+    }
+    const wrongGuide = parse837P(interchange('005010X223A2', PROFESSIONAL_SEGMENTS.slice(0, 16)));
+    if (!wrongGuide.errors.some(error => error.element === 'GS08')) {
+      throw new Error(`An 837I guide should be rejected by parse837P: ${JSON.stringify(wrongGuide.errors)}`);
+    }
+    if (parse837P('not x12').errors[0]?.segment !== 0) {
+      throw new Error('Text without an ISA header should be an error at segment 0');
+    }
+    console.log('   ✅ Truncated files, the wrong implementation guide and non-X12 text are rejected');
+
+    // Test 5: 837I SV2 lines, type of bill and CL1/HI BH
+    console.log('\n5. Testing 837I parsing...');
+    const institutionalText = interchange('005010X223A2', INSTITUTIONAL_SEGMENTS);
+    if (detect837Kind(institutionalText) !== '837I' || detect837Kind(text) !== '837P') {
+      throw new Error('detect837Kind should read the implementation guide from GS08');
+    }
+    const institutional = parse837I(institutionalText);
+    if (institutional.claims.length !== 1 || institutional.claims[0].claim_id !== 'INST-001') {
+      throw new Error(`Expected only INST-001 to import: ${JSON.stringify(institutional.claims.map(claim => claim.claim_id))}`);
+    }
+    const hospital = institutional.claims[0].payload;
+    console.log('   Institutional:', JSON.stringify(hospital.institutional));
+    const [facilityLine, ...otherLines] = hospital.service_lines || [];
+    if (facilityLine?.code !== '99284' || facilityLine.revenue_code !== '0450' || facilityLine.modifiers?.join(',') !== '25'
+      || facilityLine.charge !== 400 || otherLines.length !== 0) {
+      throw new Error(`Only the SV2 line with a HCPCS code should be a service line: ${JSON.stringify(hospital.service_lines)}`);
+    }
+    if (hospital.revenue_codes?.join(',') !== '0450,0300' || hospital.cpt_codes.join(',') !== '99284') {
+      throw new Error(`Revenue-only lines belong in revenue_codes: ${JSON.stringify(hospital.revenue_codes)}`);
+    }
+    const info = hospital.institutional;
+    if (hospital.provider_type !== 'hospital' || info?.type_of_bill !== '0131' || info.admission_date !== '2025-03-01'
+      || info.admission_type !== '1' || info.admission_source !== '7' || info.patient_status !== '01') {
+      throw new Error(`Unexpected institutional fields: ${JSON.stringify(hospital)}`);
+    }
+    if (JSON.stringify(info.occurrence_codes) !== JSON.stringify([{ code: '11', date: '2025-02-28' }])) {
+      throw new Error(`HI BH should give occurrence code 11: ${JSON.stringify(info.occurrence_codes)}`);
+    }
+    if (hospital.date_of_service !== '2025-03-01' || hospital.icd10_codes.join(',') !== 'R07.9' || hospital.state !== 'NJ') {
+      throw new Error(`The statement period should give the date of service: ${JSON.stringify(hospital)}`);
+    }
+    console.log('   ✅ CLM05 13:A:1 gives type of bill 0131; CL1, DTP*435 and HI BH fill the institutional fields');
+
+    // Test 6: 837I errors
+    console.log('\n6. Testing 837I errors...');
+    console.log('   Errors:', JSON.stringify(institutional.errors));
+    const institutionalErrors: Array<[string, string | undefined]> = [
+      ['CLM*INST-002*200***13:A**A*Y*Y', 'CLM05'],
+      ['SV1*HC:99213*200*UN*1***1', undefined]
+    ];
+    institutionalErrors.forEach(([segment, element]) => {
+      const error = institutional.errors.find(e => e.segment === positionOf(institutionalText, segment));
+      if (!error || error.element !== element || error.claim_id !== 'INST-002') {
+        throw new Error(`Expected an INST-002 error at segment ${positionOf(institutionalText, segment)} (${element}): ${JSON.stringify(institutional.errors)}`);
+      }
+    });
+    if (!institutional.errors.some(error => error.claim_id === 'INST-002' && error.message.includes('no SV2 service lines'))) {
+      throw new Error('A claim with only an SV1 line has no SV2 lines to check');
+    }
+    console.log('   ✅ CLM05 without a frequency and an SV1 line are reported for INST-002');
+
+    console.log('\n✅ X12 837 claim parser test completed successfully!');
+
+  } catch (error) {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  }
+}
+
+// Run the test
+if (require.main === module) {
+  testX12ClaimParser();
+}
+
+export { testX12ClaimParser };
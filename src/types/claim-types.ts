@@ -1,21 +1,50 @@
+// One billed service (CMS-1500 box 24 / UB-04 line)
+export interface ClaimServiceLine {
+  code: string;                 // CPT/HCPCS
+  revenue_code?: string;        // UB-04 revenue code of an institutional line, e.g. 0450
+  units?: number;               // Defaults to 1
+  modifiers?: string[];         // Modifiers on this line only
+  date_of_service?: string;     // YYYY-MM-DD; defaults to the claim's date_of_service
+  diagnosis_pointers?: number[]; // 1-based positions in icd10_codes, primary first
+  charge?: number;              // Billed amount
+}
+
+// UB-04 / 837I claim details
+export interface InstitutionalClaimInfo {
+  type_of_bill: string;         // e.g. 0131 (hospital outpatient, admit through discharge)
+  admission_date?: string;      // YYYY-MM-DD
+  admission_type?: string;      // UB-04 FL14
+  admission_source?: string;    // UB-04 FL15
+  patient_status?: string;      // UB-04 FL17 discharge status
+  occurrence_codes?: Array<{ code: string; date?: string }>;
+}
+
 // Core claim payload types
 export interface ClaimPayload {
   payer: string;
+  patient_control_number?: string; // Claim id on the practice's 837 (CLM01); 835 remittances are matched on it
   domains?: string[];
   seed_urls?: string[];
-  cpt_codes: string[];
+  cpt_codes: string[]; // Derived from service_lines when they are given
+  service_lines?: ClaimServiceLine[];
+  revenue_codes?: string[]; // Derived from service_lines when they are given
   icd10_codes: string[];
   place_of_service?: string;
   modifiers?: string[];
   prior_treatments?: string[];
   member_plan_type?: string;
   state?: string;
+  visit_count?: number; // Visits this benefit period including this one; checked by visit-limit payer rules
+  tenant_id?: string; // Selects the tenant's risk scoring weights
+  provider_type?: 'practitioner' | 'hospital' | 'dme' | 'asc'; // NCCI edit set; defaults to hospital for institutional claims
+  institutional?: InstitutionalClaimInfo;
+  date_of_service?: string; // YYYY-MM-DD; NCCI edits active on this date are applied (defaults to today)
   note_summary: string;
 }
 
 // Root request structure
 export interface ClaimValidationRequest {
-  callback_url: string;
+  callback_url?: string; // asynchronous jobs only: the final result is POSTed here
   payload: ClaimPayload;
 }
 
@@ -0,0 +1,117 @@
+// FHIR R4 resources, limited to the elements the Claim/ClaimResponse mapping reads or writes
+
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirReference {
+  reference?: string;
+  display?: string;
+  identifier?: { system?: string; value?: string };
+}
+
+export interface FhirMoney {
+  value?: number;
+  currency?: string;
+}
+
+export interface FhirPeriod {
+  start?: string;
+  end?: string;
+}
+
+export interface FhirAddress {
+  state?: string;
+  city?: string;
+  postalCode?: string;
+}
+
+// Claim.item
+export interface FhirClaimItem {
+  sequence: number;
+  diagnosisSequence?: number[];
+  revenue?: FhirCodeableConcept;
+  productOrService: FhirCodeableConcept;
+  modifier?: FhirCodeableConcept[];
+  servicedDate?: string;
+  servicedPeriod?: FhirPeriod;
+  locationCodeableConcept?: FhirCodeableConcept;
+  locationAddress?: FhirAddress;
+  quantity?: { value?: number };
+  unitPrice?: FhirMoney;
+  net?: FhirMoney;
+}
+
+// Claim.diagnosis
+export interface FhirClaimDiagnosis {
+  sequence: number;
+  diagnosisCodeableConcept?: FhirCodeableConcept;
+}
+
+// Claim.supportingInfo
+export interface FhirClaimSupportingInfo {
+  sequence: number;
+  category: FhirCodeableConcept;
+  code?: FhirCodeableConcept;
+  valueString?: string;
+}
+
+export interface FhirClaim {
+  resourceType: 'Claim';
+  id?: string;
+  identifier?: Array<{ system?: string; value?: string }>;
+  status?: string;
+  type?: FhirCodeableConcept;     // professional, institutional, ...
+  use?: string;
+  patient?: FhirReference;
+  billablePeriod?: FhirPeriod;
+  created?: string;
+  insurer?: FhirReference;
+  provider?: FhirReference;
+  facility?: FhirReference;
+  supportingInfo?: FhirClaimSupportingInfo[];
+  diagnosis?: FhirClaimDiagnosis[];
+  insurance?: Array<{ sequence?: number; focal?: boolean; coverage?: FhirReference }>;
+  item?: FhirClaimItem[];
+  contained?: any[];
+}
+
+export interface FhirAdjudication {
+  category: FhirCodeableConcept;
+  reason?: FhirCodeableConcept;
+  amount?: FhirMoney;
+}
+
+export interface FhirClaimResponse {
+  resourceType: 'ClaimResponse';
+  id?: string;
+  identifier?: Array<{ system?: string; value?: string }>;
+  status: 'active';
+  type?: FhirCodeableConcept;
+  use: string;
+  patient?: FhirReference;
+  created: string;
+  insurer?: FhirReference;
+  request?: FhirReference;
+  outcome: 'queued' | 'complete' | 'error' | 'partial';
+  disposition?: string;
+  item?: Array<{ itemSequence: number; adjudication: FhirAdjudication[] }>;
+  processNote?: Array<{ number: number; type: 'display' | 'print' | 'printoper'; text: string }>;
+}
+
+export interface FhirOperationOutcome {
+  resourceType: 'OperationOutcome';
+  issue: Array<{
+    severity: 'fatal' | 'error' | 'warning' | 'information';
+    code: string;           // FHIR issue type, e.g. invalid, required, exception
+    diagnostics?: string;
+    expression?: string[];  // FHIRPath of the element, e.g. Claim.item[0].productOrService
+  }>;
+}